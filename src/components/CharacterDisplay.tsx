@@ -21,7 +21,11 @@ const CharacterDisplay: React.FC<CharacterDisplayProps> = ({
   const [characterEnabled, setCharacterEnabled] = useState<boolean>(true);
   const [testMode, setTestMode] = useState<boolean>(false); // Default to test mode OFF
   const [dummySound, setDummySound] = useState<Audio.Sound | null>(null);
-  const { isTTSEnabled, currentSound, currentAlignmentData } = useChat();
+  const { isTTSEnabled, currentSound, currentAlignmentData, conversations, currentConversationId, getConversationPersona } = useChat();
+  
+  // The current conversation's persona decides the avatar; otherwise use the selected character
+  const persona = getConversationPersona(conversations.find(conv => conv.id === currentConversationId));
+  const activeCharacter = persona?.characterId || selectedCharacter;
   const { isDark, darkTheme } = useTheme();
   
   // For testing - create custom alignment data with a single viseme
@@ -165,7 +169,7 @@ const CharacterDisplay: React.FC<CharacterDisplayProps> = ({
         <>
           <View style={styles.avatarContainer}>
             <CharacterAvatar
-              character={selectedCharacter}
+              character={activeCharacter}
               size={size}
               blinkingEnabled={true}
               alignmentData={currentSound ? currentAlignmentData : (testMode ? testAlignmentData : undefined)}
@@ -1,7 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, TextInput, StyleSheet, TouchableOpacity, Platform, KeyboardAvoidingView, NativeSyntheticEvent, TextInputKeyPressEventData, Text, Animated } from 'react-native';
+import { View, TextInput, StyleSheet, TouchableOpacity, Platform, KeyboardAvoidingView, NativeSyntheticEvent, TextInputKeyPressEventData, TextInputSelectionChangeEventData, Text, Animated, Image, ScrollView } from 'react-native';
 import { IconButton } from 'react-native-paper';
 import { useChat } from '../context/ChatContext';
+import { ImageContentPart, LLMModel, MessageOverrides, PromptTemplate } from '../types';
+import { supportsVision } from '../utils/providers';
+import { describeLLMError } from '../utils/llmErrors';
+import { MAX_IMAGES_PER_MESSAGE, getImageUri, pickImages, readImageFile } from '../utils/images';
+import { findPlaceholder, getCommandQuery, getUnfilledVariables, matchTemplates } from '../utils/templates';
+
+// Most templates listed in the slash command popup at once
+const MAX_SUGGESTIONS = 6;
 
 // Define dark theme colors to match the main screen
 const darkThemeDefaults = {
@@ -31,15 +39,76 @@ const webStyles = Platform.OS === 'web'
 interface ChatInputProps {
   isDarkMode?: boolean;
   darkThemeColors?: any;
+  // When set, messages go to all of these models side by side instead of the conversation
+  compareModels?: LLMModel[];
 }
 
 const ChatInput: React.FC<ChatInputProps> = ({ 
   isDarkMode = false,
-  darkThemeColors = darkThemeDefaults 
+  darkThemeColors = darkThemeDefaults,
+  compareModels,
 }) => {
   const [inputText, setInputText] = useState('');
   const [isMacOS, setIsMacOS] = useState(false);
-  const { sendMessage, currentConversationId, isLoading, stopMessageGeneration } = useChat();
+  const [attachments, setAttachments] = useState<ImageContentPart[]>([]);
+  const [inputError, setInputError] = useState<string | null>(null);
+  // The template the draft was started from, whose overrides go with it when sent
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isPopupDismissed, setIsPopupDismissed] = useState(false);
+  // Set to move the cursor, e.g. onto a placeholder; released once the input reports it
+  const [selection, setSelection] = useState<{ start: number; end: number } | undefined>(undefined);
+  const cursorRef = useRef({ start: 0, end: 0 });
+  const {
+    sendMessage,
+    currentConversationId,
+    conversations,
+    llmOptions,
+    getGenerationSettings,
+    isLoading: isSending,
+    stopMessageGeneration,
+    comparison,
+    startComparison,
+    stopComparison,
+    templates,
+  } = useChat();
+  
+  // Refs to the underlying DOM nodes on web, for paste and drag-and-drop
+  const textInputRef = useRef<TextInput>(null);
+  const containerRef = useRef<View>(null);
+  
+  const isComparing = !!compareModels;
+  const isComparisonRunning = !!comparison?.columns.some(column => column.isLoading);
+  // Either kind of generation turns the send button into a stop button
+  const isLoading = isComparing ? isComparisonRunning : isSending;
+  
+  const canSend = (inputText.trim() !== '' || attachments.length > 0) && (!isComparing || compareModels.length > 0);
+  
+  // Typing a slash command lists the templates it could be
+  const commandQuery = getCommandQuery(inputText);
+  const suggestions = commandQuery !== null && !isPopupDismissed
+    ? matchTemplates(templates, commandQuery).slice(0, MAX_SUGGESTIONS)
+    : [];
+  
+  // A comparison already names its models, so template overrides only apply to normal sends.
+  // A model that has since been removed is ignored rather than failing the reply.
+  const templateOverrides: MessageOverrides = {};
+  if (activeTemplate && !isComparing) {
+    if (activeTemplate.model && llmOptions.some(option => option.name === activeTemplate.model)) {
+      templateOverrides.model = activeTemplate.model;
+    }
+    if (activeTemplate.temperature !== undefined) {
+      templateOverrides.temperature = activeTemplate.temperature;
+    }
+  }
+  
+  // The models this message will be sent to, so images can be rejected before sending
+  const currentConversation = conversations.find(conv => conv.id === currentConversationId);
+  const targetModels = compareModels || [templateOverrides.model || getGenerationSettings(currentConversation).model];
+  const acceptsImages = targetModels.every(model => {
+    const option = llmOptions.find(opt => opt.name === model);
+    return !option || supportsVision(option);
+  });
   
   // Animation values for the glowing border effect
   const animatedValue = useRef(new Animated.Value(0)).current;
@@ -83,23 +152,188 @@ const ChatInput: React.FC<ChatInputProps> = ({
     }
   }, []);
   
+  // Add images to the pending attachments, up to the per-message limit
+  const addAttachments = (images: ImageContentPart[]) => {
+    if (images.length === 0) return;
+    
+    setAttachments(prev => {
+      const combined = [...prev, ...images];
+      if (combined.length > MAX_IMAGES_PER_MESSAGE) {
+        setInputError(`You can attach up to ${MAX_IMAGES_PER_MESSAGE} images per message.`);
+        return combined.slice(0, MAX_IMAGES_PER_MESSAGE);
+      }
+      setInputError(null);
+      return combined;
+    });
+  };
+  
+  // Read pasted or dropped files on web, skipping anything that isn't an image
+  const addImageFiles = async (files: File[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length === 0) return;
+    
+    try {
+      addAttachments(await Promise.all(imageFiles.map(readImageFile)));
+    } catch (error) {
+      setInputError(error instanceof Error ? error.message : String(error));
+    }
+  };
+  
+  const handleAttach = async () => {
+    try {
+      addAttachments(await pickImages(MAX_IMAGES_PER_MESSAGE - attachments.length));
+    } catch (error) {
+      setInputError(error instanceof Error ? error.message : String(error));
+    }
+  };
+  
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+    setInputError(null);
+  };
+  
+  // Accept pasted and dropped images on web
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+    
+    const inputNode = textInputRef.current as unknown as HTMLElement | null;
+    const containerNode = containerRef.current as unknown as HTMLElement | null;
+    if (!inputNode || !containerNode) return;
+    
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files || []);
+      if (files.some(file => file.type.startsWith('image/'))) {
+        // Keep the image's file name from being pasted as text
+        event.preventDefault();
+        addImageFiles(files);
+      }
+    };
+    
+    const handleDragOver = (event: DragEvent) => {
+      // Required for the drop event to fire
+      event.preventDefault();
+    };
+    
+    const handleDrop = (event: DragEvent) => {
+      event.preventDefault();
+      addImageFiles(Array.from(event.dataTransfer?.files || []));
+    };
+    
+    inputNode.addEventListener('paste', handlePaste);
+    containerNode.addEventListener('dragover', handleDragOver);
+    containerNode.addEventListener('drop', handleDrop);
+    
+    return () => {
+      inputNode.removeEventListener('paste', handlePaste);
+      containerNode.removeEventListener('dragover', handleDragOver);
+      containerNode.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+  
+  const handleChangeText = (text: string) => {
+    setInputText(text);
+    setIsPopupDismissed(false);
+    setHighlightedIndex(0);
+    if (!text) setActiveTemplate(null);
+  };
+  
+  const handleSelectionChange = (e: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => {
+    cursorRef.current = e.nativeEvent.selection;
+    if (selection) setSelection(undefined);
+  };
+  
+  // Select the next placeholder from a position, so typing replaces it
+  const selectPlaceholder = (text: string, from: number): boolean => {
+    const placeholder = findPlaceholder(text, from);
+    if (!placeholder) return false;
+    setSelection(placeholder);
+    textInputRef.current?.focus();
+    return true;
+  };
+  
+  // Replace the typed command with the template's text, ready to fill in
+  const applyTemplate = (template: PromptTemplate) => {
+    setInputText(template.body);
+    setActiveTemplate(template);
+    setInputError(null);
+    if (!selectPlaceholder(template.body, 0)) {
+      setSelection({ start: template.body.length, end: template.body.length });
+      textInputRef.current?.focus();
+    }
+  };
+  
   const handleSend = () => {
+    if (suggestions.length > 0) {
+      applyTemplate(suggestions[Math.min(highlightedIndex, suggestions.length - 1)]);
+      return;
+    }
+    
     if (isLoading) {
       // If we're currently loading, stop the message generation instead
-      stopMessageGeneration();
+      if (isComparing) {
+        stopComparison();
+      } else {
+        stopMessageGeneration();
+      }
+      return;
+    }
+    
+    if (!canSend || !currentConversationId) return;
+    
+    // Keep the draft so the user can remove the images or switch models
+    if (attachments.length > 0 && !acceptsImages) {
+      setInputError(describeLLMError('unsupported_input'));
       return;
     }
     
-    if (inputText.trim() === '' || !currentConversationId) return;
+    const unfilled = activeTemplate ? getUnfilledVariables(inputText, activeTemplate) : [];
+    if (unfilled.length > 0) {
+      setInputError(`Fill in ${unfilled.map(variable => `{{${variable}}}`).join(', ')} before sending.`);
+      selectPlaceholder(inputText, 0);
+      return;
+    }
     
-    sendMessage(inputText);
+    if (compareModels) {
+      startComparison(inputText, compareModels, attachments);
+    } else {
+      sendMessage(inputText, attachments, templateOverrides);
+    }
     setInputText('');
+    setAttachments([]);
+    setInputError(null);
+    setActiveTemplate(null);
   };
 
   // Handle key press events for Enter/Return key
   const handleKeyPress = (e: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
     const { key } = e.nativeEvent;
     
+    // Arrow keys move through the slash command popup, Tab picks and Escape closes it
+    if (suggestions.length > 0) {
+      if (key === 'ArrowDown' || key === 'ArrowUp') {
+        e.preventDefault();
+        const step = key === 'ArrowDown' ? 1 : suggestions.length - 1;
+        setHighlightedIndex(index => (index + step) % suggestions.length);
+        return;
+      }
+      if (key === 'Tab') {
+        e.preventDefault();
+        applyTemplate(suggestions[Math.min(highlightedIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (key === 'Escape') {
+        setIsPopupDismissed(true);
+        return;
+      }
+    }
+    
+    // Tab moves to the next placeholder of a template being filled in
+    if (key === 'Tab' && activeTemplate && findPlaceholder(inputText)) {
+      e.preventDefault();
+      selectPlaceholder(inputText, cursorRef.current.end);
+      return;
+    }
+    
     // Check if Enter/Return was pressed
     if (key === 'Enter' || key === 'Return') {
       // On web, check for modifier keys
@@ -147,13 +381,81 @@ const ChatInput: React.FC<ChatInputProps> = ({
       keyboardVerticalOffset={100}
       style={styles.keyboardAvoidingView}
     >
-      <View style={[
+      <View ref={containerRef} style={[
         styles.container,
         isDarkMode && {
           backgroundColor: darkThemeColors.surface,
           borderTopColor: darkThemeColors.border,
         }
       ]}>
+        {attachments.length > 0 && (
+          <ScrollView horizontal style={styles.attachmentRow} contentContainerStyle={styles.attachmentRowContent}>
+            {attachments.map((image, index) => (
+              <View key={index} style={styles.thumbnailWrapper}>
+                <Image source={{ uri: getImageUri(image) }} style={styles.thumbnail} />
+                <TouchableOpacity
+                  style={styles.removeAttachmentButton}
+                  onPress={() => removeAttachment(index)}
+                  accessibilityLabel="Remove image"
+                >
+                  <Text style={styles.removeAttachmentText}>×</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+        
+        {inputError && (
+          <Text style={styles.inputError}>{inputError}</Text>
+        )}
+        
+        {suggestions.length > 0 && (
+          <View style={[
+            styles.suggestionList,
+            isDarkMode && {
+              backgroundColor: darkThemeColors.surfaceElevated,
+              borderColor: darkThemeColors.border,
+            }
+          ]}>
+            {suggestions.map((template, index) => (
+              <TouchableOpacity
+                key={template.id}
+                style={[
+                  styles.suggestion,
+                  index === highlightedIndex && styles.highlightedSuggestion,
+                ]}
+                onPress={() => applyTemplate(template)}
+              >
+                <Text style={[styles.suggestionCommand, isDarkMode && { color: darkThemeColors.text }]}>
+                  /{template.command}
+                </Text>
+                {!!template.description && (
+                  <Text
+                    style={[styles.suggestionDescription, isDarkMode && { color: darkThemeColors.textTertiary }]}
+                    numberOfLines={1}
+                  >
+                    {template.description}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        
+        {activeTemplate && (
+          <View style={styles.templateBar}>
+            <Text style={[styles.templateBarText, isDarkMode && { color: darkThemeColors.textSecondary }]}>
+              /{activeTemplate.command}
+              {templateOverrides.model && ` · ${templateOverrides.model}`}
+              {templateOverrides.temperature !== undefined && ` · temperature ${templateOverrides.temperature}`}
+              {findPlaceholder(inputText) && ` · ${Platform.OS === 'web' ? 'Tab to the next blank' : 'fill in the blanks'}`}
+            </Text>
+            <TouchableOpacity onPress={() => setActiveTemplate(null)} accessibilityLabel="Drop template settings">
+              <Text style={[styles.templateBarText, isDarkMode && { color: darkThemeColors.textSecondary }]}>×</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        
         <Animated.View style={[
           styles.inputContainerWrapper,
           {
@@ -177,16 +479,29 @@ const ChatInput: React.FC<ChatInputProps> = ({
               backgroundColor: darkThemeColors.inputBackground,
             }
           ]}>
+            <IconButton
+              icon="image-plus"
+              size={22}
+              onPress={handleAttach}
+              disabled={isLoading || attachments.length >= MAX_IMAGES_PER_MESSAGE}
+              iconColor={isDarkMode ? darkThemeColors.textSecondary : '#6b7280'}
+              style={styles.attachButton}
+              accessibilityLabel="Attach image"
+            />
+            
             <TextInput
+              ref={textInputRef}
               style={[
                 styles.textInput,
                 isDarkMode && {
                   color: darkThemeColors.text,
                 }
               ]}
-              placeholder="Message bubl..."
+              placeholder={isComparing ? 'Ask every selected model...' : 'Message bubl, or type / for templates...'}
               value={inputText}
-              onChangeText={setInputText}
+              onChangeText={handleChangeText}
+              selection={selection}
+              onSelectionChange={handleSelectionChange}
               multiline
               maxLength={4000}
               onSubmitEditing={handleSend}
@@ -201,7 +516,7 @@ const ChatInput: React.FC<ChatInputProps> = ({
             <TouchableOpacity
               style={[
                 styles.sendButton,
-                !inputText.trim() && !isLoading && [
+                !canSend && !isLoading && [
                   styles.sendButtonDisabled,
                   isDarkMode && {
                     backgroundColor: darkThemeColors.border,
@@ -210,14 +525,14 @@ const ChatInput: React.FC<ChatInputProps> = ({
                 isLoading && {
                   backgroundColor: isDarkMode ? darkThemeColors.primaryLight : '#54C6EB',
                 },
-                inputText.trim() && !isLoading && isDarkMode && {
+                canSend && !isLoading && isDarkMode && {
                   backgroundColor: darkThemeColors.primary,
                   shadowColor: '#000',
                   shadowOpacity: 0.3,
                 }
               ]}
               onPress={handleSend}
-              disabled={!isLoading && (!inputText.trim() || !currentConversationId)}
+              disabled={!isLoading && (!canSend || !currentConversationId)}
             >
               <IconButton
                 icon={isLoading ? "stop" : "send"}
@@ -225,7 +540,7 @@ const ChatInput: React.FC<ChatInputProps> = ({
                 iconColor={
                   isLoading
                     ? "#ffffff"
-                    : inputText.trim() 
+                    : canSend
                       ? "#ffffff" 
                       : isDarkMode 
                         ? darkThemeColors.textTertiary 
@@ -303,6 +618,87 @@ const styles = StyleSheet.create({
       WebkitAppearance: 'none',
     } : {}),
   },
+  attachButton: {
+    margin: 0,
+    marginRight: 4,
+    marginTop: 4,
+  },
+  attachmentRow: {
+    marginBottom: 12,
+  },
+  attachmentRowContent: {
+    paddingTop: 6,
+  },
+  thumbnailWrapper: {
+    marginRight: 10,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+  },
+  removeAttachmentButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#374151',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeAttachmentText: {
+    color: '#fff',
+    fontSize: 14,
+    lineHeight: 16,
+    fontWeight: 'bold',
+  },
+  inputError: {
+    color: '#dc2626',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  suggestionList: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    paddingVertical: 4,
+    marginBottom: 10,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  highlightedSuggestion: {
+    backgroundColor: '#54C6EB20',
+  },
+  suggestionCommand: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginRight: 10,
+  },
+  suggestionDescription: {
+    flex: 1,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  templateBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    marginBottom: 6,
+  },
+  templateBarText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
   sendButton: {
     backgroundColor: '#54C6EB',
     borderRadius: 20,
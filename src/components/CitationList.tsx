@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Citation } from '../types';
+import { useChat } from '../context/ChatContext';
+
+interface CitationListProps {
+  citations: Citation[];
+  isDarkMode?: boolean;
+  darkThemeColors?: any;
+}
+
+/**
+ * The document passages an answer cites, as numbered chips matching the [n]
+ * markers in its text. Tapping one shows the passage it points to.
+ */
+const CitationList: React.FC<CitationListProps> = ({
+  citations,
+  isDarkMode = false,
+  darkThemeColors,
+}) => {
+  const { documents } = useChat();
+  const [openNumber, setOpenNumber] = useState<number | null>(null);
+  const openCitation = citations.find(citation => citation.number === openNumber);
+  const secondaryColor = isDarkMode ? darkThemeColors?.textTertiary : '#6b7280';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        <MaterialIcons name="menu-book" size={14} color={secondaryColor} style={styles.icon} />
+        {citations.map(citation => {
+          const isOpen = citation.number === openNumber;
+          return (
+            <TouchableOpacity
+              key={citation.number}
+              style={[
+                styles.chip,
+                isDarkMode && { backgroundColor: darkThemeColors?.surface, borderColor: darkThemeColors?.border },
+                isOpen && styles.activeChip,
+              ]}
+              onPress={() => setOpenNumber(isOpen ? null : citation.number)}
+              activeOpacity={0.7}
+            >
+              <Text
+                style={[styles.chipText, isDarkMode && { color: darkThemeColors?.textSecondary }, isOpen && styles.activeChipText]}
+                numberOfLines={1}
+              >
+                [{citation.number}] {citation.documentName}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {openCitation && (
+        <View style={[
+          styles.passage,
+          isDarkMode && { backgroundColor: darkThemeColors?.surface, borderColor: darkThemeColors?.border },
+        ]}>
+          <Text style={[styles.passageSource, { color: secondaryColor }]}>
+            {openCitation.documentName}, part {openCitation.chunkIndex + 1}
+            {!documents.some(document => document.id === openCitation.documentId) && ' (document removed)'}
+          </Text>
+          <Text style={[styles.passageText, isDarkMode && { color: darkThemeColors?.textSecondary }]}>
+            {openCitation.text}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  icon: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chip: {
+    maxWidth: 220,
+    paddingVertical: 3,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  activeChip: {
+    backgroundColor: '#54C6EB20',
+    borderColor: '#54C6EB',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4b5563',
+  },
+  activeChipText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  passage: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+    padding: 10,
+  },
+  passageSource: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  passageText: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: '#374151',
+  },
+});
+
+export default CitationList;
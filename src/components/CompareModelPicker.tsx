@@ -0,0 +1,116 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { LLMModel } from '../types';
+import { useChat } from '../context/ChatContext';
+
+// More columns than this get too narrow to read
+export const MAX_COMPARE_MODELS = 4;
+
+interface CompareModelPickerProps {
+  selected: LLMModel[];
+  onChange: (models: LLMModel[]) => void;
+  isDarkMode?: boolean;
+  darkThemeColors?: any;
+}
+
+/**
+ * Chooses the models a comparison sends each message to
+ */
+const CompareModelPicker: React.FC<CompareModelPickerProps> = ({
+  selected,
+  onChange,
+  isDarkMode = false,
+  darkThemeColors,
+}) => {
+  const { llmOptions } = useChat();
+  const isFull = selected.length >= MAX_COMPARE_MODELS;
+
+  const toggleModel = (model: LLMModel) => {
+    if (selected.includes(model)) {
+      onChange(selected.filter(name => name !== model));
+    } else if (!isFull) {
+      onChange([...selected, model]);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: isDarkMode ? darkThemeColors?.textTertiary : '#6b7280' }]}>
+        Compare ({selected.length}/{MAX_COMPARE_MODELS})
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {llmOptions.map(option => {
+          const isActive = selected.includes(option.name);
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.chip,
+                isDarkMode && {
+                  backgroundColor: darkThemeColors?.surface,
+                  borderColor: darkThemeColors?.borderLight,
+                },
+                isActive && styles.activeChip,
+                !isActive && isFull && styles.disabledChip,
+              ]}
+              onPress={() => toggleModel(option.name)}
+              disabled={!isActive && isFull}
+              activeOpacity={0.7}
+            >
+              <Text style={[
+                styles.chipText,
+                isDarkMode && { color: darkThemeColors?.textSecondary },
+                isActive && styles.activeChipText,
+              ]}>
+                {option.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 8,
+  },
+  activeChip: {
+    backgroundColor: '#54C6EB20',
+    borderColor: '#54C6EB',
+  },
+  disabledChip: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  activeChipText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+});
+
+export default CompareModelPicker;
@@ -0,0 +1,205 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Comparison, ComparisonColumn, ToolCallContentPart, ToolResultContentPart } from '../types';
+import { useChat } from '../context/ChatContext';
+import { describeLLMError } from '../utils/llmErrors';
+import { formatMessageUsage } from '../utils/usage';
+import ToolCallBlock from './ToolCallBlock';
+
+interface CompareViewProps {
+  comparison: Comparison;
+  isDarkMode?: boolean;
+  darkThemeColors?: any;
+}
+
+/**
+ * Answers from several models to the same prompt, side by side, each with its
+ * own stop button, stats and a button to continue the conversation from it
+ */
+const CompareView: React.FC<CompareViewProps> = ({
+  comparison,
+  isDarkMode = false,
+  darkThemeColors,
+}) => {
+  const { stopComparison, adoptComparisonAnswer, dismissComparison } = useChat();
+  const secondaryColor = isDarkMode ? darkThemeColors?.textTertiary : '#6b7280';
+
+  const renderColumn = (column: ComparisonColumn) => {
+    const toolCalls = (column.parts || []).filter((part): part is ToolCallContentPart => part.type === 'tool_call');
+    const toolResults = (column.parts || []).filter((part): part is ToolResultContentPart => part.type === 'tool_result');
+    const canAdopt = !column.isLoading && !column.isError && !!column.content;
+
+    return (
+      <View
+        key={column.model}
+        style={[
+          styles.column,
+          isDarkMode && { backgroundColor: darkThemeColors?.surfaceElevated, borderColor: darkThemeColors?.border },
+        ]}
+      >
+        <View style={styles.columnHeader}>
+          <Text style={[styles.modelName, isDarkMode && { color: darkThemeColors?.text }]} numberOfLines={1}>
+            {column.model}
+          </Text>
+          {column.isLoading && (
+            <TouchableOpacity onPress={() => stopComparison(column.model)} accessibilityLabel={`Stop ${column.model}`}>
+              <MaterialIcons name="stop-circle" size={20} color={secondaryColor} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView style={styles.columnBody}>
+          {toolCalls.map(call => (
+            <ToolCallBlock
+              key={call.id}
+              call={call}
+              result={toolResults.find(result => result.toolCallId === call.id)}
+              isDarkMode={isDarkMode}
+              darkThemeColors={darkThemeColors}
+            />
+          ))}
+
+          {column.isError ? (
+            <View style={styles.errorDetail}>
+              <MaterialIcons name="error-outline" size={16} color="#ef4444" />
+              <Text style={[styles.errorText, isDarkMode && { color: darkThemeColors?.textSecondary }]}>
+                {describeLLMError(column.errorKind || 'unknown')}
+              </Text>
+            </View>
+          ) : column.content ? (
+            <Text style={[styles.answerText, isDarkMode && { color: darkThemeColors?.text }]}>
+              {column.content}
+            </Text>
+          ) : (
+            <Text style={[styles.answerText, { color: secondaryColor }]}>
+              {column.isLoading ? 'Generating response...' : 'Stopped before any text arrived'}
+            </Text>
+          )}
+        </ScrollView>
+
+        {column.usage && !column.isLoading && (
+          <Text style={[styles.usageText, { color: secondaryColor }]}>
+            {formatMessageUsage(column.usage)}
+          </Text>
+        )}
+
+        {canAdopt && (
+          <TouchableOpacity style={styles.adoptButton} onPress={() => adoptComparisonAnswer(column.model)}>
+            <Text style={styles.adoptButtonText}>Continue with this answer</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[
+      styles.container,
+      isDarkMode && { backgroundColor: darkThemeColors?.surface, borderColor: darkThemeColors?.border },
+    ]}>
+      <View style={styles.header}>
+        <MaterialIcons name="compare-arrows" size={18} color="#54C6EB" />
+        <Text style={[styles.prompt, isDarkMode && { color: darkThemeColors?.textSecondary }]} numberOfLines={2}>
+          {comparison.prompt || `${comparison.images?.length || 0} image(s)`}
+        </Text>
+        <TouchableOpacity onPress={dismissComparison} accessibilityLabel="Close comparison">
+          <MaterialIcons name="close" size={20} color={secondaryColor} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal contentContainerStyle={styles.columnRow}>
+        {comparison.columns.map(renderColumn)}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    backgroundColor: '#f9fafb',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    maxHeight: 480,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  prompt: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    marginHorizontal: 8,
+  },
+  columnRow: {
+    flexGrow: 1,
+  },
+  column: {
+    flex: 1,
+    minWidth: 260,
+    maxWidth: 480,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    backgroundColor: '#fff',
+    padding: 10,
+    marginRight: 8,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  modelName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginRight: 6,
+  },
+  columnBody: {
+    maxHeight: 320,
+  },
+  answerText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#111827',
+  },
+  errorDetail: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#4b5563',
+    marginLeft: 6,
+  },
+  usageText: {
+    fontSize: 11,
+    marginTop: 6,
+  },
+  adoptButton: {
+    marginTop: 8,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#54C6EB',
+    backgroundColor: '#54C6EB20',
+    alignItems: 'center',
+  },
+  adoptButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#54C6EB',
+  },
+});
+
+export default CompareView;
@@ -0,0 +1,123 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Conversation } from '../types';
+import { useChat } from '../context/ChatContext';
+import { CONTEXT_STRATEGIES, ContextPlan } from '../utils/contextWindow';
+import { formatTokenCount } from '../utils/tokens';
+
+interface ContextStrategyPickerProps {
+  conversation: Conversation;
+  // Current plan for the conversation's history, used to show what will be sent
+  plan?: ContextPlan;
+  isDarkMode?: boolean;
+  darkThemeColors?: any;
+}
+
+/**
+ * Shows how much of the model's context window a conversation uses and lets
+ * the user pick how older turns are handled once it no longer fits
+ */
+const ContextStrategyPicker: React.FC<ContextStrategyPickerProps> = ({
+  conversation,
+  plan,
+  isDarkMode = false,
+  darkThemeColors,
+}) => {
+  const { setContextStrategy } = useChat();
+  const strategy = conversation.contextStrategy || 'truncate';
+  const selected = CONTEXT_STRATEGIES.find(option => option.value === strategy);
+
+  const getStatusText = () => {
+    if (!plan) return '';
+
+    const usage = `~${formatTokenCount(plan.estimatedTokens)} of ${formatTokenCount(plan.budgetTokens)} tokens`;
+    if (plan.omitted.length === 0) return usage;
+
+    if (strategy === 'summarize' && plan.summary) {
+      return `${usage} · ${plan.omitted.length} earlier messages sent as a summary`;
+    }
+    return `${usage} · ${plan.omitted.length} earlier messages not sent`;
+  };
+
+  const secondaryColor = isDarkMode ? darkThemeColors?.textTertiary || '#9ca3af' : '#6b7280';
+
+  return (
+    <View>
+      <View style={styles.strategyRow}>
+        {CONTEXT_STRATEGIES.map(option => {
+          const isActive = option.value === strategy;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.strategyChip,
+                isDarkMode && {
+                  backgroundColor: darkThemeColors?.surface,
+                  borderColor: darkThemeColors?.borderLight,
+                },
+                isActive && styles.activeStrategyChip,
+              ]}
+              onPress={() => setContextStrategy(conversation.id, option.value)}
+              activeOpacity={0.7}
+            >
+              <Text style={[
+                styles.strategyText,
+                isDarkMode && { color: darkThemeColors?.textSecondary },
+                isActive && styles.activeStrategyText,
+              ]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={[styles.description, { color: secondaryColor }]}>
+        {selected?.description}
+      </Text>
+      {plan && (
+        <Text style={[styles.status, { color: secondaryColor }]}>
+          {getStatusText()}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  strategyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  strategyChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  activeStrategyChip: {
+    backgroundColor: '#54C6EB20',
+    borderColor: '#54C6EB',
+  },
+  strategyText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  activeStrategyText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  status: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
+
+export default ContextStrategyPicker;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useChat } from '../context/ChatContext';
+import { useTheme } from '../context/ThemeContext';
+import { ImportSourceApp, SkippedImport } from '../types';
+import { IMPORT_APP_NAMES, parseConversationExport } from '../utils/importers';
+import { pickFiles, readFileBytes } from '../utils/files';
+
+// Skipped conversations listed by name before the rest are only counted
+const MAX_LISTED_SKIPS = 20;
+
+interface ImportReport {
+  app: ImportSourceApp;
+  imported: number;
+  skipped: SkippedImport[];
+}
+
+/**
+ * Bring in conversations from a ChatGPT or Claude data export, or from a JSON
+ * export of this app, then show what was imported and what was left out
+ */
+const ConversationImporter: React.FC = () => {
+  const { importConversations } = useChat();
+  const { isDark } = useTheme();
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    setError(null);
+    try {
+      const [file] = await pickFiles(['application/zip', 'application/x-zip-compressed', 'application/json']);
+      if (!file) return;
+
+      setIsImporting(true);
+      const parsed = parseConversationExport(await readFileBytes(file));
+      const { imported, skipped } = importConversations(parsed.conversations);
+      setReport({ app: parsed.app, imported, skipped: [...parsed.skipped, ...skipped] });
+    } catch (importError) {
+      setReport(null);
+      setError(importError instanceof Error ? importError.message : String(importError));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const secondaryColor = isDark ? '#9ca3af' : '#6b7280';
+
+  return (
+    <View>
+      <Text style={[styles.hint, isDark && { color: '#9ca3af' }]}>
+        Choose the zip from a ChatGPT or Claude data export, the conversations.json inside it,
+        or a JSON export from here. Conversations already imported are skipped.
+      </Text>
+
+      <TouchableOpacity style={styles.importButton} onPress={handleImport} disabled={isImporting}>
+        {isImporting ? (
+          <ActivityIndicator size="small" color="#54C6EB" />
+        ) : (
+          <MaterialIcons name="file-upload" size={18} color="#54C6EB" />
+        )}
+        <Text style={styles.importButtonText}>{isImporting ? 'Importing...' : 'Import conversations'}</Text>
+      </TouchableOpacity>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {report && (
+        <View style={[styles.report, isDark && { backgroundColor: '#333' }]}>
+          <Text style={[styles.reportTitle, isDark && { color: '#f3f4f6' }]}>
+            {report.imported} {report.imported === 1 ? 'conversation' : 'conversations'} imported from {IMPORT_APP_NAMES[report.app]}
+            {report.skipped.length > 0 && `, ${report.skipped.length} skipped`}
+          </Text>
+          {report.skipped.slice(0, MAX_LISTED_SKIPS).map((skip, index) => (
+            <Text key={index} style={[styles.skipText, { color: secondaryColor }]} numberOfLines={1}>
+              {skip.title}: {skip.reason.toLowerCase()}
+            </Text>
+          ))}
+          {report.skipped.length > MAX_LISTED_SKIPS && (
+            <Text style={[styles.skipText, { color: secondaryColor }]}>
+              and {report.skipped.length - MAX_LISTED_SKIPS} more
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#54C6EB',
+    backgroundColor: '#54C6EB20',
+  },
+  importButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#54C6EB',
+    marginLeft: 6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  report: {
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  reportTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  skipText: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default ConversationImporter;
@@ -1,9 +1,13 @@
-import React, { useState } from 'react';
-import { View, FlatList, StyleSheet, Text, TouchableOpacity, Alert, TextInput, Platform, Image, ScrollView } from 'react-native';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { View, FlatList, SectionList, StyleSheet, Text, TouchableOpacity, Alert, TextInput, Platform, Image, ScrollView, Modal } from 'react-native';
 import { Button, IconButton, Divider, Menu } from 'react-native-paper';
-import { Conversation } from '../types';
+import { Conversation, MessageSearchResult } from '../types';
 import { useChat } from '../context/ChatContext';
 import { formatDate, getMessagePreview } from '../utils/helpers';
+import { getActiveBranch } from '../utils/messageTree';
+import { MAX_SEARCH_RESULTS } from '../utils/search';
+import { ConversationSection, groupConversations } from '../utils/organization';
+import ExportPanel from './ExportPanel';
 import { useTheme } from '../context/ThemeContext';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import CharacterAvatar from './CharacterAvatar';
@@ -25,6 +29,75 @@ const darkThemeDefaults = {
   activeCardBackground: '#4A4A8C',
 };
 
+// Drag data type for conversations dragged onto folders on web
+const DRAG_DATA_TYPE = 'application/x-bubl-conversation';
+
+// Make a row draggable on web, carrying its conversation's ID. Native has no
+// drag and drop here, so conversations are moved from the row's menu instead.
+const useConversationDrag = (ref: React.RefObject<View>, conversationId: string, enabled: boolean) => {
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !enabled) return;
+    
+    const node = ref.current as unknown as HTMLElement | null;
+    if (!node) return;
+    
+    const handleDragStart = (event: DragEvent) => {
+      event.dataTransfer?.setData(DRAG_DATA_TYPE, conversationId);
+      if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+    };
+    
+    node.setAttribute('draggable', 'true');
+    node.addEventListener('dragstart', handleDragStart);
+    return () => {
+      node.removeAttribute('draggable');
+      node.removeEventListener('dragstart', handleDragStart);
+    };
+  }, [conversationId, enabled]);
+};
+
+// Accept conversations dropped on an element on web; true while one is dragged over it
+const useConversationDrop = (ref: React.RefObject<View>, onDrop: (conversationId: string) => void): boolean => {
+  const [isOver, setIsOver] = useState(false);
+  const onDropRef = useRef(onDrop);
+  onDropRef.current = onDrop;
+  
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+    
+    const node = ref.current as unknown as HTMLElement | null;
+    if (!node) return;
+    
+    const carriesConversation = (event: DragEvent) => !!event.dataTransfer?.types.includes(DRAG_DATA_TYPE);
+    
+    const handleDragOver = (event: DragEvent) => {
+      if (!carriesConversation(event)) return;
+      // Required for the drop event to fire
+      event.preventDefault();
+      setIsOver(true);
+    };
+    
+    const handleDragLeave = () => setIsOver(false);
+    
+    const handleDrop = (event: DragEvent) => {
+      if (!carriesConversation(event)) return;
+      event.preventDefault();
+      setIsOver(false);
+      onDropRef.current(event.dataTransfer!.getData(DRAG_DATA_TYPE));
+    };
+    
+    node.addEventListener('dragover', handleDragOver);
+    node.addEventListener('dragleave', handleDragLeave);
+    node.addEventListener('drop', handleDrop);
+    return () => {
+      node.removeEventListener('dragover', handleDragOver);
+      node.removeEventListener('dragleave', handleDragLeave);
+      node.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+  
+  return isOver;
+};
+
 interface ConversationItemProps {
   conversation: Conversation;
   isActive: boolean;
@@ -43,11 +116,16 @@ const ConversationItem: React.FC<ConversationItemProps> = ({
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState(conversation.title);
   const [menuVisible, setMenuVisible] = useState(false);
-  const { updateConversationTitle, deleteConversation } = useChat();
+  // The menu swaps its items for a folder or tag list rather than nesting menus
+  const [menuMode, setMenuMode] = useState<'main' | 'folders' | 'tags'>('main');
+  const [isExportVisible, setIsExportVisible] = useState(false);
+  const { updateConversationTitle, deleteConversation, organizeConversation, folders, tags } = useChat();
+  const rowRef = useRef<View>(null);
   
-  const lastMessage = conversation.messages.length > 0 
-    ? conversation.messages[conversation.messages.length - 1] 
-    : null;
+  useConversationDrag(rowRef, conversation.id, !isEditing && !conversation.isArchived);
+  
+  const lastMessage = getActiveBranch(conversation).slice(-1)[0] || null;
+  const conversationTags = tags.filter(tag => conversation.tagIds?.includes(tag.id));
   
   // Edit title functions
   const handleSave = () => {
@@ -61,7 +139,10 @@ const ConversationItem: React.FC<ConversationItemProps> = ({
   };
   
   // Menu functions
-  const openMenu = () => setMenuVisible(true);
+  const openMenu = () => {
+    setMenuMode('main');
+    setMenuVisible(true);
+  };
   const closeMenu = () => setMenuVisible(false);
   
   const handleEdit = () => {
@@ -69,6 +150,35 @@ const ConversationItem: React.FC<ConversationItemProps> = ({
     setIsEditing(true);
   };
   
+  const handleTogglePin = () => {
+    closeMenu();
+    organizeConversation(conversation.id, { isPinned: !conversation.isPinned });
+  };
+  
+  const handleToggleArchive = () => {
+    closeMenu();
+    // Archived conversations leave the pinned section too
+    organizeConversation(conversation.id, { isArchived: !conversation.isArchived, isPinned: false });
+  };
+  
+  const handleExport = () => {
+    closeMenu();
+    setIsExportVisible(true);
+  };
+  
+  const handleMove = (folderId: string | undefined) => {
+    closeMenu();
+    organizeConversation(conversation.id, { folderId });
+  };
+  
+  // Tags stay in the menu so several can be toggled in a row
+  const handleToggleTag = (tagId: string) => {
+    const tagIds = conversation.tagIds || [];
+    organizeConversation(conversation.id, {
+      tagIds: tagIds.includes(tagId) ? tagIds.filter(id => id !== tagId) : [...tagIds, tagId],
+    });
+  };
+  
   // Delete function - simplified approach
   const handleDelete = () => {
     closeMenu();
@@ -96,156 +206,598 @@ const ConversationItem: React.FC<ConversationItemProps> = ({
     }
   };
   
-  return (
-    <TouchableOpacity 
-      style={[
-        styles.conversationItem, 
-        isDarkMode && {
-          backgroundColor: isActive 
-            ? darkThemeColors.activeCardBackground 
-            : darkThemeColors.cardBackground
-        },
-        !isDarkMode && isActive && styles.activeConversation
-      ]} 
-      onPress={onPress}
-      activeOpacity={isEditing ? 1 : 0.7}
-      disabled={isEditing}
-    >
-      <View style={styles.conversationInfo}>
-        {isEditing ? (
-          <View style={styles.editTitleContainer}>
-            <TextInput
-              style={[
-                styles.titleInput,
-                isDarkMode && {
-                  borderColor: darkThemeColors.primary,
-                  backgroundColor: darkThemeColors.inputBackground,
-                  color: darkThemeColors.text
-                }
-              ]}
-              value={editedTitle}
-              onChangeText={setEditedTitle}
-              autoFocus
-              selectTextOnFocus
-              maxLength={40}
-              placeholderTextColor={isDarkMode ? darkThemeColors.textTertiary : "#9CA3AF"}
+  const menuItemTitleStyle = [
+    styles.menuItemTitle,
+    isDarkMode && {
+      color: darkThemeColors.text
+    }
+  ];
+  
+  const renderMenuItems = () => {
+    if (menuMode === 'folders') {
+      return (
+        <>
+          <Menu.Item leadingIcon="arrow-left" onPress={() => setMenuMode('main')} title="Back" titleStyle={menuItemTitleStyle} />
+          <Menu.Item
+            leadingIcon={!conversation.folderId ? 'check' : 'folder-off-outline'}
+            onPress={() => handleMove(undefined)}
+            title="No folder"
+            titleStyle={menuItemTitleStyle}
+          />
+          {folders.map(folder => (
+            <Menu.Item
+              key={folder.id}
+              leadingIcon={conversation.folderId === folder.id ? 'check' : 'folder-outline'}
+              onPress={() => handleMove(folder.id)}
+              title={folder.name}
+              titleStyle={menuItemTitleStyle}
+            />
+          ))}
+        </>
+      );
+    }
+    
+    if (menuMode === 'tags') {
+      return (
+        <>
+          <Menu.Item leadingIcon="arrow-left" onPress={() => setMenuMode('main')} title="Back" titleStyle={menuItemTitleStyle} />
+          {tags.map(tag => (
+            <Menu.Item
+              key={tag.id}
+              leadingIcon={conversation.tagIds?.includes(tag.id) ? 'checkbox-marked' : 'checkbox-blank-outline'}
+              onPress={() => handleToggleTag(tag.id)}
+              title={tag.name}
+              titleStyle={[...menuItemTitleStyle, { color: tag.color }]}
             />
-            <View style={styles.editButtonsContainer}>
+          ))}
+        </>
+      );
+    }
+    
+    return (
+      <>
+        <Menu.Item
+          leadingIcon="pencil"
+          onPress={handleEdit}
+          title="Edit title"
+          titleStyle={menuItemTitleStyle}
+        />
+        {!conversation.isArchived && (
+          <Menu.Item
+            leadingIcon={conversation.isPinned ? 'pin-off' : 'pin'}
+            onPress={handleTogglePin}
+            title={conversation.isPinned ? 'Unpin' : 'Pin'}
+            titleStyle={menuItemTitleStyle}
+          />
+        )}
+        {folders.length > 0 && (
+          <Menu.Item
+            leadingIcon="folder-move"
+            onPress={() => setMenuMode('folders')}
+            title="Move to folder"
+            titleStyle={menuItemTitleStyle}
+          />
+        )}
+        {tags.length > 0 && (
+          <Menu.Item
+            leadingIcon="tag-multiple"
+            onPress={() => setMenuMode('tags')}
+            title="Tags"
+            titleStyle={menuItemTitleStyle}
+          />
+        )}
+        <Menu.Item
+          leadingIcon="export-variant"
+          onPress={handleExport}
+          title="Export"
+          titleStyle={menuItemTitleStyle}
+        />
+        <Menu.Item
+          leadingIcon={conversation.isArchived ? 'archive-arrow-up' : 'archive'}
+          onPress={handleToggleArchive}
+          title={conversation.isArchived ? 'Unarchive' : 'Archive'}
+          titleStyle={menuItemTitleStyle}
+        />
+        <Menu.Item
+          leadingIcon="delete"
+          onPress={handleDelete}
+          title="Delete"
+          titleStyle={styles.deleteMenuItemTitle}
+        />
+      </>
+    );
+  };
+  
+  return (
+    <View ref={rowRef}>
+      <TouchableOpacity 
+        style={[
+          styles.conversationItem, 
+          isDarkMode && {
+            backgroundColor: isActive 
+              ? darkThemeColors.activeCardBackground 
+              : darkThemeColors.cardBackground
+          },
+          !isDarkMode && isActive && styles.activeConversation
+        ]} 
+        onPress={onPress}
+        activeOpacity={isEditing ? 1 : 0.7}
+        disabled={isEditing}
+      >
+        <View style={styles.conversationInfo}>
+          {isEditing ? (
+            <View style={styles.editTitleContainer}>
+              <TextInput
+                style={[
+                  styles.titleInput,
+                  isDarkMode && {
+                    borderColor: darkThemeColors.primary,
+                    backgroundColor: darkThemeColors.inputBackground,
+                    color: darkThemeColors.text
+                  }
+                ]}
+                value={editedTitle}
+                onChangeText={setEditedTitle}
+                autoFocus
+                selectTextOnFocus
+                maxLength={40}
+                placeholderTextColor={isDarkMode ? darkThemeColors.textTertiary : "#9CA3AF"}
+              />
+              <View style={styles.editButtonsContainer}>
+                <IconButton
+                  icon="check"
+                  size={20}
+                  iconColor={darkThemeColors.primary}
+                  onPress={handleSave}
+                  style={styles.editButton}
+                />
+                <IconButton
+                  icon="close"
+                  size={20}
+                  iconColor={isDarkMode ? darkThemeColors.textTertiary : "#6b7280"}
+                  onPress={handleCancel}
+                  style={styles.editButton}
+                />
+              </View>
+            </View>
+          ) : (
+            <>
+              <View style={styles.titleRow}>
+                {conversation.isPinned && (
+                  <Icon
+                    name="push-pin"
+                    size={14}
+                    color={isActive ? '#fff' : isDarkMode ? darkThemeColors.textTertiary : '#6b7280'}
+                    style={styles.pinIcon}
+                  />
+                )}
+                <Text style={[
+                  styles.conversationTitle, 
+                  isDarkMode && {
+                    color: isActive ? "#ffffff" : darkThemeColors.text
+                  },
+                  !isDarkMode && isActive && styles.activeConversationText
+                ]} numberOfLines={1}>
+                  {conversation.title}
+                </Text>
+              </View>
+              {lastMessage && (
+                <Text style={[
+                  styles.messagePreview,
+                  isDarkMode && {
+                    color: isActive ? "#e6e6e6" : darkThemeColors.textSecondary
+                  },
+                  !isDarkMode && isActive && styles.activeConversationText
+                ]} numberOfLines={1}>
+                  {getMessagePreview(lastMessage.content)}
+                </Text>
+              )}
+              <View style={styles.titleRow}>
+                <Text style={[
+                  styles.conversationDate,
+                  isDarkMode && {
+                    color: isActive ? "#cccccc" : darkThemeColors.textTertiary
+                  },
+                  !isDarkMode && isActive && styles.activeConversationText
+                ]}>
+                  {formatDate(conversation.updatedAt)}
+                </Text>
+                {conversationTags.map(tag => (
+                  <View key={tag.id} style={styles.tagBadge}>
+                    <View style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                    <Text style={[
+                      styles.tagBadgeText,
+                      isDarkMode && { color: darkThemeColors.textTertiary },
+                      isActive && styles.activeConversationText
+                    ]} numberOfLines={1}>
+                      {tag.name}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+        </View>
+      
+        {!isEditing && (
+          <Menu
+            visible={menuVisible}
+            onDismiss={closeMenu}
+            contentStyle={[
+              styles.menuContent,
+              isDarkMode && {
+                backgroundColor: darkThemeColors.surfaceElevated,
+              }
+            ]}
+            style={styles.menu}
+            anchor={
               <IconButton
-                icon="check"
+                icon="dots-vertical"
                 size={20}
-                iconColor={darkThemeColors.primary}
-                onPress={handleSave}
-                style={styles.editButton}
+                iconColor={isActive 
+                  ? "#fff" 
+                  : isDarkMode 
+                    ? darkThemeColors.textSecondary 
+                    : "#6b7280"
+                }
+                onPress={openMenu}
+                style={styles.menuButton}
               />
+            }
+          >
+            {renderMenuItems()}
+          </Menu>
+        )}
+      </TouchableOpacity>
+      
+      <Modal
+        visible={isExportVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsExportVisible(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setIsExportVisible(false)}
+        >
+          <TouchableOpacity
+            activeOpacity={1}
+            style={[
+              styles.exportCard,
+              isDarkMode && {
+                backgroundColor: darkThemeColors.surfaceElevated,
+                borderColor: darkThemeColors.border
+              }
+            ]}
+          >
+            <View style={styles.exportHeader}>
+              <Text style={[
+                styles.exportTitle,
+                isDarkMode && { color: darkThemeColors.text }
+              ]} numberOfLines={1}>
+                Export "{conversation.title}"
+              </Text>
               <IconButton
                 icon="close"
                 size={20}
-                iconColor={isDarkMode ? darkThemeColors.textTertiary : "#6b7280"}
-                onPress={handleCancel}
+                iconColor={isDarkMode ? darkThemeColors.textSecondary : '#6b7280'}
+                onPress={() => setIsExportVisible(false)}
                 style={styles.editButton}
               />
             </View>
-          </View>
-        ) : (
-          <>
-            <Text style={[
-              styles.conversationTitle, 
-              isDarkMode && {
-                color: isActive ? "#ffffff" : darkThemeColors.text
-              },
-              !isDarkMode && isActive && styles.activeConversationText
-            ]} numberOfLines={1}>
-              {conversation.title}
-            </Text>
-            {lastMessage && (
-              <Text style={[
-                styles.messagePreview,
-                isDarkMode && {
-                  color: isActive ? "#e6e6e6" : darkThemeColors.textSecondary
-                },
-                !isDarkMode && isActive && styles.activeConversationText
-              ]} numberOfLines={1}>
-                {getMessagePreview(lastMessage.content)}
-              </Text>
-            )}
-            <Text style={[
-              styles.conversationDate,
-              isDarkMode && {
-                color: isActive ? "#cccccc" : darkThemeColors.textTertiary
-              },
-              !isDarkMode && isActive && styles.activeConversationText
-            ]}>
-              {formatDate(conversation.updatedAt)}
-            </Text>
-          </>
-        )}
+            <ExportPanel
+              conversationIds={[conversation.id]}
+              onExported={() => setIsExportVisible(false)}
+            />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+};
+
+interface SearchResultItemProps {
+  result: MessageSearchResult;
+  conversationTitle: string;
+  onPress: () => void;
+  isDarkMode?: boolean;
+  darkThemeColors?: any;
+}
+
+// One message found by search: its conversation, who wrote it and when, and the
+// snippet with the matching words highlighted
+const SearchResultItem: React.FC<SearchResultItemProps> = ({
+  result,
+  conversationTitle,
+  onPress,
+  isDarkMode = false,
+  darkThemeColors = darkThemeDefaults,
+}) => {
+  // Split the snippet into plain and highlighted runs
+  const runs: { text: string; isMatch: boolean }[] = [];
+  let position = 0;
+  result.highlights.forEach(({ start, end }) => {
+    if (start > position) runs.push({ text: result.snippet.slice(position, start), isMatch: false });
+    runs.push({ text: result.snippet.slice(start, end), isMatch: true });
+    position = end;
+  });
+  if (position < result.snippet.length) runs.push({ text: result.snippet.slice(position), isMatch: false });
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.conversationItem,
+        isDarkMode && { backgroundColor: darkThemeColors.cardBackground },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <View style={styles.conversationInfo}>
+        <Text style={[styles.conversationTitle, isDarkMode && { color: darkThemeColors.text }]} numberOfLines={1}>
+          {conversationTitle}
+        </Text>
+        <Text style={[styles.searchSnippet, isDarkMode && { color: darkThemeColors.textSecondary }]} numberOfLines={3}>
+          {runs.map((run, index) => run.isMatch ? (
+            <Text key={index} style={[styles.searchMatch, isDarkMode && { color: darkThemeColors.text }]}>{run.text}</Text>
+          ) : run.text)}
+        </Text>
+        <Text style={[styles.conversationDate, isDarkMode && { color: darkThemeColors.textTertiary }]}>
+          {result.role === 'user' ? 'You' : 'AI'} · {formatDate(new Date(result.timestamp).getTime())}
+        </Text>
       </View>
+    </TouchableOpacity>
+  );
+};
+
+interface SectionHeaderProps {
+  section: ConversationSection;
+  // Number of conversations in the section, shown while a folder is collapsed
+  count: number;
+  isFolderCollapsed: boolean;
+  onToggleFolder: () => void;
+  isDarkMode?: boolean;
+  darkThemeColors?: any;
+}
+
+// Header above pinned conversations, a folder, or everything else. On web,
+// dropping a dragged conversation on it pins it or files it there.
+const SectionHeader: React.FC<SectionHeaderProps> = ({
+  section,
+  count,
+  isFolderCollapsed,
+  onToggleFolder,
+  isDarkMode = false,
+  darkThemeColors = darkThemeDefaults,
+}) => {
+  const { organizeConversation, renameFolder, deleteFolder } = useChat();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(section.title);
+  const [menuVisible, setMenuVisible] = useState(false);
+  const headerRef = useRef<View>(null);
+  const folderId = section.folderId;
+  
+  const isDropTarget = useConversationDrop(headerRef, (conversationId) => {
+    if (section.key === 'pinned') {
+      organizeConversation(conversationId, { isPinned: true });
+    } else {
+      organizeConversation(conversationId, { folderId, isPinned: false });
+    }
+  });
+  
+  const handleRename = () => {
+    if (folderId) renameFolder(folderId, name);
+    setIsRenaming(false);
+  };
+  
+  const handleDelete = () => {
+    setMenuVisible(false);
+    if (!folderId) return;
+    const confirmMessage = `Delete the folder "${section.title}"? Its conversations are kept and moved out of it.`;
+    
+    if (Platform.OS === 'web') {
+      if (window.confirm(confirmMessage)) {
+        deleteFolder(folderId);
+      }
+      return;
+    }
+    
+    Alert.alert('Delete folder', confirmMessage, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteFolder(folderId) },
+    ]);
+  };
+  
+  const textColor = isDarkMode ? darkThemeColors.textSecondary : '#6b7280';
+  
+  return (
+    <View
+      ref={headerRef}
+      style={[
+        styles.sectionHeader,
+        isDropTarget && styles.dropTarget,
+      ]}
+    >
+      {isRenaming ? (
+        <TextInput
+          style={[
+            styles.folderNameInput,
+            isDarkMode && {
+              backgroundColor: darkThemeColors.inputBackground,
+              color: darkThemeColors.text
+            }
+          ]}
+          value={name}
+          onChangeText={setName}
+          onSubmitEditing={handleRename}
+          onBlur={handleRename}
+          autoFocus
+          selectTextOnFocus
+          maxLength={40}
+        />
+      ) : (
+        <TouchableOpacity
+          style={styles.sectionTitleButton}
+          onPress={folderId ? onToggleFolder : undefined}
+          disabled={!folderId}
+        >
+          {folderId && (
+            <Icon name={isFolderCollapsed ? 'chevron-right' : 'expand-more'} size={18} color={textColor} />
+          )}
+          <Icon
+            name={section.key === 'pinned' ? 'push-pin' : folderId ? 'folder' : 'chat-bubble-outline'}
+            size={14}
+            color={textColor}
+            style={styles.sectionIcon}
+          />
+          <Text style={[styles.sectionTitle, { color: textColor }]} numberOfLines={1}>
+            {section.title}
+          </Text>
+          {folderId && <Text style={[styles.sectionCount, { color: textColor }]}>{count}</Text>}
+        </TouchableOpacity>
+      )}
       
-      {!isEditing && (
+      {folderId && !isRenaming && (
         <Menu
           visible={menuVisible}
-          onDismiss={closeMenu}
+          onDismiss={() => setMenuVisible(false)}
           contentStyle={[
             styles.menuContent,
             isDarkMode && {
               backgroundColor: darkThemeColors.surfaceElevated,
             }
           ]}
-          style={styles.menu}
           anchor={
             <IconButton
-              icon="dots-vertical"
-              size={20}
-              iconColor={isActive 
-                ? "#fff" 
-                : isDarkMode 
-                  ? darkThemeColors.textSecondary 
-                  : "#6b7280"
-              }
-              onPress={openMenu}
+              icon="dots-horizontal"
+              size={16}
+              iconColor={textColor}
+              onPress={() => setMenuVisible(true)}
               style={styles.menuButton}
             />
           }
         >
           <Menu.Item
             leadingIcon="pencil"
-            onPress={handleEdit}
-            title="Edit title"
-            titleStyle={[
-              styles.menuItemTitle,
-              isDarkMode && {
-                color: darkThemeColors.text
-              }
-            ]}
+            onPress={() => {
+              setMenuVisible(false);
+              setName(section.title);
+              setIsRenaming(true);
+            }}
+            title="Rename"
+            titleStyle={[styles.menuItemTitle, isDarkMode && { color: darkThemeColors.text }]}
           />
           <Menu.Item
             leadingIcon="delete"
             onPress={handleDelete}
-            title="Delete"
+            title="Delete folder"
             titleStyle={styles.deleteMenuItemTitle}
           />
         </Menu>
       )}
-    </TouchableOpacity>
+    </View>
   );
 };
 
 interface ConversationListProps {
   isCollapsed?: boolean;
+  // Called when a search result is picked, to show the message it found
+  onOpenSearchResult?: (result: MessageSearchResult) => void;
 }
 
-const ConversationList: React.FC<ConversationListProps> = ({ isCollapsed = false }) => {
+const ConversationList: React.FC<ConversationListProps> = ({ isCollapsed = false, onOpenSearchResult }) => {
   const { 
     conversations, 
     currentConversationId, 
     switchConversation, 
     createNewConversation,
     deleteConversation,
-    clearConversations 
+    clearConversations,
+    searchMessages,
+    folders,
+    addFolder,
+    tags,
+    addTag,
+    deleteTag,
   } = useChat();
   
   const { isDark, darkTheme } = useTheme();
+  const [searchQuery, setSearchQuery] = useState('');
+  const isSearching = searchQuery.trim() !== '';
+  const [activeTagId, setActiveTagId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(new Set());
+  // Which inline input is open: a new folder's name or a new tag's
+  const [newItemKind, setNewItemKind] = useState<'folder' | 'tag' | null>(null);
+  const [newItemName, setNewItemName] = useState('');
+  
+  const archivedCount = conversations.filter(conv => conv.isArchived).length;
+  const sections = groupConversations(conversations, folders, { tagId: activeTagId, archived: showArchived })
+    // Empty folders stay visible to drop into, unless a tag filter hides what's in them
+    .filter(section => section.data.length > 0 || (section.folderId && !activeTagId));
+  // A lone section of unfiled conversations needs no header of its own
+  const showSectionHeaders = showArchived || sections.some(section => section.key !== 'recent');
+  
+  const toggleFolder = (folderId: string) => {
+    setCollapsedFolderIds(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+  
+  const startAdding = (kind: 'folder' | 'tag') => {
+    setNewItemKind(kind);
+    setNewItemName('');
+  };
+  
+  const finishAdding = () => {
+    if (newItemKind === 'folder') {
+      addFolder(newItemName);
+    } else if (newItemKind === 'tag') {
+      addTag(newItemName);
+    }
+    setNewItemKind(null);
+    setNewItemName('');
+  };
+  
+  const handleDeleteTag = (tagId: string, name: string) => {
+    const removeTag = () => {
+      if (activeTagId === tagId) setActiveTagId(null);
+      deleteTag(tagId);
+    };
+    const confirmMessage = `Delete the tag "${name}"? It's removed from every conversation.`;
+    
+    if (Platform.OS === 'web') {
+      if (window.confirm(confirmMessage)) {
+        removeTag();
+      }
+      return;
+    }
+    
+    Alert.alert('Delete tag', confirmMessage, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: removeTag },
+    ]);
+  };
+  
+  // Re-run the search as conversations change, so results stay current
+  const searchResults = useMemo(
+    () => isSearching ? searchMessages(searchQuery) : [],
+    [searchQuery, conversations]
+  );
+  
+  const openSearchResult = (result: MessageSearchResult) => {
+    if (onOpenSearchResult) {
+      onOpenSearchResult(result);
+    } else {
+      switchConversation(result.conversationId);
+    }
+  };
 
   // Simple clear all handler
   const handleClearAll = () => {
@@ -292,7 +844,7 @@ const ConversationList: React.FC<ConversationListProps> = ({ isCollapsed = false
         <Button 
           mode="contained" 
           icon="plus" 
-          onPress={createNewConversation}
+          onPress={() => createNewConversation()}
           style={[
             styles.newChatButton,
             isDark && {
@@ -305,35 +857,165 @@ const ConversationList: React.FC<ConversationListProps> = ({ isCollapsed = false
         </Button>
       )}
       
-      {!isCollapsed && (
+      {!isCollapsed && conversations.length > 0 && (
+        <View style={[
+          styles.searchBox,
+          isDark && {
+            backgroundColor: darkTheme.inputBackground,
+            borderColor: darkTheme.border,
+          }
+        ]}>
+          <Icon name="search" size={18} color={isDark ? darkTheme.textTertiary : '#9ca3af'} />
+          <TextInput
+            style={[styles.searchInput, isDark && { color: darkTheme.text }]}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Search messages"
+            placeholderTextColor={isDark ? darkTheme.textTertiary : '#9ca3af'}
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {isSearching && (
+            <TouchableOpacity onPress={() => setSearchQuery('')} accessibilityLabel="Clear search">
+              <Icon name="close" size={18} color={isDark ? darkTheme.textTertiary : '#9ca3af'} />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      
+      {!isCollapsed && isSearching && (
+        <View style={styles.conversationsContainer}>
+          <View style={styles.listHeader}>
+            <Text style={[styles.listTitle, isDark && { color: darkTheme.text }]}>
+              {searchResults.length === 0
+                ? 'No matching messages'
+                : `${searchResults.length}${searchResults.length === MAX_SEARCH_RESULTS ? '+' : ''} ${searchResults.length === 1 ? 'message' : 'messages'}`}
+            </Text>
+          </View>
+          <FlatList
+            data={searchResults}
+            keyExtractor={(item) => item.messageId}
+            renderItem={({ item }) => (
+              <SearchResultItem
+                result={item}
+                conversationTitle={conversations.find(conv => conv.id === item.conversationId)?.title || ''}
+                onPress={() => openSearchResult(item)}
+                isDarkMode={isDark}
+                darkThemeColors={darkTheme}
+              />
+            )}
+            keyboardShouldPersistTaps="handled"
+            style={styles.list}
+          />
+        </View>
+      )}
+      
+      {!isCollapsed && !isSearching && (
         <View style={styles.conversationsContainer}>
           {conversations.length > 0 ? (
             <>
               <View style={styles.listHeader}>
-                <Text style={[
-                  styles.listTitle,
-                  isDark && {
-                    color: darkTheme.text
-                  }
-                ]}>
-                  Recent conversations
-                </Text>
-                {conversations.length > 1 && (
-                  <TouchableOpacity onPress={handleClearAll}>
+                {showArchived ? (
+                  <TouchableOpacity style={styles.sectionTitleButton} onPress={() => setShowArchived(false)}>
+                    <Icon name="arrow-back" size={18} color={isDark ? darkTheme.text : '#374151'} />
                     <Text style={[
-                      styles.clearAllText,
+                      styles.listTitle,
+                      styles.archiveTitle,
                       isDark && {
-                        color: darkTheme.textSecondary
+                        color: darkTheme.text
                       }
                     ]}>
-                      Clear all
+                      Archive
                     </Text>
                   </TouchableOpacity>
+                ) : (
+                  <Text style={[
+                    styles.listTitle,
+                    isDark && {
+                      color: darkTheme.text
+                    }
+                  ]}>
+                    Conversations
+                  </Text>
                 )}
+                <View style={styles.listActions}>
+                  {!showArchived && (
+                    <TouchableOpacity onPress={() => startAdding('folder')} accessibilityLabel="New folder">
+                      <Icon name="create-new-folder" size={20} color={isDark ? darkTheme.textSecondary : '#6b7280'} />
+                    </TouchableOpacity>
+                  )}
+                  {conversations.length > 1 && (
+                    <TouchableOpacity onPress={handleClearAll} style={styles.clearAllButton}>
+                      <Text style={[
+                        styles.clearAllText,
+                        isDark && {
+                          color: darkTheme.textSecondary
+                        }
+                      ]}>
+                        Clear all
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
               </View>
               
-              <FlatList
-                data={conversations}
+              {/* Tag filter; long-press a tag to delete it */}
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tagRow} contentContainerStyle={styles.tagRowContent}>
+                {tags.map(tag => {
+                  const isActiveTag = tag.id === activeTagId;
+                  return (
+                    <TouchableOpacity
+                      key={tag.id}
+                      style={[
+                        styles.tagChip,
+                        isDark && { borderColor: darkTheme.border },
+                        isActiveTag && { borderColor: tag.color, backgroundColor: `${tag.color}20` },
+                      ]}
+                      onPress={() => setActiveTagId(isActiveTag ? null : tag.id)}
+                      onLongPress={() => handleDeleteTag(tag.id, tag.name)}
+                    >
+                      <View style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                      <Text style={[styles.tagChipText, isDark && { color: darkTheme.textSecondary }]}>{tag.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                <TouchableOpacity
+                  style={[styles.tagChip, isDark && { borderColor: darkTheme.border }]}
+                  onPress={() => startAdding('tag')}
+                  accessibilityLabel="New tag"
+                >
+                  <Icon name="add" size={14} color={isDark ? darkTheme.textSecondary : '#6b7280'} />
+                  <Text style={[styles.tagChipText, isDark && { color: darkTheme.textSecondary }]}>Tag</Text>
+                </TouchableOpacity>
+              </ScrollView>
+              
+              {newItemKind && (
+                <TextInput
+                  style={[
+                    styles.newItemInput,
+                    isDark && {
+                      backgroundColor: darkTheme.inputBackground,
+                      borderColor: darkTheme.border,
+                      color: darkTheme.text
+                    }
+                  ]}
+                  value={newItemName}
+                  onChangeText={setNewItemName}
+                  onSubmitEditing={finishAdding}
+                  onBlur={finishAdding}
+                  placeholder={newItemKind === 'folder' ? 'Folder name' : 'Tag name'}
+                  placeholderTextColor={isDark ? darkTheme.textTertiary : '#9ca3af'}
+                  maxLength={40}
+                  autoFocus
+                />
+              )}
+              
+              <SectionList
+                sections={sections.map(section => ({
+                  ...section,
+                  data: section.folderId && collapsedFolderIds.has(section.folderId) ? [] : section.data,
+                  count: section.data.length,
+                }))}
                 keyExtractor={(item) => item.id}
                 renderItem={({ item }) => (
                   <ConversationItem
@@ -344,9 +1026,33 @@ const ConversationList: React.FC<ConversationListProps> = ({ isCollapsed = false
                     darkThemeColors={darkTheme}
                   />
                 )}
+                renderSectionHeader={({ section }) => showSectionHeaders ? (
+                  <SectionHeader
+                    section={section}
+                    count={section.count}
+                    isFolderCollapsed={!!section.folderId && collapsedFolderIds.has(section.folderId)}
+                    onToggleFolder={() => section.folderId && toggleFolder(section.folderId)}
+                    isDarkMode={isDark}
+                    darkThemeColors={darkTheme}
+                  />
+                ) : null}
                 ItemSeparatorComponent={() => (
                   <Divider style={isDark ? { backgroundColor: darkTheme.border } : {}} />
                 )}
+                ListEmptyComponent={
+                  <Text style={[styles.emptyListText, isDark && { color: darkTheme.textSecondary }]}>
+                    {showArchived ? 'No archived conversations' : 'No conversations with this tag'}
+                  </Text>
+                }
+                ListFooterComponent={!showArchived && archivedCount > 0 ? (
+                  <TouchableOpacity style={styles.archiveLink} onPress={() => setShowArchived(true)}>
+                    <Icon name="archive" size={16} color={isDark ? darkTheme.textSecondary : '#6b7280'} />
+                    <Text style={[styles.archiveLinkText, isDark && { color: darkTheme.textSecondary }]}>
+                      Archive ({archivedCount})
+                    </Text>
+                  </TouchableOpacity>
+                ) : null}
+                stickySectionHeadersEnabled={false}
                 style={styles.list}
               />
             </>
@@ -497,6 +1203,39 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#9ca3af',
   },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#d1e9f5',
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    paddingVertical: 8,
+    marginHorizontal: 8,
+    color: '#111827',
+    ...(Platform.OS === 'web' ? {
+      // @ts-ignore - web-only properties
+      outlineWidth: 0,
+    } : {}),
+  },
+  searchSnippet: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#4b5563',
+    marginBottom: 4,
+  },
+  searchMatch: {
+    fontWeight: '700',
+    color: '#111827',
+    backgroundColor: '#54C6EB40',
+  },
   activeConversationText: {
     color: '#fff',
   },
@@ -544,10 +1283,160 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#6b7280',
   },
+  clearAllButton: {
+    marginLeft: 12,
+  },
+  listActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  archiveTitle: {
+    marginLeft: 6,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  pinIcon: {
+    marginRight: 4,
+    marginBottom: 4,
+  },
+  tagBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+    maxWidth: 90,
+  },
+  tagDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+  tagBadgeText: {
+    fontSize: 11,
+    color: '#6b7280',
+  },
+  tagRow: {
+    flexGrow: 0,
+    marginBottom: 4,
+  },
+  tagRowContent: {
+    paddingHorizontal: 16,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    marginRight: 6,
+  },
+  tagChipText: {
+    fontSize: 12,
+    color: '#4b5563',
+  },
+  newItemInput: {
+    marginHorizontal: 16,
+    marginVertical: 6,
+    borderWidth: 1,
+    borderColor: '#54C6EB',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 14,
+    backgroundColor: '#f8fbff',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    marginTop: 8,
+    borderRadius: 8,
+    minHeight: 32,
+  },
+  dropTarget: {
+    backgroundColor: '#54C6EB30',
+  },
+  sectionTitleButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sectionIcon: {
+    marginHorizontal: 4,
+  },
+  sectionTitle: {
+    flexShrink: 1,
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  sectionCount: {
+    fontSize: 12,
+    marginLeft: 6,
+  },
+  folderNameInput: {
+    flex: 1,
+    fontSize: 14,
+    padding: 6,
+    borderRadius: 6,
+    backgroundColor: '#f8fbff',
+  },
+  emptyListText: {
+    fontSize: 13,
+    color: '#6b7280',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  archiveLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  archiveLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginLeft: 6,
+  },
   menuContainer: {
     position: 'relative',
     zIndex: 1000,
   },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    padding: 16,
+  },
+  exportCard: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    padding: 16,
+  },
+  exportHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  exportTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
   menuContent: {
     backgroundColor: '#fff',
     borderRadius: 12,
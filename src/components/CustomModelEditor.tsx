@@ -0,0 +1,345 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, Alert, Platform } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useChat } from '../context/ChatContext';
+import { useTheme } from '../context/ThemeContext';
+import { LLMOption } from '../types';
+import { getProvider } from '../utils/providers';
+import { openaiCompatibleProvider } from '../utils/providers/openaiCompatible';
+
+interface CustomModelFormState {
+  name: string;
+  baseUrl: string;
+  modelId: string;
+  authHeaderName: string;
+  authHeaderValue: string;
+  description: string;
+}
+
+const EMPTY_FORM: CustomModelFormState = {
+  name: '',
+  baseUrl: '',
+  modelId: '',
+  authHeaderName: 'Authorization',
+  authHeaderValue: '',
+  description: '',
+};
+
+// Convert a stored option into editable form fields
+const toFormState = (option: LLMOption): CustomModelFormState => ({
+  name: option.name,
+  baseUrl: option.baseUrl || '',
+  modelId: option.modelId || '',
+  authHeaderName: option.authHeader?.name || 'Authorization',
+  authHeaderValue: option.authHeader?.value || '',
+  description: option.description || '',
+});
+
+/**
+ * Lets users add, edit and remove custom models served from an
+ * OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM, internal gateways)
+ */
+const CustomModelEditor = () => {
+  const { llmOptions, addLLMOption, editLLMOption, deleteLLMOption } = useChat();
+  const { isDark } = useTheme();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState<CustomModelFormState>(EMPTY_FORM);
+
+  const customOptions = llmOptions.filter(
+    option => getProvider(option.providerId)?.capabilities.customEndpoint
+  );
+
+  const updateField = (field: keyof CustomModelFormState, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const startAdding = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setIsAdding(true);
+  };
+
+  const startEditing = (option: LLMOption) => {
+    setIsAdding(false);
+    setForm(toFormState(option));
+    setEditingId(option.id);
+  };
+
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    const baseUrl = form.baseUrl.trim();
+
+    if (!name || !baseUrl) {
+      Alert.alert('Missing details', 'A custom model needs a name and a base URL.');
+      return;
+    }
+
+    if (llmOptions.some(option => option.name === name && option.id !== editingId)) {
+      Alert.alert('Duplicate name', `A model named "${name}" already exists.`);
+      return;
+    }
+
+    const authHeaderName = form.authHeaderName.trim();
+    const authHeaderValue = form.authHeaderValue.trim();
+
+    const details = {
+      name,
+      provider: 'Other' as const,
+      providerId: openaiCompatibleProvider.id,
+      baseUrl,
+      modelId: form.modelId.trim() || name,
+      authHeader: authHeaderName && authHeaderValue
+        ? { name: authHeaderName, value: authHeaderValue }
+        : undefined,
+      description: form.description.trim() || undefined,
+      apiKeyRequired: false,
+    };
+
+    if (editingId) {
+      editLLMOption(editingId, details);
+    } else {
+      addLLMOption(details);
+    }
+
+    closeForm();
+  };
+
+  const handleDelete = (option: LLMOption) => {
+    const confirmMessage = `Remove the custom model "${option.name}"?`;
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(confirmMessage)) {
+        deleteLLMOption(option.id);
+      }
+      return;
+    }
+
+    Alert.alert('Remove model', confirmMessage, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => deleteLLMOption(option.id) },
+    ]);
+  };
+
+  const inputStyle = [
+    styles.input,
+    isDark && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d', color: '#f3f4f6' },
+  ];
+  const labelStyle = [styles.label, isDark && { color: '#e5e7eb' }];
+  const placeholderColor = isDark ? '#9ca3af' : '#a0aec0';
+
+  const renderForm = () => (
+    <View style={[styles.form, isDark && { borderColor: '#383838' }]}>
+      <Text style={labelStyle}>Display name</Text>
+      <TextInput
+        style={inputStyle}
+        value={form.name}
+        onChangeText={(text) => updateField('name', text)}
+        placeholder="Local Llama 3"
+        placeholderTextColor={placeholderColor}
+      />
+
+      <Text style={labelStyle}>Base URL</Text>
+      <TextInput
+        style={inputStyle}
+        value={form.baseUrl}
+        onChangeText={(text) => updateField('baseUrl', text)}
+        placeholder="http://localhost:11434/v1"
+        placeholderTextColor={placeholderColor}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      <Text style={labelStyle}>Model ID</Text>
+      <TextInput
+        style={inputStyle}
+        value={form.modelId}
+        onChangeText={(text) => updateField('modelId', text)}
+        placeholder="llama3 (defaults to the display name)"
+        placeholderTextColor={placeholderColor}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      <Text style={labelStyle}>Auth header (optional)</Text>
+      <View style={styles.headerRow}>
+        <TextInput
+          style={[inputStyle, styles.headerNameInput]}
+          value={form.authHeaderName}
+          onChangeText={(text) => updateField('authHeaderName', text)}
+          placeholder="Authorization"
+          placeholderTextColor={placeholderColor}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TextInput
+          style={[inputStyle, styles.headerValueInput]}
+          value={form.authHeaderValue}
+          onChangeText={(text) => updateField('authHeaderValue', text)}
+          placeholder="Bearer sk-..."
+          placeholderTextColor={placeholderColor}
+          autoCapitalize="none"
+          autoCorrect={false}
+          secureTextEntry={true}
+        />
+      </View>
+
+      <Text style={labelStyle}>Description</Text>
+      <TextInput
+        style={inputStyle}
+        value={form.description}
+        onChangeText={(text) => updateField('description', text)}
+        placeholder="Optional"
+        placeholderTextColor={placeholderColor}
+      />
+
+      <View style={styles.formActions}>
+        <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={closeForm}>
+          <Text style={[styles.secondaryButtonText, isDark && { color: '#e5e7eb' }]}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={handleSave}>
+          <Text style={styles.primaryButtonText}>{editingId ? 'Save' : 'Add model'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View>
+      <Text style={[styles.hint, isDark && { color: '#9ca3af' }]}>
+        Connect to any server that speaks the OpenAI chat completions API.
+      </Text>
+
+      {customOptions.map(option => (
+        <View key={option.id}>
+          <View style={[styles.modelRow, isDark && { backgroundColor: '#333' }]}>
+            <View style={styles.modelInfo}>
+              <Text style={[styles.modelName, isDark && { color: '#f3f4f6' }]}>{option.name}</Text>
+              <Text style={[styles.modelUrl, isDark && { color: '#9ca3af' }]} numberOfLines={1}>
+                {option.baseUrl || 'No base URL set'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => startEditing(option)} style={styles.iconButton}>
+              <MaterialCommunityIcons name="pencil" size={20} color={isDark ? '#9ca3af' : '#666'} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleDelete(option)} style={styles.iconButton}>
+              <MaterialCommunityIcons name="delete" size={20} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+          {editingId === option.id && renderForm()}
+        </View>
+      ))}
+
+      {isAdding ? renderForm() : (
+        <TouchableOpacity style={[styles.button, styles.primaryButton, styles.addButton]} onPress={startAdding}>
+          <Text style={styles.primaryButtonText}>Add Custom Model</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+  },
+  modelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  modelInfo: {
+    flex: 1,
+  },
+  modelName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  modelUrl: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  form: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 12,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 6,
+    marginTop: 8,
+    color: '#555',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  headerRow: {
+    flexDirection: 'row',
+  },
+  headerNameInput: {
+    flex: 2,
+    marginRight: 8,
+  },
+  headerValueInput: {
+    flex: 3,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#54C6EB',
+    marginLeft: 8,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  secondaryButton: {
+    backgroundColor: 'transparent',
+  },
+  secondaryButtonText: {
+    color: '#555',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  addButton: {
+    marginLeft: 0,
+    marginTop: 4,
+  },
+});
+
+export default CustomModelEditor;
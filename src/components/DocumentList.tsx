@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, Platform } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { KnowledgeDocument } from '../types';
+import { useChat } from '../context/ChatContext';
+import { pickDocumentFiles, readDocument } from '../utils/documents';
+
+interface DocumentListProps {
+  // What the documents belong to: one conversation or one persona
+  target: { conversationId?: string; personaId?: string };
+  isDarkMode?: boolean;
+}
+
+const KIND_ICONS: Record<KnowledgeDocument['kind'], keyof typeof MaterialIcons.glyphMap> = {
+  text: 'description',
+  markdown: 'article',
+  pdf: 'picture-as-pdf',
+};
+
+/**
+ * The knowledge documents of a conversation or persona, with buttons to add
+ * more and remove them. Passages from them are retrieved into every prompt.
+ */
+const DocumentList: React.FC<DocumentListProps> = ({ target, isDarkMode = false }) => {
+  const { documents, addDocument, removeDocument } = useChat();
+  const [isIndexing, setIsIndexing] = useState(false);
+
+  const attached = documents.filter(document =>
+    target.conversationId
+      ? document.conversationId === target.conversationId
+      : document.personaId === target.personaId
+  );
+
+  const handleAdd = async () => {
+    const errors: string[] = [];
+    try {
+      const files = await pickDocumentFiles();
+      if (files.length === 0) return;
+
+      setIsIndexing(true);
+      for (const file of files) {
+        try {
+          await addDocument(await readDocument(file), target);
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Couldn\'t open the document picker.');
+    } finally {
+      setIsIndexing(false);
+    }
+
+    if (errors.length > 0) {
+      // Alert does nothing on web
+      if (Platform.OS === 'web') {
+        window.alert(`Some documents weren't added\n\n${errors.join('\n')}`);
+      } else {
+        Alert.alert('Some documents weren\'t added', errors.join('\n'));
+      }
+    }
+  };
+
+  const secondaryColor = isDarkMode ? '#9ca3af' : '#6b7280';
+
+  return (
+    <View>
+      {attached.map(document => (
+        <View key={document.id} style={[styles.documentRow, isDarkMode && { backgroundColor: '#333' }]}>
+          <MaterialIcons name={KIND_ICONS[document.kind]} size={18} color={secondaryColor} />
+          <View style={styles.documentInfo}>
+            <Text style={[styles.documentName, isDarkMode && { color: '#f3f4f6' }]} numberOfLines={1}>
+              {document.name}
+            </Text>
+            <Text style={[styles.documentMeta, { color: secondaryColor }]}>
+              {document.chunks.length} {document.chunks.length === 1 ? 'passage' : 'passages'}
+              {document.embeddingModel ? ' · searched by meaning and keyword' : ' · searched by keyword'}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => removeDocument(document.id)} accessibilityLabel={`Remove ${document.name}`}>
+            <MaterialIcons name="close" size={18} color={secondaryColor} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={handleAdd} disabled={isIndexing}>
+        {isIndexing ? (
+          <ActivityIndicator size="small" color="#54C6EB" />
+        ) : (
+          <MaterialIcons name="note-add" size={18} color="#54C6EB" />
+        )}
+        <Text style={styles.addButtonText}>{isIndexing ? 'Indexing...' : 'Add documents'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    marginBottom: 6,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  documentInfo: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  documentName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  documentMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#54C6EB',
+    backgroundColor: '#54C6EB20',
+  },
+  addButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#54C6EB',
+    marginLeft: 6,
+  },
+});
+
+export default DocumentList;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, Switch, Alert, Platform, ActivityIndicator } from 'react-native';
+import { useChat } from '../context/ChatContext';
+import { useTheme } from '../context/ThemeContext';
+import { ExportFormat, ExportOptions } from '../types';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, ExportSource, exportConversations } from '../utils/export';
+
+interface ExportPanelProps {
+  // The conversations to export; unset exports all of them, archived ones included
+  conversationIds?: string[];
+  // Called once the file has been handed over
+  onExported?: () => void;
+}
+
+// PDFs are printed through the browser, so they're offered on web only
+const FORMATS = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+  .filter(format => format !== 'pdf' || Platform.OS === 'web');
+
+/**
+ * Choose a format and what to include, then export conversations to a file.
+ * Each format remembers its own options while the panel is open.
+ */
+const ExportPanel: React.FC<ExportPanelProps> = ({ conversationIds, onExported }) => {
+  const { conversations, getGenerationSettings, getConversationPersona, folders, tags } = useChat();
+  const { isDark } = useTheme();
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [optionsByFormat, setOptionsByFormat] = useState(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const options = optionsByFormat[format];
+  const selected = conversationIds
+    ? conversations.filter(conv => conversationIds.includes(conv.id))
+    : conversations;
+
+  const updateOption = (key: keyof ExportOptions, value: boolean) => {
+    setOptionsByFormat(prev => ({ ...prev, [format]: { ...prev[format], [key]: value } }));
+  };
+
+  const handleExport = async () => {
+    const sources: ExportSource[] = selected.map(conversation => ({
+      conversation,
+      settings: getGenerationSettings(conversation),
+      personaName: getConversationPersona(conversation)?.name,
+      folder: folders.find(folder => folder.id === conversation.folderId),
+      tags: tags.filter(tag => conversation.tagIds?.includes(tag.id)),
+    }));
+
+    setIsExporting(true);
+    try {
+      await exportConversations(sources, format, options);
+      onExported?.();
+    } catch (error) {
+      Alert.alert('Export failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const labelStyle = [styles.label, isDark && { color: '#e5e7eb' }];
+
+  const renderToggle = (key: keyof ExportOptions, label: string) => (
+    <View style={styles.toggleContainer}>
+      <Text style={labelStyle}>{label}</Text>
+      <Switch
+        value={options[key]}
+        onValueChange={value => updateOption(key, value)}
+        trackColor={{ false: '#767577', true: '#4caf50' }}
+        thumbColor={options[key] ? '#ffffff' : '#f4f3f4'}
+      />
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {FORMATS.map(option => {
+          const isActive = option === format;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.chip,
+                isDark && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d' },
+                isActive && styles.activeChip,
+              ]}
+              onPress={() => setFormat(option)}
+            >
+              <Text style={[styles.chipText, isDark && { color: '#b3b8c3' }, isActive && styles.activeChipText]}>
+                {EXPORT_FORMATS[option].label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={[styles.hint, isDark && { color: '#9ca3af' }]}>
+        {format === 'json'
+          ? 'Every branch, with models and token usage. Can be imported again.'
+          : format === 'pdf'
+            ? 'Opens the print dialog; choose "Save as PDF". Shows the selected branch.'
+            : 'The selected branch of each conversation, with timestamps.'}
+      </Text>
+
+      {renderToggle('includeSystemPrompt', 'Include system prompts')}
+      {renderToggle('includeErrors', 'Include failed replies')}
+
+      <TouchableOpacity
+        style={[styles.exportButton, selected.length === 0 && styles.disabledButton]}
+        onPress={handleExport}
+        disabled={isExporting || selected.length === 0}
+      >
+        {isExporting ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.exportButtonText}>
+            {selected.length === 1
+              ? 'Export conversation'
+              : `Export ${selected.length} conversations`}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  activeChip: {
+    borderColor: '#54C6EB',
+    backgroundColor: '#54C6EB20',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  activeChipText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  toggleContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  exportButton: {
+    backgroundColor: '#54C6EB',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  exportButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
+
+export default ExportPanel;
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import {
+  FixtureMode,
+  FIXTURE_MODES,
+  getFixtureMode,
+  setFixtureMode,
+  countFixtures,
+  clearFixtures,
+} from '../utils/fixtures';
+
+/**
+ * Switches provider and TTS requests between live calls, recording them as
+ * fixtures and replaying those fixtures offline
+ */
+const FixtureSettings: React.FC = () => {
+  const { isDark } = useTheme();
+  const [mode, setMode] = useState<FixtureMode>('off');
+  const [fixtureCount, setFixtureCount] = useState(0);
+
+  const refreshCount = async () => {
+    setFixtureCount(await countFixtures());
+  };
+
+  useEffect(() => {
+    getFixtureMode().then(setMode);
+    refreshCount();
+  }, []);
+
+  const handleModeChange = async (newMode: FixtureMode) => {
+    setMode(newMode);
+    await setFixtureMode(newMode);
+    refreshCount();
+  };
+
+  const handleClear = async () => {
+    await clearFixtures();
+    refreshCount();
+  };
+
+  const selected = FIXTURE_MODES.find(option => option.value === mode);
+  const secondaryColor = isDark ? '#9ca3af' : '#6b7280';
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {FIXTURE_MODES.map(option => {
+          const isActive = option.value === mode;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.chip,
+                isDark && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d' },
+                isActive && styles.activeChip,
+              ]}
+              onPress={() => handleModeChange(option.value)}
+              activeOpacity={0.7}
+            >
+              <Text style={[
+                styles.chipText,
+                isDark && { color: '#b3b8c3' },
+                isActive && styles.activeChipText,
+              ]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={[styles.description, { color: secondaryColor }]}>
+        {selected?.description}
+      </Text>
+      <View style={styles.countRow}>
+        <Text style={[styles.description, { color: secondaryColor }]}>
+          {fixtureCount} recorded {fixtureCount === 1 ? 'response' : 'responses'}
+        </Text>
+        {fixtureCount > 0 && (
+          <TouchableOpacity onPress={handleClear}>
+            <Text style={styles.clearText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  activeChip: {
+    backgroundColor: '#54C6EB20',
+    borderColor: '#54C6EB',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  activeChipText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  clearText: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+});
+
+export default FixtureSettings;
@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, Switch } from 'react-native';
+import { GenerationDefaults, GenerationSettings, LLMOption } from '../types';
+
+interface NumberFieldProps {
+  label: string;
+  hint: string;
+  value?: number;
+  min: number;
+  max: number;
+  // Allow clearing the field to fall back to the provider default
+  optional?: boolean;
+  integer?: boolean;
+  onCommit: (value: number | undefined) => void;
+  isDarkMode: boolean;
+}
+
+// Numeric input that keeps free-form text while typing and commits a clamped value on blur
+const NumberField: React.FC<NumberFieldProps> = ({
+  label,
+  hint,
+  value,
+  min,
+  max,
+  optional = false,
+  integer = false,
+  onCommit,
+  isDarkMode,
+}) => {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setText(value === undefined ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const trimmed = text.trim();
+    if (!trimmed && optional) {
+      onCommit(undefined);
+      return;
+    }
+
+    const parsed = integer ? parseInt(trimmed, 10) : parseFloat(trimmed);
+    if (isNaN(parsed)) {
+      // Put back the last good value
+      setText(value === undefined ? '' : String(value));
+      return;
+    }
+
+    onCommit(Math.min(max, Math.max(min, parsed)));
+  };
+
+  return (
+    <View style={styles.numberField}>
+      <Text style={[styles.label, isDarkMode && { color: '#e5e7eb' }]}>{label}</Text>
+      <TextInput
+        style={[
+          styles.input,
+          isDarkMode && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d', color: '#f3f4f6' },
+        ]}
+        value={text}
+        onChangeText={setText}
+        onBlur={commit}
+        onSubmitEditing={commit}
+        keyboardType="decimal-pad"
+        placeholder={optional ? 'Default' : undefined}
+        placeholderTextColor={isDarkMode ? '#9ca3af' : '#a0aec0'}
+      />
+      <Text style={[styles.hint, isDarkMode && { color: '#9ca3af' }]}>{hint}</Text>
+    </View>
+  );
+};
+
+interface GenerationSettingsFormProps {
+  settings: GenerationDefaults & { model?: string };
+  onChange: (updates: Partial<GenerationSettings>) => void;
+  // When provided, a model picker is shown
+  modelOptions?: LLMOption[];
+  // When provided, a button to drop overrides is shown
+  onReset?: () => void;
+  isDarkMode?: boolean;
+}
+
+/**
+ * Fields for the system prompt and sampling settings, used both for the global
+ * defaults and for a single conversation's overrides
+ */
+const GenerationSettingsForm: React.FC<GenerationSettingsFormProps> = ({
+  settings,
+  onChange,
+  modelOptions,
+  onReset,
+  isDarkMode = false,
+}) => {
+  const [systemPrompt, setSystemPrompt] = useState(settings.systemPrompt);
+
+  useEffect(() => {
+    setSystemPrompt(settings.systemPrompt);
+  }, [settings.systemPrompt]);
+
+  const commitSystemPrompt = () => {
+    if (systemPrompt !== settings.systemPrompt) {
+      onChange({ systemPrompt });
+    }
+  };
+
+  return (
+    <View>
+      {modelOptions && (
+        <>
+          <Text style={[styles.label, isDarkMode && { color: '#e5e7eb' }]}>Model</Text>
+          <View style={styles.modelRow}>
+            {modelOptions.map(option => {
+              const isActive = option.name === settings.model;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[
+                    styles.modelChip,
+                    isDarkMode && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d' },
+                    isActive && styles.activeModelChip,
+                  ]}
+                  onPress={() => onChange({ model: option.name })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[
+                    styles.modelChipText,
+                    isDarkMode && { color: '#b3b8c3' },
+                    isActive && styles.activeModelChipText,
+                  ]}>
+                    {option.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      <Text style={[styles.label, isDarkMode && { color: '#e5e7eb' }]}>System prompt</Text>
+      <TextInput
+        style={[
+          styles.input,
+          styles.systemPromptInput,
+          isDarkMode && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d', color: '#f3f4f6' },
+        ]}
+        value={systemPrompt}
+        onChangeText={setSystemPrompt}
+        onBlur={commitSystemPrompt}
+        multiline
+        placeholder="You are a helpful assistant."
+        placeholderTextColor={isDarkMode ? '#9ca3af' : '#a0aec0'}
+      />
+
+      <View style={styles.numberRow}>
+        <NumberField
+          label="Temperature"
+          hint="0 to 2; higher is more varied"
+          value={settings.temperature}
+          min={0}
+          max={2}
+          onCommit={(value) => value !== undefined && onChange({ temperature: value })}
+          isDarkMode={isDarkMode}
+        />
+        <NumberField
+          label="Max tokens"
+          hint="Longest reply to generate"
+          value={settings.maxTokens}
+          min={1}
+          max={200000}
+          integer
+          onCommit={(value) => value !== undefined && onChange({ maxTokens: value })}
+          isDarkMode={isDarkMode}
+        />
+        <NumberField
+          label="Top-p"
+          hint="0 to 1; blank uses the provider default"
+          value={settings.topP}
+          min={0}
+          max={1}
+          optional
+          onCommit={(value) => onChange({ topP: value })}
+          isDarkMode={isDarkMode}
+        />
+      </View>
+
+      <View style={styles.toggleRow}>
+        <View style={styles.toggleLabel}>
+          <Text style={[styles.label, isDarkMode && { color: '#e5e7eb' }]}>Tools</Text>
+          <Text style={[styles.hint, isDarkMode && { color: '#9ca3af' }]}>
+            Let the model use the calculator, clock, unit converter and conversation search
+          </Text>
+        </View>
+        <Switch
+          value={settings.toolsEnabled}
+          onValueChange={(value) => onChange({ toolsEnabled: value })}
+          trackColor={{ false: '#767577', true: '#4caf50' }}
+          thumbColor={settings.toolsEnabled ? '#ffffff' : '#f4f3f4'}
+        />
+      </View>
+
+      {onReset && (
+        <TouchableOpacity onPress={onReset} style={styles.resetButton}>
+          <Text style={styles.resetText}>Reset to defaults</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 6,
+    marginTop: 8,
+    color: '#555',
+  },
+  hint: {
+    fontSize: 11,
+    color: '#666',
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  systemPromptInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  numberRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -6,
+  },
+  numberField: {
+    flex: 1,
+    minWidth: 120,
+    marginHorizontal: 6,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  toggleLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  modelRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  modelChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  activeModelChip: {
+    backgroundColor: '#54C6EB20',
+    borderColor: '#54C6EB',
+  },
+  modelChipText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  activeModelChipText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  resetButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  resetText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+});
+
+export default GenerationSettingsForm;
@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, Switch, Alert, Platform } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useChat } from '../context/ChatContext';
+import { useTheme } from '../context/ThemeContext';
+import { Memory } from '../types';
+import { MAX_MEMORY_LENGTH } from '../utils/memory';
+
+const SOURCE_LABELS: Record<Memory['source'], string> = {
+  explicit: 'Saved on request',
+  extracted: 'Learned from a conversation',
+};
+
+/**
+ * Lets users review what the assistant remembers about them: turn memory and
+ * automatic learning on or off, and add, edit, disable or remove single memories
+ */
+const MemoryManager: React.FC = () => {
+  const { memories, addMemory, editMemory, deleteMemory, memorySettings, updateMemorySettings } = useChat();
+  const { isDark } = useTheme();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [newMemory, setNewMemory] = useState('');
+
+  const startEditing = (memory: Memory) => {
+    setEditingId(memory.id);
+    setDraft(memory.content);
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setDraft('');
+  };
+
+  const handleSaveEdit = () => {
+    if (editingId && draft.trim()) {
+      editMemory(editingId, { content: draft });
+    }
+    closeEditor();
+  };
+
+  const handleAdd = () => {
+    if (!newMemory.trim()) return;
+    addMemory(newMemory);
+    setNewMemory('');
+  };
+
+  const handleDelete = (memory: Memory) => {
+    const confirmMessage = `Forget "${memory.content}"?`;
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(confirmMessage)) {
+        deleteMemory(memory.id);
+      }
+      return;
+    }
+
+    Alert.alert('Forget memory', confirmMessage, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Forget', style: 'destructive', onPress: () => deleteMemory(memory.id) },
+    ]);
+  };
+
+  const inputStyle = [
+    styles.input,
+    isDark && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d', color: '#f3f4f6' },
+  ];
+  const placeholderColor = isDark ? '#9ca3af' : '#a0aec0';
+
+  const renderToggle = (label: string, value: boolean, onValueChange: (value: boolean) => void, disabled = false) => (
+    <View style={styles.toggleRow}>
+      <Text style={[styles.toggleLabel, isDark && { color: '#e5e7eb' }, disabled && styles.disabledText]}>{label}</Text>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        disabled={disabled}
+        trackColor={{ false: '#767577', true: '#4caf50' }}
+        thumbColor={value ? '#ffffff' : '#f4f3f4'}
+      />
+    </View>
+  );
+
+  const renderMemory = (memory: Memory) => {
+    if (editingId === memory.id) {
+      return (
+        <View key={memory.id} style={[styles.editor, isDark && { borderColor: '#383838' }]}>
+          <TextInput
+            style={[inputStyle, styles.multilineInput]}
+            value={draft}
+            onChangeText={setDraft}
+            maxLength={MAX_MEMORY_LENGTH}
+            multiline
+            autoFocus
+          />
+          <View style={styles.editorActions}>
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={closeEditor}>
+              <Text style={[styles.secondaryButtonText, isDark && { color: '#e5e7eb' }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={handleSaveEdit}>
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <View key={memory.id} style={[styles.memoryRow, isDark && { backgroundColor: '#333' }]}>
+        <View style={styles.memoryInfo}>
+          <Text style={[
+            styles.memoryContent,
+            isDark && { color: '#f3f4f6' },
+            !memory.enabled && styles.disabledText,
+          ]}>
+            {memory.content}
+          </Text>
+          <Text style={[styles.memoryMeta, isDark && { color: '#9ca3af' }]}>
+            {SOURCE_LABELS[memory.source]} · {new Date(memory.createdAt).toLocaleDateString()}
+            {!memory.enabled && ' · Disabled'}
+          </Text>
+        </View>
+        <Switch
+          value={memory.enabled}
+          onValueChange={enabled => editMemory(memory.id, { enabled })}
+          trackColor={{ false: '#767577', true: '#4caf50' }}
+          thumbColor={memory.enabled ? '#ffffff' : '#f4f3f4'}
+        />
+        <TouchableOpacity onPress={() => startEditing(memory)} style={styles.iconButton}>
+          <MaterialCommunityIcons name="pencil" size={20} color={isDark ? '#9ca3af' : '#666'} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => handleDelete(memory)} style={styles.iconButton}>
+          <MaterialCommunityIcons name="delete" size={20} color="#ef4444" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      <Text style={[styles.hint, isDark && { color: '#9ca3af' }]}>
+        Memories are facts and preferences the assistant keeps between conversations. Ask it to remember
+        something, or let it learn from conversations you finish.
+      </Text>
+
+      {renderToggle('Use memories', memorySettings.enabled, enabled => updateMemorySettings({ enabled }))}
+      {renderToggle(
+        'Learn from conversations',
+        memorySettings.autoExtract,
+        autoExtract => updateMemorySettings({ autoExtract }),
+        !memorySettings.enabled
+      )}
+
+      {memories.length === 0 ? (
+        <Text style={[styles.hint, styles.emptyText, isDark && { color: '#9ca3af' }]}>Nothing remembered yet.</Text>
+      ) : (
+        memories.map(renderMemory)
+      )}
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={[inputStyle, styles.addInput]}
+          value={newMemory}
+          onChangeText={setNewMemory}
+          placeholder="Prefers answers in metric units"
+          placeholderTextColor={placeholderColor}
+          maxLength={MAX_MEMORY_LENGTH}
+          onSubmitEditing={handleAdd}
+        />
+        <TouchableOpacity
+          style={[styles.button, styles.primaryButton, !newMemory.trim() && styles.disabledButton]}
+          onPress={handleAdd}
+          disabled={!newMemory.trim()}
+        >
+          <Text style={styles.primaryButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+  },
+  emptyText: {
+    marginTop: 8,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  toggleLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#555',
+  },
+  disabledText: {
+    opacity: 0.5,
+  },
+  memoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  memoryInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  memoryContent: {
+    fontSize: 15,
+    color: '#333',
+  },
+  memoryMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  editor: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 12,
+    marginBottom: 8,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  addInput: {
+    flex: 1,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#54C6EB',
+    marginLeft: 8,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    backgroundColor: 'transparent',
+  },
+  secondaryButtonText: {
+    color: '#555',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
+
+export default MemoryManager;
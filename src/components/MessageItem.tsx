@@ -1,11 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, useWindowDimensions, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, useWindowDimensions, TouchableOpacity, Image, TextInput, Animated } from 'react-native';
 import { Audio } from 'expo-av';
-import { Message } from '../types';
+import { ImageContentPart, Message, ToolCallContentPart, ToolResultContentPart } from '../types';
 import { MaterialIcons } from '@expo/vector-icons';
 import { speakText, stopSpeech } from '../utils/tts';
 import { useChat } from '../context/ChatContext';
 import ProgressiveText from './ProgressiveText';
+import { describeLLMError } from '../utils/llmErrors';
+import { formatMessageUsage } from '../utils/usage';
+import { getImageUri } from '../utils/images';
+import ToolCallBlock from './ToolCallBlock';
+import CitationList from './CitationList';
+import { getSiblings } from '../utils/messageTree';
 
 // Define refined dark mode colors for MessageItem to match Chat screen
 const darkThemeDefaults = {
@@ -24,17 +30,36 @@ interface MessageItemProps {
   isDarkMode?: boolean;
   darkThemeColors?: any;
   isLatestAIMessage?: boolean;
+  // Set when the conversation's context strategy won't send this message verbatim
+  contextStatus?: 'omitted' | 'summarized';
+  // Set while the message is being shown from a search result, to flash it
+  isFocused?: boolean;
 }
 
 const MessageItem: React.FC<MessageItemProps> = ({ 
   message, 
   isDarkMode = false,
   darkThemeColors = darkThemeDefaults,
-  isLatestAIMessage = false
+  isLatestAIMessage = false,
+  contextStatus,
+  isFocused = false,
 }) => {
   const dimensions = useWindowDimensions();
   const isUser = message.role === 'user';
-  const { isTTSEnabled, setCurrentSound, setCurrentAlignmentData } = useChat();
+  const {
+    isTTSEnabled,
+    setCurrentSound,
+    setCurrentAlignmentData,
+    currentConversationId,
+    toggleMessagePin,
+    conversations,
+    getConversationPersona,
+    ttsVoice,
+    isLoading,
+    regenerateMessage,
+    switchBranch,
+    editMessage,
+  } = useChat();
   const [isPlaying, setIsPlaying] = useState(false);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [alignmentData, setAlignmentData] = useState<any>(null);
@@ -43,8 +68,61 @@ const MessageItem: React.FC<MessageItemProps> = ({
   const playbackInitiatedRef = useRef(false);
   const [showContent, setShowContent] = useState(isUser); // Only show user content immediately
   const [isExpanded, setIsExpanded] = useState<boolean>(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(message.content);
   const windowDimensions = useWindowDimensions();
   const isMobile = windowDimensions.width < 768;
+  const flashOpacity = useRef(new Animated.Value(0)).current;
+  
+  // Pulse a highlight over the message a couple of times so it stands out after the jump
+  useEffect(() => {
+    if (!isFocused) return;
+    
+    const pulse = Animated.sequence([
+      Animated.timing(flashOpacity, { toValue: 1, duration: 250, useNativeDriver: false }),
+      Animated.timing(flashOpacity, { toValue: 0.3, duration: 250, useNativeDriver: false }),
+      Animated.timing(flashOpacity, { toValue: 1, duration: 250, useNativeDriver: false }),
+      Animated.timing(flashOpacity, { toValue: 0, duration: 700, useNativeDriver: false }),
+    ]);
+    pulse.start();
+    return () => {
+      pulse.stop();
+      flashOpacity.setValue(0);
+    };
+  }, [isFocused]);
+  
+  // Text streams into the message while it's still loading, so show it as it arrives.
+  // Without TTS there's no playback to wait for before revealing the answer.
+  const isStreaming = !isUser && !!message.isLoading && !!message.content;
+  const shouldShowContent = showContent || isStreaming || !isTTSEnabled;
+  const images = (message.parts || []).filter((part): part is ImageContentPart => part.type === 'image');
+  const toolCalls = (message.parts || []).filter((part): part is ToolCallContentPart => part.type === 'tool_call');
+  const toolResults = (message.parts || []).filter((part): part is ToolResultContentPart => part.type === 'tool_result');
+  
+  // Other versions of this message, e.g. earlier answers before a regenerate
+  const currentConversation = conversations.find(conv => conv.id === currentConversationId);
+  const siblings = currentConversation ? getSiblings(currentConversation.messages, message) : [message];
+  const siblingIndex = siblings.findIndex(sibling => sibling.id === message.id);
+  
+  const startEditing = () => {
+    setEditText(message.content);
+    setIsEditing(true);
+  };
+  
+  // Saving re-runs the conversation from the edited message on a new branch
+  const saveEdit = () => {
+    setIsEditing(false);
+    if (editText.trim() && editText !== message.content) {
+      editMessage(message.id, editText);
+    }
+  };
+  
+  const showSibling = (offset: number) => {
+    const sibling = siblings[siblingIndex + offset];
+    if (sibling && currentConversationId) {
+      switchBranch(currentConversationId, sibling.id);
+    }
+  };
   
   // Clean up on unmount
   useEffect(() => {
@@ -101,8 +179,13 @@ const MessageItem: React.FC<MessageItemProps> = ({
     
     try {
       console.log('[MessageItem] Starting TTS for message:', message.id);
+      // Speak with the conversation's persona voice, or the global voice without one
+      const persona = getConversationPersona(conversations.find(conv => conv.id === currentConversationId));
       const result = await speakText({
         text: message.content,
+        voice: persona?.voice.voiceId || ttsVoice,
+        stability: persona?.voice.stability,
+        similarity_boost: persona?.voice.similarityBoost,
         detailed_metadata: true // Request detailed metadata for lip-sync
       });
       
@@ -161,6 +244,7 @@ const MessageItem: React.FC<MessageItemProps> = ({
       isDarkMode && isUser ? { backgroundColor: darkThemeColors.userBubble } : null,
       isDarkMode && !isUser ? { backgroundColor: darkThemeColors.surfaceElevated } : null
     ]}>
+      <Animated.View pointerEvents="none" style={[styles.focusFlash, { opacity: flashOpacity }]} />
       <View style={styles.messageHeader}>
         <Text style={[
           styles.roleBadge,
@@ -171,6 +255,97 @@ const MessageItem: React.FC<MessageItemProps> = ({
           {isUser ? 'You' : 'AI'}
         </Text>
         
+        {contextStatus && (
+          <Text style={[
+            styles.contextBadge,
+            isDarkMode && { color: darkThemeColors.textTertiary }
+          ]}>
+            {contextStatus === 'summarized' ? 'In summary' : 'Not in context'}
+          </Text>
+        )}
+        
+        {/* Step between the versions of this message, e.g. "< 2/3 >" */}
+        {siblings.length > 1 && (
+          <View style={styles.siblingNavigator}>
+            <TouchableOpacity
+              onPress={() => showSibling(-1)}
+              disabled={siblingIndex === 0 || isLoading}
+              accessibilityLabel="Previous version"
+            >
+              <MaterialIcons
+                name="chevron-left"
+                size={18}
+                color={isDarkMode ? darkThemeColors.textTertiary : '#6b7280'}
+                style={(siblingIndex === 0 || isLoading) && styles.disabledIcon}
+              />
+            </TouchableOpacity>
+            <Text style={[styles.siblingCount, isDarkMode && { color: darkThemeColors.textTertiary }]}>
+              {siblingIndex + 1}/{siblings.length}
+            </Text>
+            <TouchableOpacity
+              onPress={() => showSibling(1)}
+              disabled={siblingIndex === siblings.length - 1 || isLoading}
+              accessibilityLabel="Next version"
+            >
+              <MaterialIcons
+                name="chevron-right"
+                size={18}
+                color={isDarkMode ? darkThemeColors.textTertiary : '#6b7280'}
+                style={(siblingIndex === siblings.length - 1 || isLoading) && styles.disabledIcon}
+              />
+            </TouchableOpacity>
+          </View>
+        )}
+        
+        {isUser && !isEditing && (
+          <TouchableOpacity
+            onPress={startEditing}
+            disabled={isLoading}
+            style={styles.expandButton}
+            accessibilityLabel="Edit message"
+          >
+            <MaterialIcons
+              name="edit"
+              size={16}
+              color={isDarkMode ? darkThemeColors.textTertiary : '#9ca3af'}
+              style={isLoading && styles.disabledIcon}
+            />
+          </TouchableOpacity>
+        )}
+        
+        {/* Answer the same message again; the current answer stays as a sibling */}
+        {!isUser && !message.isLoading && (
+          <TouchableOpacity
+            onPress={() => regenerateMessage(message.id)}
+            disabled={isLoading}
+            style={styles.expandButton}
+            accessibilityLabel="Regenerate"
+          >
+            <MaterialIcons
+              name="refresh"
+              size={16}
+              color={isDarkMode ? darkThemeColors.textTertiary : '#9ca3af'}
+              style={isLoading && styles.disabledIcon}
+            />
+          </TouchableOpacity>
+        )}
+        
+        {/* Pinned messages are kept when the 'Keep pinned' strategy trims history */}
+        {!message.isLoading && !message.isError && currentConversationId && (
+          <TouchableOpacity
+            onPress={() => toggleMessagePin(currentConversationId, message.id)}
+            style={styles.expandButton}
+          >
+            <MaterialIcons
+              name="push-pin"
+              size={16}
+              color={message.isPinned
+                ? (isDarkMode ? darkThemeColors.primary : '#54C6EB')
+                : (isDarkMode ? darkThemeColors.textTertiary : '#9ca3af')}
+            />
+          </TouchableOpacity>
+        )}
+        
         <TouchableOpacity
           onPress={() => setIsExpanded(!isExpanded)}
           style={styles.expandButton}
@@ -185,10 +360,58 @@ const MessageItem: React.FC<MessageItemProps> = ({
       
       {isExpanded && (
         <View style={styles.messageContent}>
-          {showContent ? (
+          {/* Tools the model used on the way to its answer */}
+          {toolCalls.map(call => (
+            <ToolCallBlock
+              key={call.id}
+              call={call}
+              result={toolResults.find(result => result.toolCallId === call.id)}
+              isDarkMode={isDarkMode}
+              darkThemeColors={darkThemeColors}
+            />
+          ))}
+          
+          {shouldShowContent ? (
             <>
-              {/* Show text-to-speech for AI messages that are currently being played */}
-              {!isUser && isPlaying && sound && alignmentData ? (
+              {images.length > 0 && (
+                <View style={styles.imageRow}>
+                  {images.map((image, index) => (
+                    <Image
+                      key={index}
+                      source={{ uri: getImageUri(image) }}
+                      style={styles.attachedImage}
+                      resizeMode="cover"
+                    />
+                  ))}
+                </View>
+              )}
+              
+              {/* The edit box, the text being spoken along with TTS, or the plain text */}
+              {isEditing ? (
+                <View>
+                  <TextInput
+                    style={[
+                      styles.editInput,
+                      isDarkMode && {
+                        backgroundColor: darkThemeColors.surface,
+                        color: darkThemeColors.text,
+                      },
+                    ]}
+                    value={editText}
+                    onChangeText={setEditText}
+                    multiline
+                    autoFocus
+                  />
+                  <View style={styles.editActions}>
+                    <TouchableOpacity onPress={() => setIsEditing(false)} style={styles.editActionButton}>
+                      <Text style={styles.editCancelText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={saveEdit} style={styles.editActionButton}>
+                      <Text style={styles.editSaveText}>Save & resend</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : !isUser && isPlaying && sound && alignmentData ? (
                 <ProgressiveText
                   text={message.content}
                   sound={sound}
@@ -198,7 +421,7 @@ const MessageItem: React.FC<MessageItemProps> = ({
                   isDark={isDarkMode}
                   onComplete={handleComplete}
                 />
-              ) : (
+              ) : (!!message.content || images.length === 0) && (
                 <Text style={[
                   styles.messageText,
                   isUser ? styles.userMessageText : [
@@ -220,6 +443,36 @@ const MessageItem: React.FC<MessageItemProps> = ({
             </Text>
           )}
           
+          {/* Explain what went wrong for failed responses */}
+          {message.isError && (
+            <View style={styles.errorDetail}>
+              <MaterialIcons name="error-outline" size={16} color="#ef4444" />
+              <Text style={[
+                styles.errorDetailText,
+                isDarkMode && { color: darkThemeColors.textSecondary }
+              ]}>
+                {describeLLMError(message.errorKind || 'unknown')}
+              </Text>
+            </View>
+          )}
+          
+          {!isUser && message.citations && !message.isLoading && (
+            <CitationList
+              citations={message.citations}
+              isDarkMode={isDarkMode}
+              darkThemeColors={darkThemeColors}
+            />
+          )}
+          
+          {!isUser && (message.usage || message.model) && !message.isLoading && (
+            <Text style={[
+              styles.usageText,
+              isDarkMode && { color: darkThemeColors.textTertiary }
+            ]}>
+              {message.usage ? formatMessageUsage(message.usage) : message.model}
+            </Text>
+          )}
+          
           {/* Only show the TTS button for AI messages when TTS is enabled */}
           {!isUser && isTTSEnabled && (
             <TouchableOpacity 
@@ -248,6 +501,11 @@ const styles = StyleSheet.create({
   userContainer: {
     justifyContent: 'flex-end',
   },
+  focusFlash: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 12,
+    backgroundColor: '#54C6EB33',
+  },
   aiContainer: {
     justifyContent: 'flex-start',
   },
@@ -286,6 +544,19 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 1,
   },
+  imageRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  attachedImage: {
+    width: 160,
+    height: 160,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: '#e5e7eb',
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 24,
@@ -342,9 +613,70 @@ const styles = StyleSheet.create({
   expandButton: {
     padding: 4,
   },
+  usageText: {
+    fontSize: 11,
+    color: '#9ca3af',
+    marginTop: 6,
+  },
+  contextBadge: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    color: '#9ca3af',
+    marginLeft: 8,
+  },
+  siblingNavigator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  siblingCount: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginHorizontal: 2,
+  },
+  disabledIcon: {
+    opacity: 0.35,
+  },
   messageContent: {
     padding: 8,
   },
+  editInput: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: '#111827',
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 8,
+    minHeight: 60,
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 6,
+  },
+  editActionButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  editCancelText: {
+    color: '#e5e7eb',
+  },
+  editSaveText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  errorDetail: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 8,
+  },
+  errorDetailText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    marginLeft: 6,
+    color: '#6b7280',
+  },
 });
 
 export default MessageItem; 
\ No newline at end of file
@@ -0,0 +1,423 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, Alert, Platform } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useChat } from '../context/ChatContext';
+import { useTheme } from '../context/ThemeContext';
+import { Persona } from '../types';
+import { CharacterConfig, getAvailableCharacters } from '../utils/characterUtils';
+
+interface PersonaFormState {
+  name: string;
+  description: string;
+  systemPrompt: string;
+  defaultModel?: string;
+  voiceId: string;
+  stability: string;
+  similarityBoost: string;
+  characterId: string;
+}
+
+const EMPTY_FORM: PersonaFormState = {
+  name: '',
+  description: '',
+  systemPrompt: '',
+  defaultModel: undefined,
+  voiceId: '',
+  stability: '',
+  similarityBoost: '',
+  characterId: 'default',
+};
+
+// Convert a stored persona into editable form fields
+const toFormState = (persona: Persona): PersonaFormState => ({
+  name: persona.name,
+  description: persona.description || '',
+  systemPrompt: persona.systemPrompt,
+  defaultModel: persona.defaultModel,
+  voiceId: persona.voice.voiceId,
+  stability: persona.voice.stability?.toString() || '',
+  similarityBoost: persona.voice.similarityBoost?.toString() || '',
+  characterId: persona.characterId,
+});
+
+// Parse an optional 0-1 voice setting, leaving blanks to the global TTS settings
+const parseVoiceSetting = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : Math.min(1, Math.max(0, parsed));
+};
+
+interface PersonaManagerProps {
+  // ElevenLabs voices loaded by the settings screen, if an API key is set
+  voices: { voice_id: string; name: string }[];
+}
+
+/**
+ * Lets users add, edit and remove personas, each bundling a system prompt,
+ * default model, voice and avatar character
+ */
+const PersonaManager: React.FC<PersonaManagerProps> = ({ voices }) => {
+  const { personas, addPersona, editPersona, deletePersona, llmOptions, ttsVoice } = useChat();
+  const { isDark } = useTheme();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState<PersonaFormState>(EMPTY_FORM);
+  const [characters, setCharacters] = useState<CharacterConfig[]>([]);
+
+  useEffect(() => {
+    getAvailableCharacters().then(setCharacters);
+  }, []);
+
+  const updateField = <K extends keyof PersonaFormState>(field: K, value: PersonaFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const startAdding = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, voiceId: ttsVoice });
+    setIsAdding(true);
+  };
+
+  const startEditing = (persona: Persona) => {
+    setIsAdding(false);
+    setForm(toFormState(persona));
+    setEditingId(persona.id);
+  };
+
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    const systemPrompt = form.systemPrompt.trim();
+
+    if (!name || !systemPrompt) {
+      Alert.alert('Missing details', 'A persona needs a name and a system prompt.');
+      return;
+    }
+
+    const details = {
+      name,
+      description: form.description.trim() || undefined,
+      systemPrompt,
+      defaultModel: form.defaultModel,
+      voice: {
+        voiceId: form.voiceId.trim() || ttsVoice,
+        stability: parseVoiceSetting(form.stability),
+        similarityBoost: parseVoiceSetting(form.similarityBoost),
+      },
+      characterId: form.characterId,
+    };
+
+    if (editingId) {
+      editPersona(editingId, details);
+    } else {
+      addPersona(details);
+    }
+
+    closeForm();
+  };
+
+  const handleDelete = (persona: Persona) => {
+    const confirmMessage = `Remove the persona "${persona.name}"? Conversations using it will go back to the default settings.`;
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(confirmMessage)) {
+        deletePersona(persona.id);
+      }
+      return;
+    }
+
+    Alert.alert('Remove persona', confirmMessage, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => deletePersona(persona.id) },
+    ]);
+  };
+
+  const inputStyle = [
+    styles.input,
+    isDark && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d', color: '#f3f4f6' },
+  ];
+  const labelStyle = [styles.label, isDark && { color: '#e5e7eb' }];
+  const placeholderColor = isDark ? '#9ca3af' : '#a0aec0';
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        isDark && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d' },
+        isActive && styles.activeChip,
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isDark && { color: '#b3b8c3' }, isActive && styles.activeChipText]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderForm = () => (
+    <View style={[styles.form, isDark && { borderColor: '#383838' }]}>
+      <Text style={labelStyle}>Name</Text>
+      <TextInput
+        style={inputStyle}
+        value={form.name}
+        onChangeText={(text) => updateField('name', text)}
+        placeholder="Tutor"
+        placeholderTextColor={placeholderColor}
+      />
+
+      <Text style={labelStyle}>Description</Text>
+      <TextInput
+        style={inputStyle}
+        value={form.description}
+        onChangeText={(text) => updateField('description', text)}
+        placeholder="Optional"
+        placeholderTextColor={placeholderColor}
+      />
+
+      <Text style={labelStyle}>System prompt</Text>
+      <TextInput
+        style={[inputStyle, styles.multilineInput]}
+        value={form.systemPrompt}
+        onChangeText={(text) => updateField('systemPrompt', text)}
+        placeholder="You are a patient tutor..."
+        placeholderTextColor={placeholderColor}
+        multiline
+      />
+
+      <Text style={labelStyle}>Default model</Text>
+      <View style={styles.chipRow}>
+        {renderChip('global', 'Use global selection', !form.defaultModel, () => updateField('defaultModel', undefined))}
+        {llmOptions.map(option =>
+          renderChip(option.id, option.name, form.defaultModel === option.name, () => updateField('defaultModel', option.name))
+        )}
+      </View>
+
+      <Text style={labelStyle}>Voice</Text>
+      {voices.length > 0 ? (
+        <View style={styles.chipRow}>
+          {voices.map(voice =>
+            renderChip(voice.voice_id, voice.name, form.voiceId === voice.voice_id, () => updateField('voiceId', voice.voice_id))
+          )}
+        </View>
+      ) : (
+        <TextInput
+          style={inputStyle}
+          value={form.voiceId}
+          onChangeText={(text) => updateField('voiceId', text)}
+          placeholder="ElevenLabs voice ID"
+          placeholderTextColor={placeholderColor}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+
+      <View style={styles.voiceSettingsRow}>
+        <View style={styles.voiceSetting}>
+          <Text style={labelStyle}>Stability</Text>
+          <TextInput
+            style={inputStyle}
+            value={form.stability}
+            onChangeText={(text) => updateField('stability', text)}
+            placeholder="Global"
+            placeholderTextColor={placeholderColor}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.voiceSetting}>
+          <Text style={labelStyle}>Similarity</Text>
+          <TextInput
+            style={inputStyle}
+            value={form.similarityBoost}
+            onChangeText={(text) => updateField('similarityBoost', text)}
+            placeholder="Global"
+            placeholderTextColor={placeholderColor}
+            keyboardType="decimal-pad"
+          />
+        </View>
+      </View>
+
+      <Text style={labelStyle}>Character</Text>
+      <View style={styles.chipRow}>
+        {characters.map(character =>
+          renderChip(character.id, character.name, form.characterId === character.id, () => updateField('characterId', character.id))
+        )}
+      </View>
+
+      <View style={styles.formActions}>
+        <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={closeForm}>
+          <Text style={[styles.secondaryButtonText, isDark && { color: '#e5e7eb' }]}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={handleSave}>
+          <Text style={styles.primaryButtonText}>{editingId ? 'Save' : 'Add persona'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View>
+      <Text style={[styles.hint, isDark && { color: '#9ca3af' }]}>
+        Pick a persona from a conversation's title options to switch its behavior, voice and avatar together.
+      </Text>
+
+      {personas.map(persona => (
+        <View key={persona.id}>
+          <View style={[styles.personaRow, isDark && { backgroundColor: '#333' }]}>
+            <View style={styles.personaInfo}>
+              <Text style={[styles.personaName, isDark && { color: '#f3f4f6' }]}>{persona.name}</Text>
+              {persona.description && (
+                <Text style={[styles.personaDescription, isDark && { color: '#9ca3af' }]} numberOfLines={1}>
+                  {persona.description}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={() => startEditing(persona)} style={styles.iconButton}>
+              <MaterialCommunityIcons name="pencil" size={20} color={isDark ? '#9ca3af' : '#666'} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleDelete(persona)} style={styles.iconButton}>
+              <MaterialCommunityIcons name="delete" size={20} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+          {editingId === persona.id && renderForm()}
+        </View>
+      ))}
+
+      {isAdding ? renderForm() : (
+        <TouchableOpacity style={[styles.button, styles.primaryButton, styles.addButton]} onPress={startAdding}>
+          <Text style={styles.primaryButtonText}>Add Persona</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+  },
+  personaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  personaInfo: {
+    flex: 1,
+  },
+  personaName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  personaDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  form: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 12,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 6,
+    marginTop: 8,
+    color: '#555',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  activeChip: {
+    backgroundColor: '#54C6EB20',
+    borderColor: '#54C6EB',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  activeChipText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  voiceSettingsRow: {
+    flexDirection: 'row',
+  },
+  voiceSetting: {
+    flex: 1,
+    marginRight: 8,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#54C6EB',
+    marginLeft: 8,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  secondaryButton: {
+    backgroundColor: 'transparent',
+  },
+  secondaryButtonText: {
+    color: '#555',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  addButton: {
+    marginLeft: 0,
+    marginTop: 4,
+  },
+});
+
+export default PersonaManager;
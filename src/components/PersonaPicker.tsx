@@ -0,0 +1,98 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Conversation } from '../types';
+import { useChat } from '../context/ChatContext';
+
+interface PersonaPickerProps {
+  conversation: Conversation;
+  isDarkMode?: boolean;
+  darkThemeColors?: any;
+}
+
+/**
+ * Chooses the persona a conversation uses, switching its prompt, model,
+ * voice and avatar together
+ */
+const PersonaPicker: React.FC<PersonaPickerProps> = ({
+  conversation,
+  isDarkMode = false,
+  darkThemeColors,
+}) => {
+  const { personas, setConversationPersona, getConversationPersona } = useChat();
+  const activePersona = getConversationPersona(conversation);
+
+  const renderChip = (key: string, label: string, isActive: boolean, personaId: string | undefined) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        isDarkMode && {
+          backgroundColor: darkThemeColors?.surface,
+          borderColor: darkThemeColors?.borderLight,
+        },
+        isActive && styles.activeChip,
+      ]}
+      onPress={() => setConversationPersona(conversation.id, personaId)}
+      activeOpacity={0.7}
+    >
+      <Text style={[
+        styles.chipText,
+        isDarkMode && { color: darkThemeColors?.textSecondary },
+        isActive && styles.activeChipText,
+      ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {renderChip('none', 'None', !activePersona, undefined)}
+        {personas.map(persona =>
+          renderChip(persona.id, persona.name, activePersona?.id === persona.id, persona.id)
+        )}
+      </View>
+      {activePersona?.description && (
+        <Text style={[styles.description, { color: isDarkMode ? darkThemeColors?.textTertiary : '#6b7280' }]}>
+          {activePersona.description}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  activeChip: {
+    backgroundColor: '#54C6EB20',
+    borderColor: '#54C6EB',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  activeChipText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default PersonaPicker;
@@ -8,6 +8,18 @@ import { setElevenLabsApiKey, getAvailableVoices } from '../utils/tts';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import CustomModelEditor from './CustomModelEditor';
+import UsageSummary from './UsageSummary';
+import GenerationSettingsForm from './GenerationSettingsForm';
+import PersonaManager from './PersonaManager';
+import MemoryManager from './MemoryManager';
+import TemplateManager from './TemplateManager';
+import ExportPanel from './ExportPanel';
+import ConversationImporter from './ConversationImporter';
+import DocumentList from './DocumentList';
+import { getProvider, supportsEmbeddings } from '../utils/providers';
+import FixtureSettings from './FixtureSettings';
+import { ModelRefreshResult } from '../types';
 
 interface ApiKeyState {
   openai: string;
@@ -31,8 +43,25 @@ type RootStackParamList = {
 
 type NavigationProp = StackNavigationProp<RootStackParamList>;
 
+// One-line summary of a model refresh
+const describeRefresh = (result: ModelRefreshResult): string => {
+  const changes = [
+    result.added > 0 && `${result.added} added`,
+    result.updated > 0 && `${result.updated} updated`,
+    result.missing > 0 && `${result.missing} no longer listed`,
+  ].filter(Boolean);
+  const summary = changes.length > 0 ? changes.join(', ') : 'No changes';
+  const failures = result.failures.map(failure => `${failure.provider}: ${failure.message}`);
+  return [summary, ...failures].join('\n');
+};
+
+const AVAILABILITY_LABELS = {
+  deprecated: 'Deprecated',
+  missing: 'No longer listed',
+};
+
 const Settings = () => {
-  const { currentLLM, setLLM, llmOptions, isTTSEnabled, toggleTTS, ttsVoice, changeTTSVoice } = useChat();
+  const { currentLLM, setLLM, llmOptions, refreshModels, isTTSEnabled, toggleTTS, ttsVoice, changeTTSVoice, generationDefaults, updateGenerationDefaults, keepEditedBranches, setKeepEditedBranches, titleSettings, updateTitleSettings, personas, knowledgeSettings, updateKnowledgeSettings } = useChat();
   const { isDark, darkTheme } = useTheme();
   const [apiKeys, setApiKeys] = useState<ApiKeyState>({
     openai: '',
@@ -46,6 +75,8 @@ const Settings = () => {
   const [stability, setStability] = useState(0.5);
   const [similarityBoost, setSimilarityBoost] = useState(0.5);
   const [speakerBoost, setSpeakerBoost] = useState(false);
+  const [isRefreshingModels, setIsRefreshingModels] = useState(false);
+  const [refreshStatus, setRefreshStatus] = useState<string | null>(null);
   const navigation = useNavigation<NavigationProp>();
   
   // Load API keys on component mount
@@ -173,6 +204,25 @@ const Settings = () => {
       console.error('Error saving voice settings:', error);
     }
   };
+
+  // Pull the current model lists from every provider with a key
+  const handleRefreshModels = async () => {
+    setIsRefreshingModels(true);
+    setRefreshStatus(null);
+    try {
+      setRefreshStatus(describeRefresh(await refreshModels()));
+    } catch (error) {
+      console.error('Error refreshing models:', error);
+      setRefreshStatus('Couldn\'t refresh models');
+    } finally {
+      setIsRefreshingModels(false);
+    }
+  };
+  
+  // Embeddings are per provider, so offer one option of each provider that has them
+  const embeddingProviderOptions = llmOptions.filter((option, index) =>
+    supportsEmbeddings(option) && llmOptions.findIndex(other => other.providerId === option.providerId) === index
+  );
   
   return (
     <ScrollView style={[styles.container, isDark && { backgroundColor: 'transparent' }]}>
@@ -180,7 +230,17 @@ const Settings = () => {
       
       {/* LLM Selection */}
       <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
-        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Select Language Model</Text>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Select Language Model</Text>
+          <TouchableOpacity onPress={handleRefreshModels} disabled={isRefreshingModels}>
+            <Text style={[styles.refreshText, isRefreshingModels && { opacity: 0.5 }]}>
+              {isRefreshingModels ? 'Refreshing...' : 'Refresh models'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {refreshStatus && (
+          <Text style={[styles.sectionDescription, isDark && { color: '#9ca3af' }]}>{refreshStatus}</Text>
+        )}
         {llmOptions.map(option => (
           <TouchableOpacity 
             key={option.id} 
@@ -191,7 +251,12 @@ const Settings = () => {
             onPress={() => setLLM(option.name)}
           >
             <Text style={[styles.modelName, isDark && { color: '#f3f4f6' }]}>{option.name}</Text>
-            <Text style={[styles.modelProvider, isDark && { color: '#9ca3af' }]}>{option.provider}</Text>
+            <View style={styles.modelMeta}>
+              <Text style={[styles.modelProvider, isDark && { color: '#9ca3af' }]}>{option.provider}</Text>
+              {option.availability && option.availability !== 'available' && (
+                <Text style={styles.availabilityBadge}>{AVAILABILITY_LABELS[option.availability]}</Text>
+              )}
+            </View>
             {option.description && (
               <Text style={[styles.modelDescription, isDark && { color: '#9ca3af' }]}>{option.description}</Text>
             )}
@@ -199,6 +264,177 @@ const Settings = () => {
         ))}
       </View>
       
+      {/* Defaults for conversations that don't override them */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Default Generation Settings</Text>
+        <Text style={[styles.sectionDescription, isDark && { color: '#9ca3af' }]}>
+          Used by every conversation unless changed from its title options.
+        </Text>
+        <GenerationSettingsForm
+          settings={generationDefaults}
+          onChange={updateGenerationDefaults}
+          isDarkMode={isDark}
+        />
+      </View>
+      
+      {/* How edits to earlier messages treat the replies that followed */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Editing Messages</Text>
+        <View style={styles.toggleContainer}>
+          <Text style={[styles.label, isDark && { color: '#e5e7eb' }]}>Keep the original branch</Text>
+          <Switch
+            value={keepEditedBranches}
+            onValueChange={setKeepEditedBranches}
+            trackColor={{ false: '#767577', true: '#4caf50' }}
+            thumbColor={keepEditedBranches ? '#ffffff' : '#f4f3f4'}
+          />
+        </View>
+        <Text style={[styles.sectionDescription, isDark && { color: '#9ca3af' }]}>
+          {keepEditedBranches
+            ? 'The original message and its replies stay reachable with the < > arrows.'
+            : 'The original message and everything after it are deleted.'}
+        </Text>
+      </View>
+      
+      {/* Titles for new conversations */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Conversation Titles</Text>
+        <View style={styles.toggleContainer}>
+          <Text style={[styles.label, isDark && { color: '#e5e7eb' }]}>Name conversations with a model</Text>
+          <Switch
+            value={titleSettings.enabled}
+            onValueChange={enabled => updateTitleSettings({ enabled })}
+            trackColor={{ false: '#767577', true: '#4caf50' }}
+            thumbColor={titleSettings.enabled ? '#ffffff' : '#f4f3f4'}
+          />
+        </View>
+        <Text style={[styles.sectionDescription, isDark && { color: '#9ca3af' }]}>
+          {titleSettings.enabled
+            ? 'After the first reply, a model writes a short title in the background. Titles you rename by hand are kept.'
+            : 'Conversations are named after the start of their first message.'}
+        </Text>
+        
+        {titleSettings.enabled && (
+          <>
+            <Text style={[styles.label, isDark && { color: '#e5e7eb' }]}>Title model</Text>
+            <ScrollView horizontal={true} style={styles.voiceList}>
+              {[undefined, ...llmOptions.map(option => option.name)].map(model => {
+                const isSelected = titleSettings.model === model;
+                return (
+                  <TouchableOpacity
+                    key={model || 'conversation-model'}
+                    style={[
+                      styles.voiceOption,
+                      isSelected && styles.selectedVoice,
+                      isDark && { backgroundColor: '#333' },
+                      isSelected && isDark && { backgroundColor: 'rgba(84, 198, 235, 0.2)', borderColor: '#54C6EB' }
+                    ]}
+                    onPress={() => updateTitleSettings({ model })}
+                  >
+                    <Text style={[styles.voiceName, isDark && { color: '#e5e7eb' }]}>
+                      {model || 'Same as conversation'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </>
+        )}
+      </View>
+      
+      {/* Personas bundling a prompt, model, voice and avatar */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Personas</Text>
+        <PersonaManager voices={voices} />
+      </View>
+      
+      {/* Slash command templates for the chat input */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Prompt Templates</Text>
+        <TemplateManager />
+      </View>
+      
+      {/* Every conversation saved to a file at once */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Export Conversations</Text>
+        <ExportPanel />
+      </View>
+      
+      {/* History brought over from ChatGPT, Claude, or an earlier export */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Import Conversations</Text>
+        <ConversationImporter />
+      </View>
+      
+      {/* What the assistant remembers about the user across conversations */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Memory</Text>
+        <MemoryManager />
+      </View>
+      
+      {/* Documents retrieved into prompts, and how they're searched */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Knowledge Base</Text>
+        <Text style={[styles.sectionDescription, isDark && { color: '#9ca3af' }]}>
+          Documents are searched by keyword on this device. Choose an embedding provider to also search by meaning;
+          document passages are then sent to it when they are added, and each message when it is sent.
+        </Text>
+        <Text style={[styles.label, isDark && { color: '#e5e7eb' }]}>Embeddings</Text>
+        <ScrollView horizontal={true} style={styles.voiceList}>
+          {[undefined, ...embeddingProviderOptions].map(option => {
+            const model = option?.name;
+            const isSelected = knowledgeSettings.embeddingModel === model;
+            return (
+              <TouchableOpacity
+                key={model || 'keywords-only'}
+                style={[
+                  styles.voiceOption,
+                  isSelected && styles.selectedVoice,
+                  isDark && { backgroundColor: '#333' },
+                  isSelected && isDark && { backgroundColor: 'rgba(84, 198, 235, 0.2)', borderColor: '#54C6EB' }
+                ]}
+                onPress={() => updateKnowledgeSettings({ embeddingModel: model })}
+              >
+                <Text style={[styles.voiceName, isDark && { color: '#e5e7eb' }]}>
+                  {option ? getProvider(option.providerId)?.name : 'Keywords only'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+        <Text style={[styles.sectionDescription, isDark && { color: '#9ca3af' }]}>
+          Documents added before changing this keep their old index until they are added again.
+        </Text>
+        
+        {personas.map(persona => (
+          <View key={persona.id} style={styles.voiceSelection}>
+            <Text style={[styles.label, isDark && { color: '#e5e7eb' }]}>{persona.name} persona</Text>
+            <DocumentList target={{ personaId: persona.id }} isDarkMode={isDark} />
+          </View>
+        ))}
+      </View>
+      
+      {/* Custom OpenAI-compatible models */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Custom Models</Text>
+        <CustomModelEditor />
+      </View>
+      
+      {/* Token usage and estimated spend */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Usage</Text>
+        <UsageSummary />
+      </View>
+      
+      {/* Record and replay provider responses for offline demos */}
+      <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
+        <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>Recorded Responses</Text>
+        <Text style={[styles.sectionDescription, isDark && { color: '#9ca3af' }]}>
+          Record real model and voice responses once, then replay them without keys or network. The Mock models never need either.
+        </Text>
+        <FixtureSettings />
+      </View>
+      
       {/* API Keys */}
       <View style={[styles.section, isDark && { backgroundColor: '#252525', borderColor: '#383838', borderWidth: 1 }]}>
         <Text style={[styles.sectionTitle, isDark && { color: '#f3f4f6' }]}>API Keys</Text>
@@ -458,6 +694,21 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     color: '#333',
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  refreshText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  sectionDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: -6,
+    marginBottom: 8,
+  },
   modelOption: {
     padding: 12,
     marginBottom: 8,
@@ -479,6 +730,22 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  modelMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  availabilityBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#b45309',
+    backgroundColor: '#f59e0b20',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    marginLeft: 8,
+    marginTop: 2,
+    overflow: 'hidden',
+  },
   modelDescription: {
     fontSize: 14,
     color: '#666',
@@ -0,0 +1,408 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, Alert, Platform } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useChat } from '../context/ChatContext';
+import { useTheme } from '../context/ThemeContext';
+import { PromptTemplate } from '../types';
+import { getTemplateVariables, normalizeCommand, parseTemplates, serializeTemplates } from '../utils/templates';
+import { pickFiles, readFileText, saveTextFile } from '../utils/files';
+
+interface TemplateFormState {
+  command: string;
+  description: string;
+  body: string;
+  model?: string;
+  temperature: string;
+}
+
+const EMPTY_FORM: TemplateFormState = {
+  command: '',
+  description: '',
+  body: '',
+  model: undefined,
+  temperature: '',
+};
+
+// Convert a stored template into editable form fields
+const toFormState = (template: PromptTemplate): TemplateFormState => ({
+  command: template.command,
+  description: template.description || '',
+  body: template.body,
+  model: template.model,
+  temperature: template.temperature?.toString() || '',
+});
+
+// Parse an optional temperature, leaving blanks to the conversation's setting
+const parseTemperature = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : Math.min(2, Math.max(0, parsed));
+};
+
+/**
+ * Lets users add, edit and remove the templates offered when typing a slash
+ * command in the chat input, and share them as JSON files
+ */
+const TemplateManager: React.FC = () => {
+  const { templates, addTemplate, editTemplate, deleteTemplate, importTemplates, llmOptions } = useChat();
+  const { isDark } = useTheme();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState<TemplateFormState>(EMPTY_FORM);
+
+  const updateField = <K extends keyof TemplateFormState>(field: K, value: TemplateFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const startAdding = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setIsAdding(true);
+  };
+
+  const startEditing = (template: PromptTemplate) => {
+    setIsAdding(false);
+    setForm(toFormState(template));
+    setEditingId(template.id);
+  };
+
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    const command = normalizeCommand(form.command);
+
+    if (!command || !form.body.trim()) {
+      Alert.alert('Missing details', 'A template needs a command and some text.');
+      return;
+    }
+    if (templates.some(template => template.command === command && template.id !== editingId)) {
+      Alert.alert('Command taken', `There is already a /${command} template.`);
+      return;
+    }
+
+    const details = {
+      command,
+      description: form.description.trim() || undefined,
+      body: form.body,
+      model: form.model,
+      temperature: parseTemperature(form.temperature),
+    };
+
+    if (editingId) {
+      editTemplate(editingId, details);
+    } else {
+      addTemplate(details);
+    }
+
+    closeForm();
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    const confirmMessage = `Remove the /${template.command} template?`;
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(confirmMessage)) {
+        deleteTemplate(template.id);
+      }
+      return;
+    }
+
+    Alert.alert('Remove template', confirmMessage, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => deleteTemplate(template.id) },
+    ]);
+  };
+
+  const handleExport = async () => {
+    try {
+      await saveTextFile('bubl-templates.json', serializeTemplates(templates), 'application/json');
+    } catch (error) {
+      Alert.alert('Export failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const [file] = await pickFiles(['application/json']);
+      if (!file) return;
+
+      const { added, replaced } = importTemplates(parseTemplates(await readFileText(file)));
+      Alert.alert('Templates imported', `${added} added, ${replaced} replaced.`);
+    } catch (error) {
+      Alert.alert('Import failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    isDark && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d', color: '#f3f4f6' },
+  ];
+  const labelStyle = [styles.label, isDark && { color: '#e5e7eb' }];
+  const hintStyle = [styles.hint, isDark && { color: '#9ca3af' }];
+  const placeholderColor = isDark ? '#9ca3af' : '#a0aec0';
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        isDark && { backgroundColor: '#1e1e1e', borderColor: '#4d4d4d' },
+        isActive && styles.activeChip,
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isDark && { color: '#b3b8c3' }, isActive && styles.activeChipText]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderForm = () => {
+    const variables = getTemplateVariables(form.body);
+
+    return (
+      <View style={[styles.form, isDark && { borderColor: '#383838' }]}>
+        <Text style={labelStyle}>Command</Text>
+        <TextInput
+          style={inputStyle}
+          value={form.command}
+          onChangeText={(text) => updateField('command', text)}
+          placeholder="summarize"
+          placeholderTextColor={placeholderColor}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <Text style={labelStyle}>Description</Text>
+        <TextInput
+          style={inputStyle}
+          value={form.description}
+          onChangeText={(text) => updateField('description', text)}
+          placeholder="Optional"
+          placeholderTextColor={placeholderColor}
+        />
+
+        <Text style={labelStyle}>Text</Text>
+        <TextInput
+          style={[inputStyle, styles.multilineInput]}
+          value={form.body}
+          onChangeText={(text) => updateField('body', text)}
+          placeholder="Summarize the following text:\n\n{{text}}"
+          placeholderTextColor={placeholderColor}
+          multiline
+        />
+        <Text style={hintStyle}>
+          {variables.length > 0
+            ? `Blanks to fill in: ${variables.join(', ')}`
+            : 'Write {{name}} for anything to fill in when the template is used.'}
+        </Text>
+
+        <Text style={labelStyle}>Model</Text>
+        <View style={styles.chipRow}>
+          {renderChip('conversation', 'Conversation\'s model', !form.model, () => updateField('model', undefined))}
+          {llmOptions.map(option =>
+            renderChip(option.id, option.name, form.model === option.name, () => updateField('model', option.name))
+          )}
+        </View>
+
+        <Text style={labelStyle}>Temperature</Text>
+        <TextInput
+          style={[inputStyle, styles.temperatureInput]}
+          value={form.temperature}
+          onChangeText={(text) => updateField('temperature', text)}
+          placeholder="Conversation's"
+          placeholderTextColor={placeholderColor}
+          keyboardType="decimal-pad"
+        />
+
+        <View style={styles.formActions}>
+          <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={closeForm}>
+            <Text style={[styles.secondaryButtonText, isDark && { color: '#e5e7eb' }]}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={handleSave}>
+            <Text style={styles.primaryButtonText}>{editingId ? 'Save' : 'Add template'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      <Text style={hintStyle}>
+        Type / in the message box to insert a template. A template can also pick the model and temperature for
+        the message it sends.
+      </Text>
+
+      {templates.map(template => (
+        <View key={template.id}>
+          <View style={[styles.templateRow, isDark && { backgroundColor: '#333' }]}>
+            <View style={styles.templateInfo}>
+              <Text style={[styles.templateCommand, isDark && { color: '#f3f4f6' }]}>/{template.command}</Text>
+              <Text style={[styles.templateDescription, isDark && { color: '#9ca3af' }]} numberOfLines={1}>
+                {[template.description, template.model, template.temperature !== undefined && `temperature ${template.temperature}`]
+                  .filter(Boolean)
+                  .join(' · ') || template.body}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => startEditing(template)} style={styles.iconButton}>
+              <MaterialCommunityIcons name="pencil" size={20} color={isDark ? '#9ca3af' : '#666'} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleDelete(template)} style={styles.iconButton}>
+              <MaterialCommunityIcons name="delete" size={20} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+          {editingId === template.id && renderForm()}
+        </View>
+      ))}
+
+      {isAdding ? renderForm() : (
+        <View style={styles.actionRow}>
+          <TouchableOpacity style={[styles.button, styles.primaryButton, styles.addButton]} onPress={startAdding}>
+            <Text style={styles.primaryButtonText}>Add Template</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={handleImport}>
+            <Text style={[styles.secondaryButtonText, isDark && { color: '#e5e7eb' }]}>Import</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.secondaryButton]}
+            onPress={handleExport}
+            disabled={templates.length === 0}
+          >
+            <Text style={[styles.secondaryButtonText, isDark && { color: '#e5e7eb' }]}>Export</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateCommand: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  templateDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  form: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 12,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 6,
+    marginTop: 8,
+    color: '#555',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  multilineInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+    marginBottom: 6,
+  },
+  temperatureInput: {
+    width: 140,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  activeChip: {
+    backgroundColor: '#54C6EB20',
+    borderColor: '#54C6EB',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  activeChipText: {
+    color: '#54C6EB',
+    fontWeight: '600',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#54C6EB',
+    marginLeft: 8,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  secondaryButton: {
+    backgroundColor: 'transparent',
+  },
+  secondaryButtonText: {
+    color: '#555',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  addButton: {
+    marginLeft: 0,
+  },
+});
+
+export default TemplateManager;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ToolCallContentPart, ToolResultContentPart } from '../types';
+
+interface ToolCallBlockProps {
+  call: ToolCallContentPart;
+  // Unset while the tool is still running
+  result?: ToolResultContentPart;
+  isDarkMode?: boolean;
+  darkThemeColors?: any;
+}
+
+// Pretty-print a tool result if it's JSON, otherwise show it as is
+const formatResult = (content: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2);
+  } catch {
+    return content;
+  }
+};
+
+/**
+ * A tool call made while generating an answer, collapsed to its name and
+ * expandable to show the arguments and result
+ */
+const ToolCallBlock: React.FC<ToolCallBlockProps> = ({
+  call,
+  result,
+  isDarkMode = false,
+  darkThemeColors,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const statusIcon = !result ? 'hourglass-empty' : result.isError ? 'error-outline' : 'check-circle-outline';
+  const statusColor = !result ? '#9ca3af' : result.isError ? '#ef4444' : '#10b981';
+  const codeColor = isDarkMode ? darkThemeColors?.textSecondary : '#374151';
+
+  return (
+    <View style={[
+      styles.container,
+      isDarkMode && { borderColor: darkThemeColors?.border, backgroundColor: darkThemeColors?.surface },
+    ]}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setIsExpanded(!isExpanded)}
+        activeOpacity={0.7}
+      >
+        <MaterialIcons name="build" size={14} color={isDarkMode ? darkThemeColors?.textTertiary : '#6b7280'} />
+        <Text style={[styles.name, isDarkMode && { color: darkThemeColors?.textSecondary }]}>
+          {call.name}
+        </Text>
+        <MaterialIcons name={statusIcon} size={14} color={statusColor} />
+        <View style={styles.spacer} />
+        <MaterialIcons
+          name={isExpanded ? 'expand-less' : 'expand-more'}
+          size={18}
+          color={isDarkMode ? darkThemeColors?.textTertiary : '#6b7280'}
+        />
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <View style={styles.body}>
+          <Text style={[styles.sectionLabel, isDarkMode && { color: darkThemeColors?.textTertiary }]}>Arguments</Text>
+          <Text style={[styles.code, { color: codeColor }]}>
+            {JSON.stringify(call.arguments, null, 2)}
+          </Text>
+          <Text style={[styles.sectionLabel, isDarkMode && { color: darkThemeColors?.textTertiary }]}>
+            {result?.isError ? 'Error' : 'Result'}
+          </Text>
+          <Text style={[styles.code, { color: result?.isError ? '#ef4444' : codeColor }]}>
+            {result ? formatResult(result.content) : 'Running...'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  name: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4b5563',
+    marginLeft: 6,
+    marginRight: 6,
+  },
+  spacer: {
+    flex: 1,
+  },
+  body: {
+    paddingHorizontal: 10,
+    paddingBottom: 8,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginTop: 4,
+    marginBottom: 2,
+  },
+  code: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+});
+
+export default ToolCallBlock;
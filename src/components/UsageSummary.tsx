@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet, Text } from 'react-native';
+import { useChat } from '../context/ChatContext';
+import { useTheme } from '../context/ThemeContext';
+import { getProvider } from '../utils/providers';
+import { getUsageByDay, getUsageByProvider, UsageGroup } from '../utils/usage';
+import { formatCost } from '../utils/pricing';
+import { formatTokenCount } from '../utils/tokens';
+
+// Days shown in the per-day breakdown
+const DAYS_SHOWN = 14;
+
+/**
+ * Token and spend totals per provider and per day, so people sharing API keys
+ * can see where the spend goes
+ */
+const UsageSummary = () => {
+  const { conversations } = useChat();
+  const { isDark } = useTheme();
+
+  const byProvider = useMemo(() => getUsageByProvider(conversations), [conversations]);
+  const byDay = useMemo(() => getUsageByDay(conversations).slice(0, DAYS_SHOWN), [conversations]);
+
+  const textColor = isDark ? '#f3f4f6' : '#333';
+  const secondaryColor = isDark ? '#9ca3af' : '#666';
+
+  const renderRow = (label: string, group: UsageGroup) => (
+    <View key={group.key} style={[styles.row, isDark && { borderColor: '#383838' }]}>
+      <Text style={[styles.label, { color: textColor }]}>{label}</Text>
+      <Text style={[styles.value, { color: secondaryColor }]}>
+        {formatTokenCount(group.totals.inputTokens)} in / {formatTokenCount(group.totals.outputTokens)} out
+      </Text>
+      <Text style={[styles.cost, { color: textColor }]}>
+        {formatCost(group.totals.costUsd)}{group.totals.unpricedCount > 0 ? '*' : ''}
+      </Text>
+    </View>
+  );
+
+  if (byProvider.length === 0) {
+    return (
+      <Text style={[styles.hint, { color: secondaryColor }]}>
+        No usage recorded yet. Token counts and costs appear here once you get responses.
+      </Text>
+    );
+  }
+
+  const hasUnpriced = byProvider.some(group => group.totals.unpricedCount > 0);
+
+  return (
+    <View>
+      <Text style={[styles.subheading, { color: textColor }]}>By provider</Text>
+      {byProvider.map(group => renderRow(getProvider(group.key)?.name || group.key, group))}
+
+      <Text style={[styles.subheading, { color: textColor }]}>By day</Text>
+      {byDay.map(group => renderRow(group.key, group))}
+
+      <Text style={[styles.hint, { color: secondaryColor }]}>
+        Costs are estimates from list prices and cover conversations saved on this device.
+        {hasUnpriced ? ' * Includes models with no known price, counted as $0.' : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  subheading: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderColor: '#eee',
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+  },
+  value: {
+    fontSize: 13,
+    marginRight: 12,
+  },
+  cost: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 64,
+    textAlign: 'right',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 12,
+  },
+});
+
+export default UsageSummary;
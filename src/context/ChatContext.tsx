@@ -1,23 +1,69 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
-import { Conversation, ChatContextType, Message, LLMModel, LLMOption } from '../types';
-import { generateId, createNewConversationTitle } from '../utils/helpers';
-import { callLLM } from '../utils/api';
+import { Comparison, ComparisonColumn, Conversation, ChatContentPart, ChatContextType, ChatMessage, ContextStrategy, ConversationFolder, ConversationImportResult, ConversationOrganization, ConversationTag, GenerationDefaults, GenerationSettings, ImageContentPart, KnowledgeDocument, KnowledgeSettings, Message, MessageOverrides, MessageSearchResult, MessageUsage, LLMModel, LLMOption, Memory, MemorySettings, ModelRefreshResult, Persona, PromptTemplate, TitleSettings, TokenUsage } from '../types';
+import { generateId, createNewConversationTitle, buildChatHistory, getSendableMessages, omitUndefined } from '../utils/helpers';
+import { callLLM, DEFAULT_SYSTEM_PROMPT, DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE } from '../utils/api';
+import { getHistoryBudget, planContextWindow, summarizeTurns } from '../utils/contextWindow';
+import { createMessageUsage } from '../utils/usage';
+import { discoverModels } from '../utils/modelDiscovery';
+import { appendToBranch, getActiveBranch, getLatestLeafId, migrateConversationTree, removeSubtree } from '../utils/messageTree';
+import { migrateLLMOption } from '../utils/providers';
+import { MOCK_ECHO_MODEL, MOCK_SCRIPTED_MODEL } from '../utils/providers/mock';
+import { getTools, registerTool, rememberTool, ToolContext, unregisterTool } from '../utils/tools';
+import { buildMemoryPrompt, canExtractMemories, cleanMemory, extractMemories, isDuplicateMemory, selectRelevantMemories } from '../utils/memory';
+import { canGenerateTitle, generateConversationTitle } from '../utils/titles';
+import { buildKnowledgePrompt, embedQuery, getCitations, getRetrievalQuery, indexDocument, retrievePassages, RetrievedPassage } from '../utils/knowledge';
+import { DocumentSource } from '../utils/documents';
+import { normalizeCommand } from '../utils/templates';
+import { MessageSearchIndex } from '../utils/search';
+import { getNextTagColor } from '../utils/organization';
+import { dedupeImports } from '../utils/importers';
+import { LLMError, getErrorKind } from '../utils/llmErrors';
 import { speakText, stopSpeech } from '../utils/tts';
 import { Audio } from 'expo-av';
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
+// Minimum time between UI updates while a response is streaming in
+const STREAM_UPDATE_INTERVAL_MS = 50;
+
 // Move the DEFAULT_LLM_OPTIONS to outside the component to prevent recreation
 // Near the top of the file, just after the ChatContext declaration, but before the component
 
+// On-device models for demos and development without keys or network
+const MOCK_LLM_OPTIONS: LLMOption[] = [
+  {
+    id: 'mock-scripted',
+    name: 'Mock (Scripted)',
+    provider: 'Other',
+    providerId: 'mock',
+    modelId: MOCK_SCRIPTED_MODEL,
+    contextWindow: 8192,
+    description: 'Plays a fixed script and calls the calculator for arithmetic',
+    apiKeyRequired: false,
+  },
+  {
+    id: 'mock-echo',
+    name: 'Mock (Echo)',
+    provider: 'Other',
+    providerId: 'mock',
+    modelId: MOCK_ECHO_MODEL,
+    contextWindow: 8192,
+    description: 'Repeats your message back',
+    apiKeyRequired: false,
+  },
+];
+
 // Default LLM options
 const DEFAULT_LLM_OPTIONS: LLMOption[] = [
   {
     id: 'claude-opus',
     name: 'Claude 3 Opus',
     provider: 'Anthropic',
+    providerId: 'anthropic',
+    modelId: 'claude-3-opus-20240229',
+    contextWindow: 200000,
     description: 'Most powerful Claude model for complex tasks',
     apiKeyRequired: true,
   },
@@ -25,6 +71,9 @@ const DEFAULT_LLM_OPTIONS: LLMOption[] = [
     id: 'claude-sonnet',
     name: 'Claude 3 Sonnet',
     provider: 'Anthropic',
+    providerId: 'anthropic',
+    modelId: 'claude-3-sonnet-20240229',
+    contextWindow: 200000,
     description: 'Balanced performance and efficiency',
     apiKeyRequired: true,
   },
@@ -32,6 +81,9 @@ const DEFAULT_LLM_OPTIONS: LLMOption[] = [
     id: 'claude-haiku',
     name: 'Claude 3 Haiku',
     provider: 'Anthropic',
+    providerId: 'anthropic',
+    modelId: 'claude-3-haiku-20240307',
+    contextWindow: 200000,
     description: 'Fastest Claude model',
     apiKeyRequired: true,
   },
@@ -39,6 +91,9 @@ const DEFAULT_LLM_OPTIONS: LLMOption[] = [
     id: 'gpt-4o',
     name: 'GPT-4o',
     provider: 'OpenAI',
+    providerId: 'openai',
+    modelId: 'gpt-4o',
+    contextWindow: 128000,
     description: 'Latest and most capable GPT model',
     apiKeyRequired: true,
   },
@@ -46,6 +101,9 @@ const DEFAULT_LLM_OPTIONS: LLMOption[] = [
     id: 'gpt-4',
     name: 'GPT-4',
     provider: 'OpenAI',
+    providerId: 'openai',
+    modelId: 'gpt-4',
+    contextWindow: 8192,
     description: 'Powerful reasoning capabilities',
     apiKeyRequired: true,
   },
@@ -53,22 +111,117 @@ const DEFAULT_LLM_OPTIONS: LLMOption[] = [
     id: 'gpt-3.5',
     name: 'GPT-3.5',
     provider: 'OpenAI',
+    providerId: 'openai',
+    modelId: 'gpt-3.5-turbo',
+    contextWindow: 16385,
     description: 'Fast and cost-effective',
     apiKeyRequired: true,
   },
+  {
+    id: 'gemini-pro',
+    name: 'Gemini 1.5 Pro',
+    provider: 'Google',
+    providerId: 'google',
+    modelId: 'gemini-1.5-pro',
+    contextWindow: 2000000,
+    description: 'Google\'s most capable Gemini model',
+    apiKeyRequired: true,
+  },
+  {
+    id: 'gemini-flash',
+    name: 'Gemini 1.5 Flash',
+    provider: 'Google',
+    providerId: 'google',
+    modelId: 'gemini-1.5-flash',
+    contextWindow: 1000000,
+    description: 'Fast and efficient Gemini model',
+    apiKeyRequired: true,
+  },
+  ...MOCK_LLM_OPTIONS,
 ];
 
-// Mock AI response function
-const getMockResponse = (message: string): string => {
-  const responses = [
-    "I'm an AI assistant. How can I help you today?",
-    "That's an interesting question. Let me think about that.",
-    "I'm here to assist with any information or tasks you need help with.",
-    "I don't have personal opinions, but I can provide information on that topic.",
-    "Thanks for your message. I'm here to help you with any questions you have."
-  ];
-  
-  return responses[Math.floor(Math.random() * responses.length)];
+const DEFAULT_TITLE_SETTINGS: TitleSettings = {
+  enabled: true,
+};
+
+const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  enabled: true,
+  autoExtract: true,
+};
+
+// Each knowledge document is stored under this prefix plus its ID
+const DOCUMENT_KEY_PREFIX = 'document_';
+
+const DEFAULT_GENERATION_SETTINGS: GenerationDefaults = {
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  temperature: DEFAULT_TEMPERATURE,
+  maxTokens: DEFAULT_MAX_TOKENS,
+  toolsEnabled: true,
+};
+
+// Personas available out of the box; users can edit or remove them
+const DEFAULT_PERSONAS: Persona[] = [
+  {
+    id: 'tutor',
+    name: 'Tutor',
+    description: 'Patient teacher that explains step by step',
+    systemPrompt: 'You are a patient tutor. Explain ideas step by step, check understanding with short questions, and encourage the learner to try before giving the full answer.',
+    voice: { voiceId: 'ErXwobaYiN019PkySvjV', stability: 0.6, similarityBoost: 0.75 },
+    characterId: 'default',
+  },
+  {
+    id: 'storyteller',
+    name: 'Storyteller',
+    description: 'Vivid, playful narrator',
+    systemPrompt: 'You are a warm, expressive storyteller. Answer with vivid imagery and a sense of narrative, while keeping facts accurate.',
+    voice: { voiceId: 'pNInz6obpgDQGcFmaJgB', stability: 0.35, similarityBoost: 0.8 },
+    characterId: 'default',
+  },
+];
+
+// Slash command templates available out of the box; users can edit or remove them
+const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'summarize',
+    command: 'summarize',
+    description: 'Summarize a text in a few bullet points',
+    body: 'Summarize the following text in a few short bullet points:\n\n{{text}}',
+    temperature: 0.3,
+  },
+  {
+    id: 'translate',
+    command: 'translate',
+    description: 'Translate a text into another language',
+    body: 'Translate the following text into {{lang}}, keeping its tone and formatting:\n\n{{text}}',
+    temperature: 0.2,
+  },
+  {
+    id: 'explain',
+    command: 'explain',
+    description: 'Explain a topic in simple terms',
+    body: 'Explain {{topic}} in simple terms, with one concrete example.',
+  },
+];
+
+// A user message, with the images ahead of the text when there are any
+const createUserMessage = (content: string, images: ImageContentPart[], overrides?: MessageOverrides): Message => ({
+  id: generateId(),
+  role: 'user',
+  ...(overrides && Object.keys(overrides).length > 0 && { overrides }),
+  content,
+  timestamp: new Date().toISOString(),
+  // Text-only messages keep the plain content shape
+  ...(images.length > 0 && {
+    parts: [...images, ...(content.trim() ? [{ type: 'text' as const, text: content }] : [])],
+  }),
+});
+
+// The history sent to the model: the running summary, if there is one, then the turns that fit
+const buildRequestHistory = (messages: Message[], summaryText?: string): ChatMessage[] => {
+  const summaryMessages: ChatMessage[] = summaryText
+    ? [{ role: 'system', content: [{ type: 'text', text: `Summary of the earlier conversation:\n${summaryText}` }] }]
+    : [];
+  return [...summaryMessages, ...buildChatHistory(messages)];
 };
 
 // Mock user profile for demonstration
@@ -86,8 +239,35 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
   const [isLoading, setIsLoading] = useState(false);
   const [currentLLM, setCurrentLLM] = useState<LLMModel>('GPT-4o');
   const [llmOptions, setLlmOptions] = useState<LLMOption[]>(DEFAULT_LLM_OPTIONS);
+  const [generationDefaults, setGenerationDefaults] = useState<GenerationDefaults>(DEFAULT_GENERATION_SETTINGS);
+  // Whether the stored settings have been read yet; until then the built-in
+  // values in state would overwrite them, so they aren't saved
+  const [hasLoadedSettings, setHasLoadedSettings] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>(DEFAULT_PERSONAS);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(DEFAULT_TEMPLATES);
+  const [folders, setFolders] = useState<ConversationFolder[]>([]);
+  const [tags, setTags] = useState<ConversationTag[]>([]);
+  const [keepEditedBranches, setKeepEditedBranches] = useState(true);
+  const [titleSettings, setTitleSettings] = useState<TitleSettings>(DEFAULT_TITLE_SETTINGS);
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [memorySettings, setMemorySettings] = useState<MemorySettings>(DEFAULT_MEMORY_SETTINGS);
+  // Storage key the memories in state were loaded from; saving waits until it
+  // matches the current profile, so one user's memories never land in another's
+  const [memoryStorageKey, setMemoryStorageKey] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  // Storage key the documents and knowledge settings in state were loaded from,
+  // and the document IDs last saved there; like memories, they're only saved
+  // once loaded for the current profile
+  const [documentStorageKey, setDocumentStorageKey] = useState<string | null>(null);
+  const savedDocumentIdsRef = useRef<string[]>([]);
+  const [knowledgeSettings, setKnowledgeSettings] = useState<KnowledgeSettings>({});
   // Replace messageAborted with abortController ref
   const abortControllerRef = useRef<AbortController | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  // One controller per comparison column, keyed by model, so each can be stopped on its own
+  const comparisonAbortControllersRef = useRef(new Map<LLMModel, AbortController>());
+  // Full-text index over every conversation's messages, updated as conversations change
+  const searchIndexRef = useRef(new MessageSearchIndex());
   
   // Add user profile state with default not logged in
   const [userProfile, setUserProfile] = useState(MOCK_USER_PROFILE);
@@ -109,8 +289,9 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
       : key;
   };
 
-  // Save data to appropriate storage based on platform
-  const saveToStorage = async (key: string, data: any) => {
+  // Save data to appropriate storage based on platform; resolves false if it
+  // couldn't be saved, e.g. because storage is full
+  const saveToStorage = async (key: string, data: any): Promise<boolean> => {
     const userKey = getUserStorageKey(key);
     console.log(`Saving to storage: ${userKey}`);
     
@@ -121,8 +302,23 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
         localStorage.setItem(userKey, jsonValue);
       }
       await AsyncStorage.setItem(userKey, jsonValue);
+      return true;
     } catch (error) {
       console.error(`Failed to save ${key}:`, error);
+      return false;
+    }
+  };
+
+  const removeFromStorage = async (key: string) => {
+    const userKey = getUserStorageKey(key);
+    
+    try {
+      if (Platform.OS === 'web') {
+        localStorage.removeItem(userKey);
+      }
+      await AsyncStorage.removeItem(userKey);
+    } catch (error) {
+      console.error(`Failed to remove ${key}:`, error);
     }
   };
 
@@ -190,7 +386,7 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
         
         // Load conversations
         const storedConversations = await loadFromStorage('conversations', []);
-        setConversations(storedConversations || []);
+        setConversations((storedConversations || []).map(migrateConversationTree));
         
         // Load current conversation ID
         const storedConversationId = await loadFromStorage('currentConversationId', null);
@@ -205,15 +401,47 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
         // Load custom LLM options if available
         const storedLLMOptions = await loadFromStorage('llmOptions', null);
         if (storedLLMOptions) {
-          setLlmOptions(storedLLMOptions);
+          // Options saved before the mock models existed don't list them
+          const missingMockOptions = MOCK_LLM_OPTIONS.filter(mockOption =>
+            !storedLLMOptions.some((option: LLMOption) => option.id === mockOption.id)
+          );
+          setLlmOptions([...storedLLMOptions.map(migrateLLMOption), ...missingMockOptions]);
+        }
+        
+        // Load generation defaults, seeding the system prompt from the key the
+        // settings panel used to save it under
+        const storedDefaults = await loadFromStorage('generationDefaults', null);
+        if (storedDefaults) {
+          setGenerationDefaults({ ...DEFAULT_GENERATION_SETTINGS, ...storedDefaults });
+        } else {
+          const legacySystemPrompt = await AsyncStorage.getItem('systemPrompt');
+          if (legacySystemPrompt) {
+            setGenerationDefaults({ ...DEFAULT_GENERATION_SETTINGS, systemPrompt: legacySystemPrompt });
+          }
+        }
+        
+        const storedPersonas = await loadFromStorage('personas', null);
+        if (storedPersonas) {
+          setPersonas(storedPersonas);
+        }
+        
+        const storedTemplates = await loadFromStorage('templates', null);
+        if (storedTemplates) {
+          setTemplates(storedTemplates);
         }
         
+        setFolders(await loadFromStorage('folders', []));
+        setTags(await loadFromStorage('tags', []));
+        setKeepEditedBranches(await loadFromStorage('keepEditedBranches', true));
+        setTitleSettings({ ...DEFAULT_TITLE_SETTINGS, ...await loadFromStorage('titleSettings', {}) });
+        
         // Load TTS settings
         const ttsEnabled = await loadFromStorage('ttsEnabled', false);
         const savedVoice = await loadFromStorage('ttsVoice', 'EXAVITQu4vr4xnSDxMaL');
         
         setIsTTSEnabled(ttsEnabled);
         setTTSVoice(savedVoice);
+        setHasLoadedSettings(true);
         
         console.log('Settings loaded successfully:', {
           conversations: storedConversations?.length,
@@ -231,8 +459,75 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     loadSettings();
   }, []);
 
+  // Load the memories of whoever is logged in, again each time the profile changes
+  useEffect(() => {
+    let isCancelled = false;
+    setMemoryStorageKey(null);
+    
+    const loadMemories = async () => {
+      const storedMemories = await loadFromStorage('memories', []);
+      const storedMemorySettings = await loadFromStorage('memorySettings', {});
+      if (isCancelled) return;
+      
+      setMemories(storedMemories);
+      setMemorySettings({ ...DEFAULT_MEMORY_SETTINGS, ...storedMemorySettings });
+      setMemoryStorageKey(getUserStorageKey('memories'));
+    };
+    
+    loadMemories();
+    return () => {
+      isCancelled = true;
+    };
+  }, [userProfile.id, userProfile.isLoggedIn]);
+
+  // Load the knowledge base of whoever is logged in. Each document is stored
+  // under its own key, so one that doesn't fit can't take the others with it.
+  useEffect(() => {
+    let isCancelled = false;
+    setDocumentStorageKey(null);
+    
+    const loadDocuments = async (): Promise<KnowledgeDocument[]> => {
+      // Earlier versions kept every document under a single key
+      const legacyDocuments: KnowledgeDocument[] | null = await loadFromStorage('documents', null);
+      if (legacyDocuments) {
+        const saved = await Promise.all(
+          legacyDocuments.map(document => saveToStorage(`${DOCUMENT_KEY_PREFIX}${document.id}`, document))
+        );
+        if (saved.every(Boolean) && await saveToStorage('documentIds', legacyDocuments.map(document => document.id))) {
+          await removeFromStorage('documents');
+        }
+        return legacyDocuments;
+      }
+      
+      const ids: string[] = await loadFromStorage('documentIds', []);
+      const stored = await Promise.all(ids.map(id => loadFromStorage(`${DOCUMENT_KEY_PREFIX}${id}`, null)));
+      return stored.filter(Boolean);
+    };
+    
+    Promise.all([loadDocuments(), loadFromStorage('knowledgeSettings', {})]).then(([storedDocuments, storedSettings]) => {
+      if (isCancelled) return;
+      savedDocumentIdsRef.current = storedDocuments.map(document => document.id);
+      setDocuments(storedDocuments);
+      setKnowledgeSettings(storedSettings);
+      setDocumentStorageKey(getUserStorageKey('documentIds'));
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [userProfile.id, userProfile.isLoggedIn]);
+
+  // The remember tool is only offered to models while memory is on
+  useEffect(() => {
+    if (memorySettings.enabled) {
+      registerTool(rememberTool);
+    } else {
+      unregisterTool(rememberTool.name);
+    }
+  }, [memorySettings.enabled]);
+
   // Save conversations whenever they change
   useEffect(() => {
+    searchIndexRef.current.sync(conversations);
     saveToStorage('conversations', conversations);
     if (currentConversationId) {
       saveToStorage('currentConversationId', currentConversationId);
@@ -250,6 +545,70 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     saveToStorage('llmOptions', llmOptions);
   }, [llmOptions, userProfile.id]);
 
+  // Save generation defaults when they change
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    saveToStorage('generationDefaults', generationDefaults);
+  }, [generationDefaults, hasLoadedSettings, userProfile.id]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    saveToStorage('personas', personas);
+  }, [personas, hasLoadedSettings, userProfile.id]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    saveToStorage('templates', templates);
+  }, [templates, hasLoadedSettings, userProfile.id]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    saveToStorage('folders', folders);
+  }, [folders, hasLoadedSettings, userProfile.id]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    saveToStorage('tags', tags);
+  }, [tags, hasLoadedSettings, userProfile.id]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    saveToStorage('keepEditedBranches', keepEditedBranches);
+  }, [keepEditedBranches, hasLoadedSettings, userProfile.id]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    saveToStorage('titleSettings', titleSettings);
+  }, [titleSettings, hasLoadedSettings, userProfile.id]);
+
+  useEffect(() => {
+    if (memoryStorageKey !== getUserStorageKey('memories')) return;
+    saveToStorage('memories', memories);
+  }, [memories, memoryStorageKey]);
+
+  useEffect(() => {
+    if (memoryStorageKey !== getUserStorageKey('memories')) return;
+    saveToStorage('memorySettings', memorySettings);
+  }, [memorySettings, memoryStorageKey]);
+
+  // Documents are written when they're added; this keeps the list of IDs
+  // current and drops the stored copies of documents that were removed
+  useEffect(() => {
+    if (documentStorageKey !== getUserStorageKey('documentIds')) return;
+    
+    const ids = documents.map(document => document.id);
+    savedDocumentIdsRef.current
+      .filter(id => !ids.includes(id))
+      .forEach(id => removeFromStorage(`${DOCUMENT_KEY_PREFIX}${id}`));
+    savedDocumentIdsRef.current = ids;
+    saveToStorage('documentIds', ids);
+  }, [documents, documentStorageKey]);
+
+  useEffect(() => {
+    if (documentStorageKey !== getUserStorageKey('documentIds')) return;
+    saveToStorage('knowledgeSettings', knowledgeSettings);
+  }, [knowledgeSettings, documentStorageKey]);
+
   // Save TTS settings to storage when they change
   useEffect(() => {
     saveToStorage('isTTSEnabled', isTTSEnabled);
@@ -284,6 +643,13 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     setCurrentConversationId(null);
     setCurrentLLM('Claude 3 Opus');
     setLlmOptions(DEFAULT_LLM_OPTIONS);
+    setGenerationDefaults(DEFAULT_GENERATION_SETTINGS);
+    setPersonas(DEFAULT_PERSONAS);
+    setTemplates(DEFAULT_TEMPLATES);
+    setFolders([]);
+    setTags([]);
+    setMemories([]);
+    setDocuments([]);
     
     // Update user profile state to logged out
     const loggedOutUser = {...MOCK_USER_PROFILE, isLoggedIn: false};
@@ -298,7 +664,7 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     }
   };
 
-  const createNewConversation = () => {
+  const createNewConversation = (personaId?: string) => {
     const newId = generateId();
     const newConversation: Conversation = {
       id: newId,
@@ -306,13 +672,18 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
       messages: [],
       createdAt: Date.now(),
       updatedAt: Date.now(),
+      personaId,
     };
     
+    extractConversationMemories(currentConversationId);
     setConversations([newConversation, ...conversations]);
     setCurrentConversationId(newId);
   };
 
   const switchConversation = (id: string) => {
+    if (id !== currentConversationId) {
+      extractConversationMemories(currentConversationId);
+    }
     setCurrentConversationId(id);
   };
 
@@ -341,10 +712,17 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
       )
     );
     
+    const previousName = llmOptions.find(opt => opt.id === id)?.name;
+    
     // If we're editing the currently selected LLM, update the name if it changed
-    if (updates.name && llmOptions.find(opt => opt.id === id)?.name === currentLLM) {
+    if (updates.name && previousName === currentLLM) {
       setCurrentLLM(updates.name);
     }
+    
+    // Conversations refer to their model by name, so follow a rename
+    if (updates.name && previousName && updates.name !== previousName) {
+      replaceConversationModel(previousName, updates.name);
+    }
   };
   
   // Delete an LLM option
@@ -368,9 +746,139 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
       }
     }
     
+    // Conversations that used the deleted model go back to the global selection
+    if (optionToDelete) {
+      replaceConversationModel(optionToDelete.name, undefined);
+    }
+    
     // Explicitly save the updated options to storage
     saveToStorage('llmOptions', updatedOptions);
   };
+  
+  // Merge the providers' current model lists into the options
+  const refreshModels = async (): Promise<ModelRefreshResult> => {
+    const { options, result } = await discoverModels(llmOptions);
+    setLlmOptions(options);
+    return result;
+  };
+  
+  // Point every conversation that overrides its model to `from` at `to` instead
+  const replaceConversationModel = (from: LLMModel, to: LLMModel | undefined) => {
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.settings?.model === from
+          ? { ...conv, settings: { ...conv.settings, model: to } }
+          : conv
+      )
+    );
+  };
+  
+  // Update the app-wide generation defaults
+  const updateGenerationDefaults = (updates: Partial<GenerationDefaults>) => {
+    setGenerationDefaults(prev => ({ ...prev, ...updates }));
+  };
+  
+  // Override generation settings for one conversation. Setting a field to
+  // undefined removes the override so the global default applies again.
+  const updateConversationSettings = (conversationId: string, updates: Partial<GenerationSettings>) => {
+    setConversations(prevConversations =>
+      prevConversations.map(conv => {
+        if (conv.id !== conversationId) return conv;
+        
+        return { ...conv, settings: omitUndefined({ ...conv.settings, ...updates }) };
+      })
+    );
+  };
+  
+  // The settings a conversation actually generates with: its own overrides, then
+  // its persona's prompt and model, then the global defaults
+  const getGenerationSettings = (conversation?: Conversation | null): GenerationSettings => {
+    const persona = getConversationPersona(conversation);
+    
+    return {
+      model: currentLLM,
+      ...generationDefaults,
+      ...omitUndefined({ model: persona?.defaultModel, systemPrompt: persona?.systemPrompt }),
+      ...omitUndefined(conversation?.settings || {}),
+    };
+  };
+  
+  // Look up the persona a conversation uses, if it still exists
+  const getConversationPersona = (conversation?: Conversation | null): Persona | undefined => {
+    if (!conversation?.personaId) return undefined;
+    return personas.find(persona => persona.id === conversation.personaId);
+  };
+  
+  // Add a new persona
+  const addPersona = (persona: Omit<Persona, 'id'>) => {
+    setPersonas(prev => [...prev, { ...persona, id: generateId() }]);
+  };
+  
+  // Edit an existing persona
+  const editPersona = (id: string, updates: Partial<Omit<Persona, 'id'>>) => {
+    setPersonas(prev =>
+      prev.map(persona => persona.id === id ? { ...persona, ...updates } : persona)
+    );
+  };
+  
+  // Delete a persona; conversations that used it go back to the global settings
+  const deletePersona = (id: string) => {
+    setPersonas(prev => prev.filter(persona => persona.id !== id));
+    setDocuments(prev => prev.filter(document => document.personaId !== id));
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.personaId === id ? { ...conv, personaId: undefined } : conv
+      )
+    );
+  };
+  
+  // Choose the persona for a conversation, or undefined for none
+  const setConversationPersona = (conversationId: string, personaId: string | undefined) => {
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.id === conversationId ? { ...conv, personaId } : conv
+      )
+    );
+  };
+  
+  const addTemplate = (template: Omit<PromptTemplate, 'id'>) => {
+    setTemplates(prev => [...prev, { ...template, command: normalizeCommand(template.command), id: generateId() }]);
+  };
+  
+  const editTemplate = (id: string, updates: Partial<Omit<PromptTemplate, 'id'>>) => {
+    setTemplates(prev =>
+      prev.map(template => {
+        if (template.id !== id) return template;
+        
+        const updated = { ...template, ...updates };
+        return { ...updated, command: normalizeCommand(updated.command) };
+      })
+    );
+  };
+  
+  const deleteTemplate = (id: string) => {
+    setTemplates(prev => prev.filter(template => template.id !== id));
+  };
+  
+  // Add imported templates. One with the same command as an existing template
+  // replaces it, so importing an updated export twice doesn't duplicate anything.
+  const importTemplates = (imported: Omit<PromptTemplate, 'id'>[]) => {
+    let replaced = 0;
+    const merged = [...templates];
+    
+    imported.forEach(template => {
+      const index = merged.findIndex(existing => existing.command === template.command);
+      if (index === -1) {
+        merged.push({ ...template, id: generateId() });
+      } else {
+        merged[index] = { ...template, id: merged[index].id };
+        replaced++;
+      }
+    });
+    
+    setTemplates(merged);
+    return { added: merged.length - templates.length, replaced };
+  };
 
   // Toggle TTS on/off
   const toggleTTS = () => {
@@ -410,8 +918,8 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     await stopSpeech();
   };
 
-  const sendMessage = async (content: string) => {
-    if (!content.trim()) return;
+  const sendMessage = async (content: string, images: ImageContentPart[] = [], overrides?: MessageOverrides) => {
+    if (!content.trim() && images.length === 0) return;
     
     // If TTS is playing, stop it
     console.log('[ChatContext] sendMessage called, stopping any active TTS');
@@ -437,13 +945,16 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
       setCurrentConversationId(newId);
     }
     
-    // Add user message to conversation
-    const userMessage: Message = {
-      id: generateId(),
-      role: 'user',
-      content,
-      timestamp: new Date().toISOString(),
-    };
+    // Add user message to the end of the selected branch and answer it
+    const userMessage = createUserMessage(content, images, overrides);
+    const isFirstMessage = getActiveBranch(conversation).length === 0;
+    await generateReply(appendToBranch(conversation, [userMessage]), isFirstMessage ? userMessage.content : undefined);
+  };
+  
+  // Answer the last message on a conversation's selected branch with a new assistant
+  // message. Answering the same message again adds a sibling rather than replacing it.
+  const generateReply = async (conversation: Conversation, titleFrom?: string) => {
+    const history = getActiveBranch(conversation);
     
     // Create a placeholder for the assistant message
     const assistantMessage: Message = {
@@ -452,12 +963,14 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
       content: '',
       timestamp: new Date().toISOString(),
       isLoading: true,
+      parentId: history[history.length - 1]?.id ?? null,
     };
     
-    // Update the conversation with the new messages
+    // Update the conversation with the new message, selecting its branch
     const updatedConversation = {
       ...conversation,
-      messages: [...conversation.messages, userMessage, assistantMessage],
+      messages: [...conversation.messages, assistantMessage],
+      currentLeafId: assistantMessage.id,
       updatedAt: new Date().toISOString(),
     };
     
@@ -476,31 +989,142 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     abortControllerRef.current = abortController;
     ttsAbortControllerRef.current = abortController;
     
+    // Apply partial updates to the placeholder assistant message
+    const updateAssistantMessage = (updates: Partial<Message>) => {
+      setConversations(prevConversations => {
+        const convIndex = prevConversations.findIndex(conv => conv.id === updatedConversation.id);
+        if (convIndex === -1) return prevConversations;
+        
+        const conversation = prevConversations[convIndex];
+        const messages = conversation.messages.map(msg =>
+          msg.id === assistantMessage.id ? { ...msg, ...updates } : msg
+        );
+        
+        const updatedConversations = [...prevConversations];
+        updatedConversations[convIndex] = { ...conversation, messages };
+        return updatedConversations;
+      });
+    };
+    
+    // Text received so far, kept so an aborted stream can keep its partial answer
+    let streamedText = '';
+    // Tool calls and results so far, kept for the same reason
+    let toolParts: ChatContentPart[] | undefined;
+    let lastStreamUpdate = 0;
+    // Set once the request is built, so a stopped stream can still record what it used
+    let recordUsage: ((text: string, response?: { model: string; usage?: TokenUsage }) => MessageUsage) | null = null;
+    // Document passages given to the model, which its citations refer to
+    let passages: RetrievedPassage[] = [];
+    
     try {
-      // Format the conversation history as a prompt
-      const conversationHistory = updatedConversation.messages
-        .slice(0, -1) // Exclude the placeholder assistant message
-        .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-        .join('\n\n');
+      // A message sent from a template can override the model and temperature for its replies
+      const settings = {
+        ...getGenerationSettings(updatedConversation),
+        ...omitUndefined(history[history.length - 1]?.overrides || {}),
+      };
+      const llmOption = llmOptions.find(option => option.name === settings.model);
+      if (!llmOption) {
+        throw new LLMError('bad_request', `Model not found: ${settings.model}`);
+      }
+      passages = await retrieveKnowledge(updatedConversation, history);
+      const systemPrompt = buildKnowledgePrompt(withMemories(settings.systemPrompt, history), passages);
+      
+      // Fit the history (excluding the placeholder assistant message) into the model's context window
+      const strategy = updatedConversation.contextStrategy || 'truncate';
+      const plan = planContextWindow({
+        messages: getSendableMessages(history),
+        strategy,
+        budgetTokens: getHistoryBudget(llmOption, systemPrompt, settings.maxTokens),
+        summary: updatedConversation.summary,
+      });
+      
+      if (plan.omitted.length > 0) {
+        console.log(`[ChatContext] ${plan.omitted.length} older messages not sent verbatim (${strategy})`);
+      }
+      
+      let summaryText = plan.summary?.text;
+      if (plan.toSummarize.length > 0) {
+        try {
+          // Resolves empty if stopped; the reply call below then sees the abort
+          const newSummary = await summarizeTurns(llmOption, summaryText, plan.toSummarize, abortController);
+          
+          if (newSummary) {
+            summaryText = newSummary;
+            const summary = {
+              text: newSummary,
+              throughMessageId: plan.toSummarize[plan.toSummarize.length - 1].id,
+              updatedAt: Date.now(),
+            };
+            setConversations(prevConversations =>
+              prevConversations.map(conv =>
+                conv.id === updatedConversation.id ? { ...conv, summary } : conv
+              )
+            );
+          }
+        } catch (error) {
+          // The reply can still go ahead with the older turns simply left out
+          console.warn('[ChatContext] Failed to update running summary, truncating instead:', error);
+        }
+      }
+      
+      const conversationHistory = buildRequestHistory(plan.messages, summaryText);
+      
+      const requestStartedAt = Date.now();
+      recordUsage = (text, response) => createMessageUsage({
+        llmOption,
+        history: conversationHistory,
+        systemPrompt,
+        startedAt: requestStartedAt,
+        text,
+        model: response?.model,
+        reported: response?.usage,
+      });
       
       // Call the LLM API
-      console.log('[ChatContext] Calling LLM API with model:', currentLLM);
+      console.log('[ChatContext] Calling LLM API with model:', settings.model);
       const response = await callLLM({
-        model: currentLLM,
-        prompt: conversationHistory,
-        systemPrompt: "You are a helpful assistant.",
-        abortController
+        llmOption,
+        messages: conversationHistory,
+        systemPrompt,
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        topP: settings.topP,
+        abortController,
+        tools: settings.toolsEnabled ? getTools() : undefined,
+        toolContext: createToolContext(updatedConversation.id),
+        onToolUpdate: (parts) => {
+          toolParts = parts;
+          updateAssistantMessage({ parts });
+        },
+        onToken: (_delta, fullText) => {
+          streamedText = fullText;
+          
+          // Throttle state updates so long answers don't re-render on every token
+          const now = Date.now();
+          if (now - lastStreamUpdate < STREAM_UPDATE_INTERVAL_MS) return;
+          lastStreamUpdate = now;
+          
+          updateAssistantMessage({ content: fullText });
+        }
       });
       
-      // If the request was aborted, don't update the message
-      if (abortControllerRef.current === null) {
-        console.log('[ChatContext] LLM request was aborted, not updating message');
+      // If the request was aborted, keep whatever was streamed before the stop
+      if (abortController.signal.aborted) {
+        console.log('[ChatContext] LLM request was aborted, keeping partial response');
+        updateAssistantMessage({
+          content: streamedText.trim(),
+          parts: toolParts,
+          isLoading: false,
+          usage: streamedText && recordUsage ? recordUsage(streamedText) : undefined,
+          citations: getMessageCitations(passages, streamedText),
+        });
         return;
       }
       
       // Update the assistant message with the response
-      const responseText = response.text.trim();
+      const responseText = (response.text || streamedText).trim();
       console.log('[ChatContext] Received response from LLM, length:', responseText.length);
+      const usage = recordUsage(responseText, response);
       
       // Update conversations with the response
       setConversations(prevConversations => {
@@ -515,7 +1139,10 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
           messages[assistantMsgIndex] = {
             ...messages[assistantMsgIndex],
             content: responseText,
+            parts: response.toolParts,
             isLoading: false,
+            usage,
+            citations: getMessageCitations(passages, responseText),
           };
         }
         
@@ -523,7 +1150,6 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
         const updatedConv = {
           ...conversation,
           messages,
-          title: conversation.messages.length <= 2 ? createNewConversationTitle(userMessage.content) : conversation.title,
           updatedAt: new Date().toISOString(),
         };
         
@@ -534,12 +1160,28 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
         return updatedConversations;
       });
       
+      if (titleFrom !== undefined) {
+        titleConversation(updatedConversation.id, titleFrom, responseText, llmOption);
+      }
+      
       // We don't need to manually trigger TTS here - the MessageItem component
       // will automatically play for the latest AI message when it renders
       // This prevents duplicate TTS playback
       console.log('[ChatContext] Message updated, TTS will be handled by MessageItem');
       
     } catch (error) {
+      // Stopping mid-stream can surface as an error from the body reader
+      if (abortController.signal.aborted) {
+        updateAssistantMessage({
+          content: streamedText.trim(),
+          parts: toolParts,
+          isLoading: false,
+          usage: streamedText && recordUsage ? recordUsage(streamedText) : undefined,
+          citations: getMessageCitations(passages, streamedText),
+        });
+        return;
+      }
+      
       console.error('[ChatContext] Error sending message:', error);
       
       // Update the assistant message to show the error
@@ -557,6 +1199,7 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
             content: 'Sorry, there was an error generating a response. Please try again.',
             isLoading: false,
             isError: true,
+            errorKind: getErrorKind(error),
           };
         }
         
@@ -580,6 +1223,56 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     }
   };
 
+  // Answer the same message again, keeping the existing answer as a sibling
+  const regenerateMessage = async (messageId: string) => {
+    const conversation = conversations.find(conv => conv.messages.some(msg => msg.id === messageId));
+    const message = conversation?.messages.find(msg => msg.id === messageId);
+    if (!conversation || !message || message.role !== 'assistant' || isLoading) return;
+    
+    await stopTTS();
+    await generateReply({ ...conversation, currentLeafId: message.parentId ?? undefined });
+  };
+  
+  // Re-run a conversation from an edited user message. The edit becomes a sibling of
+  // the original, which is kept as its own branch or removed with its replies.
+  const editMessage = async (messageId: string, content: string) => {
+    const conversation = conversations.find(conv => conv.messages.some(msg => msg.id === messageId));
+    const original = conversation?.messages.find(msg => msg.id === messageId);
+    if (!conversation || !original || original.role !== 'user' || isLoading) return;
+    
+    // Anything being spoken belongs to the replies being replaced
+    await stopTTS();
+    
+    // Attached images and template overrides carry over to the edited message
+    const images = (original.parts || []).filter((part): part is ImageContentPart => part.type === 'image');
+    if (!content.trim() && images.length === 0) return;
+    
+    const editedMessage: Message = {
+      ...createUserMessage(content, images, original.overrides),
+      parentId: original.parentId ?? null,
+    };
+    const remaining = keepEditedBranches
+      ? conversation.messages
+      : removeSubtree(conversation.messages, original.id);
+    
+    await generateReply({
+      ...conversation,
+      messages: [...remaining, editedMessage],
+      currentLeafId: editedMessage.id,
+    });
+  };
+  
+  // Select the branch a message is on, continuing down its newest replies
+  const switchBranch = (conversationId: string, messageId: string) => {
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.id === conversationId
+          ? { ...conv, currentLeafId: getLatestLeafId(conv.messages, messageId) }
+          : conv
+      )
+    );
+  };
+
   const deleteConversation = (id: string) => {
     // Simple validation
     if (!id) return;
@@ -589,6 +1282,7 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     
     // Update state with the new array
     setConversations(newConversations);
+    setDocuments(prev => prev.filter(document => document.conversationId !== id));
     
     // Update current conversation if needed
     if (currentConversationId === id) {
@@ -614,12 +1308,85 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     // No need to check if there are conversations - setting to empty array is idempotent
     setConversations([]);
     setCurrentConversationId(null);
+    // Persona documents outlive the conversations that used them
+    setDocuments(prev => prev.filter(document => !document.conversationId));
     
     // Update storage
     AsyncStorage.setItem('conversations', JSON.stringify([]));
     AsyncStorage.removeItem('currentConversationId');
   };
 
+  // Pin, file, tag or archive a conversation, leaving updatedAt alone so it keeps its place
+  const organizeConversation = (id: string, updates: Partial<ConversationOrganization>) => {
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.id === id ? { ...conv, ...updates } : conv
+      )
+    );
+  };
+  
+  const addFolder = (name: string) => {
+    if (!name.trim()) return;
+    setFolders(prev => [...prev, { id: generateId(), name: name.trim(), createdAt: Date.now() }]);
+  };
+  
+  const renameFolder = (id: string, name: string) => {
+    if (!name.trim()) return;
+    setFolders(prev => prev.map(folder => folder.id === id ? { ...folder, name: name.trim() } : folder));
+  };
+  
+  const deleteFolder = (id: string) => {
+    setFolders(prev => prev.filter(folder => folder.id !== id));
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.folderId === id ? { ...conv, folderId: undefined } : conv
+      )
+    );
+  };
+  
+  const addTag = (name: string, color?: string) => {
+    if (!name.trim()) return;
+    setTags(prev => [...prev, { id: generateId(), name: name.trim(), color: color || getNextTagColor(prev) }]);
+  };
+  
+  const editTag = (id: string, updates: Partial<Omit<ConversationTag, 'id'>>) => {
+    if (updates.name !== undefined && !updates.name.trim()) return;
+    setTags(prev => prev.map(tag => tag.id === id ? { ...tag, ...updates } : tag));
+  };
+  
+  const deleteTag = (id: string) => {
+    setTags(prev => prev.filter(tag => tag.id !== id));
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.tagIds?.includes(id) ? { ...conv, tagIds: conv.tagIds.filter(tagId => tagId !== id) } : conv
+      )
+    );
+  };
+  
+  // Add conversations read from an export. Ones already here are skipped, and
+  // personas, folders and tags this account doesn't have are let go.
+  const importConversations = (imported: Conversation[]): ConversationImportResult => {
+    const { added, skipped } = dedupeImports(imported, conversations);
+    if (added.length === 0) return { imported: 0, skipped };
+    
+    const cleaned = added
+      // Imported history goes below what's already here, most recently active first
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+      .map(conv => ({
+        ...conv,
+        personaId: personas.some(persona => persona.id === conv.personaId) ? conv.personaId : undefined,
+        folderId: folders.some(folder => folder.id === conv.folderId) ? conv.folderId : undefined,
+        tagIds: conv.tagIds?.filter(tagId => tags.some(tag => tag.id === tagId)),
+      }));
+    
+    setConversations(prevConversations => [...prevConversations, ...cleaned]);
+    return { imported: cleaned.length, skipped };
+  };
+  
+  const searchMessages = (query: string): MessageSearchResult[] => {
+    return searchIndexRef.current.search(query);
+  };
+  
   const updateConversationTitle = (id: string, newTitle: string) => {
     if (!newTitle.trim()) return; // Don't update if title is empty
     
@@ -629,12 +1396,214 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
           ? { 
               ...conv, 
               title: newTitle,
+              // Renamed titles are never replaced by generated ones
+              titleSource: 'manual',
               updatedAt: Date.now() 
             }
           : conv
       )
     );
   };
+  
+  // Set a conversation's title unless the user has named it themselves
+  const setAutomaticTitle = (conversationId: string, title: string, titleSource: 'heuristic' | 'generated') => {
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.id === conversationId && conv.titleSource !== 'manual'
+          ? { ...conv, title, titleSource }
+          : conv
+      )
+    );
+  };
+  
+  // Title a conversation after its first exchange: from the first message straight
+  // away, then, if enabled, with a model-written title in the background. Offline,
+  // without a key or with an unusable reply, the first title stays.
+  const titleConversation = (conversationId: string, userText: string, assistantText: string, answeredWith: LLMOption) => {
+    setAutomaticTitle(conversationId, createNewConversationTitle(userText), 'heuristic');
+    if (!titleSettings.enabled || !assistantText) return;
+    
+    const titleOption = llmOptions.find(option => option.name === titleSettings.model) || answeredWith;
+    if (!canGenerateTitle(titleOption)) return;
+    
+    generateConversationTitle(titleOption, userText, assistantText)
+      .then(title => {
+        if (title) setAutomaticTitle(conversationId, title, 'generated');
+      })
+      .catch(error => {
+        console.warn('[ChatContext] Title generation failed, keeping the first-message title:', error);
+      });
+  };
+  
+  const updateTitleSettings = (updates: Partial<TitleSettings>) => {
+    setTitleSettings(prev => ({ ...prev, ...updates }));
+  };
+  
+  // Save a memory unless an identical one is already stored
+  const addMemory = (content: string, source: Memory['source'] = 'explicit', conversationId?: string) => {
+    const cleaned = cleanMemory(content);
+    if (!cleaned) return;
+    
+    const now = Date.now();
+    const memory: Memory = {
+      id: generateId(),
+      content: cleaned,
+      source,
+      ...omitUndefined({ conversationId }),
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    setMemories(prevMemories => isDuplicateMemory(cleaned, prevMemories) ? prevMemories : [memory, ...prevMemories]);
+  };
+  
+  const editMemory = (id: string, updates: Partial<Pick<Memory, 'content' | 'enabled'>>) => {
+    const content = updates.content !== undefined ? cleanMemory(updates.content) : undefined;
+    if (content === '') return; // Delete rather than blank out
+    
+    setMemories(prevMemories =>
+      prevMemories.map(memory =>
+        memory.id === id
+          ? { ...memory, ...updates, ...omitUndefined({ content }), updatedAt: Date.now() }
+          : memory
+      )
+    );
+  };
+  
+  const deleteMemory = (id: string) => {
+    setMemories(prevMemories => prevMemories.filter(memory => memory.id !== id));
+  };
+  
+  const updateMemorySettings = (updates: Partial<MemorySettings>) => {
+    setMemorySettings(prev => ({ ...prev, ...updates }));
+  };
+  
+  // A system prompt with the memories relevant to the latest user message added
+  const withMemories = (systemPrompt: string, messages: Message[]): string => {
+    if (!memorySettings.enabled) return systemPrompt;
+    
+    const query = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const relevant = selectRelevantMemories(memories.filter(memory => memory.enabled), query);
+    return buildMemoryPrompt(systemPrompt, relevant);
+  };
+  
+  // Chunk, index and save a document, embedding it too when an embedding model is chosen
+  const addDocument = async (source: DocumentSource, target: { conversationId?: string; personaId?: string }) => {
+    const embeddingOption = llmOptions.find(option => option.name === knowledgeSettings.embeddingModel);
+    const document = await indexDocument(source, target, embeddingOption);
+    if (!await saveToStorage(`${DOCUMENT_KEY_PREFIX}${document.id}`, document)) {
+      throw new Error(`Couldn't save ${source.name}: there isn't enough storage space left. Remove some documents and try again.`);
+    }
+    setDocuments(prevDocuments => [...prevDocuments, document]);
+    return document;
+  };
+  
+  const removeDocument = (id: string) => {
+    setDocuments(prevDocuments => prevDocuments.filter(document => document.id !== id));
+  };
+  
+  const updateKnowledgeSettings = (updates: Partial<KnowledgeSettings>) => {
+    setKnowledgeSettings(prev => ({ ...prev, ...updates }));
+  };
+  
+  // Passages from the documents of a conversation and its persona that match the
+  // latest messages. If the query can't be embedded, keyword search still runs.
+  const retrieveKnowledge = async (conversation: Conversation, messages: Message[]): Promise<RetrievedPassage[]> => {
+    const persona = getConversationPersona(conversation);
+    const attached = documents.filter(document =>
+      document.conversationId === conversation.id || (!!persona && document.personaId === persona.id)
+    );
+    if (attached.length === 0) return [];
+    
+    const query = getRetrievalQuery(messages);
+    const embeddingOption = llmOptions.find(option => option.name === knowledgeSettings.embeddingModel);
+    let queryEmbedding: { model: LLMModel; vector: number[] } | null = null;
+    
+    if (embeddingOption && attached.some(document => document.embeddingModel === embeddingOption.name)) {
+      try {
+        const vector = await embedQuery(embeddingOption, query);
+        if (vector) queryEmbedding = { model: embeddingOption.name, vector };
+      } catch (error) {
+        console.warn('[ChatContext] Couldn\'t embed the query, searching documents by keyword only:', error);
+      }
+    }
+    
+    return retrievePassages(attached, query, queryEmbedding);
+  };
+  
+  // Citations for an answer, left unset when it cites nothing
+  const getMessageCitations = (passages: RetrievedPassage[], text: string) => {
+    const citations = getCitations(passages, text);
+    return citations.length > 0 ? citations : undefined;
+  };
+  
+  // What tools called from a conversation can see and do
+  const createToolContext = (conversationId: string): ToolContext => ({
+    conversations,
+    conversationId,
+    remember: memorySettings.enabled ? content => addMemory(content, 'explicit', conversationId) : undefined,
+  });
+  
+  // Scan the part of a conversation not scanned yet for new memories. Runs in the
+  // background as the user moves on to another conversation; a failure just
+  // leaves the messages to be scanned next time.
+  const extractConversationMemories = (conversationId: string | null) => {
+    if (!memorySettings.enabled || !memorySettings.autoExtract || !conversationId) return;
+    
+    const conversation = conversations.find(conv => conv.id === conversationId);
+    if (!conversation) return;
+    
+    const branch = getActiveBranch(conversation);
+    const lastMessage = branch[branch.length - 1];
+    if (!lastMessage || lastMessage.isLoading || lastMessage.id === conversation.memoryExtractedThroughId) return;
+    
+    // A branch switched to since the last scan is scanned whole; duplicates are dropped
+    const scannedIndex = branch.findIndex(message => message.id === conversation.memoryExtractedThroughId);
+    const newMessages = branch.slice(scannedIndex + 1);
+    if (!newMessages.some(message => message.role === 'user')) return;
+    
+    const llmOption = llmOptions.find(option => option.name === getGenerationSettings(conversation).model);
+    if (!llmOption || !canExtractMemories(llmOption)) return;
+    
+    extractMemories(llmOption, newMessages, memories)
+      .then(extracted => {
+        extracted.forEach(content => addMemory(content, 'extracted', conversationId));
+        setConversations(prevConversations =>
+          prevConversations.map(conv =>
+            conv.id === conversationId ? { ...conv, memoryExtractedThroughId: lastMessage.id } : conv
+          )
+        );
+      })
+      .catch(error => {
+        console.warn('[ChatContext] Memory extraction failed:', error);
+      });
+  };
+
+  // Choose how a conversation's history is trimmed once it outgrows the context window
+  const setContextStrategy = (conversationId: string, strategy: ContextStrategy) => {
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.id === conversationId ? { ...conv, contextStrategy: strategy } : conv
+      )
+    );
+  };
+
+  // Pin or unpin a message so the 'pinned' strategy always sends it
+  const toggleMessagePin = (conversationId: string, messageId: string) => {
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.id === conversationId
+          ? {
+              ...conv,
+              messages: conv.messages.map(msg =>
+                msg.id === messageId ? { ...msg, isPinned: !msg.isPinned } : msg
+              ),
+            }
+          : conv
+      )
+    );
+  };
 
   // Update stopMessageGeneration to abort the request
   const stopMessageGeneration = () => {
@@ -654,6 +1623,211 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
     
     setIsLoading(false);
   };
+  
+  // Apply partial updates to one column of a comparison, if it's still the current one
+  const updateComparisonColumn = (comparisonId: string, model: LLMModel, updates: Partial<ComparisonColumn>) => {
+    setComparison(prev =>
+      prev && prev.id === comparisonId
+        ? { ...prev, columns: prev.columns.map(column => column.model === model ? { ...column, ...updates } : column) }
+        : prev
+    );
+  };
+  
+  // Generate one model's answer for a comparison. Mirrors sendMessage, except that the
+  // running summary is used as is rather than brought up to date.
+  const runComparisonColumn = async (
+    comparisonId: string,
+    conversation: Conversation,
+    userMessage: Message,
+    model: LLMModel
+  ) => {
+    const abortController = new AbortController();
+    comparisonAbortControllersRef.current.set(model, abortController);
+    
+    let streamedText = '';
+    let toolParts: ChatContentPart[] | undefined;
+    let lastStreamUpdate = 0;
+    let recordUsage: ((text: string, response?: { model: string; usage?: TokenUsage }) => MessageUsage) | null = null;
+    let passages: RetrievedPassage[] = [];
+    
+    // Keep whatever was generated before a stop
+    const finishStopped = () => {
+      updateComparisonColumn(comparisonId, model, {
+        content: streamedText.trim(),
+        parts: toolParts,
+        isLoading: false,
+        usage: streamedText && recordUsage ? recordUsage(streamedText) : undefined,
+        citations: getMessageCitations(passages, streamedText),
+      });
+    };
+    
+    try {
+      const settings = { ...getGenerationSettings(conversation), model };
+      const llmOption = llmOptions.find(option => option.name === model);
+      if (!llmOption) {
+        throw new LLMError('bad_request', `Model not found: ${model}`);
+      }
+      const branch = [...getActiveBranch(conversation), userMessage];
+      passages = await retrieveKnowledge(conversation, branch);
+      const systemPrompt = buildKnowledgePrompt(withMemories(settings.systemPrompt, branch), passages);
+      
+      const plan = planContextWindow({
+        messages: getSendableMessages(branch),
+        strategy: conversation.contextStrategy || 'truncate',
+        budgetTokens: getHistoryBudget(llmOption, systemPrompt, settings.maxTokens),
+        summary: conversation.summary,
+      });
+      const history = buildRequestHistory(plan.messages, plan.summary?.text);
+      
+      const requestStartedAt = Date.now();
+      recordUsage = (text, response) => createMessageUsage({
+        llmOption,
+        history,
+        systemPrompt,
+        startedAt: requestStartedAt,
+        text,
+        model: response?.model,
+        reported: response?.usage,
+      });
+      
+      const response = await callLLM({
+        llmOption,
+        messages: history,
+        systemPrompt,
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        topP: settings.topP,
+        abortController,
+        tools: settings.toolsEnabled ? getTools() : undefined,
+        toolContext: createToolContext(conversation.id),
+        onToolUpdate: (parts) => {
+          toolParts = parts;
+          updateComparisonColumn(comparisonId, model, { parts });
+        },
+        onToken: (_delta, fullText) => {
+          streamedText = fullText;
+          
+          const now = Date.now();
+          if (now - lastStreamUpdate < STREAM_UPDATE_INTERVAL_MS) return;
+          lastStreamUpdate = now;
+          
+          updateComparisonColumn(comparisonId, model, { content: fullText });
+        }
+      });
+      
+      if (abortController.signal.aborted) {
+        finishStopped();
+        return;
+      }
+      
+      const responseText = (response.text || streamedText).trim();
+      updateComparisonColumn(comparisonId, model, {
+        content: responseText,
+        parts: response.toolParts,
+        isLoading: false,
+        usage: recordUsage(responseText, response),
+        citations: getMessageCitations(passages, responseText),
+      });
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        finishStopped();
+        return;
+      }
+      
+      console.error(`[ChatContext] Comparison with ${model} failed:`, error);
+      updateComparisonColumn(comparisonId, model, {
+        content: '',
+        isLoading: false,
+        isError: true,
+        errorKind: getErrorKind(error),
+      });
+    } finally {
+      if (comparisonAbortControllersRef.current.get(model) === abortController) {
+        comparisonAbortControllersRef.current.delete(model);
+      }
+    }
+  };
+  
+  // Send one prompt to several models at once, each in its own column
+  const startComparison = (content: string, models: LLMModel[], images: ImageContentPart[] = []) => {
+    if ((!content.trim() && images.length === 0) || models.length === 0) return;
+    
+    const conversation = conversations.find(conv => conv.id === currentConversationId);
+    if (!conversation) return;
+    
+    // Only one comparison runs at a time
+    stopComparison();
+    
+    const comparisonId = generateId();
+    setComparison({
+      id: comparisonId,
+      conversationId: conversation.id,
+      prompt: content,
+      images: images.length > 0 ? images : undefined,
+      columns: models.map(model => ({ model, content: '', isLoading: true })),
+    });
+    
+    const userMessage = createUserMessage(content, images);
+    models.forEach(model => runComparisonColumn(comparisonId, conversation, userMessage, model));
+  };
+  
+  // Stop one comparison column, or all of them
+  const stopComparison = (model?: LLMModel) => {
+    const controllers = comparisonAbortControllersRef.current;
+    for (const [columnModel, controller] of Array.from(controllers.entries())) {
+      if (model && columnModel !== model) continue;
+      controller.abort();
+      controllers.delete(columnModel);
+    }
+  };
+  
+  // Continue the conversation from one of the compared answers
+  const adoptComparisonAnswer = (model: LLMModel) => {
+    const column = comparison?.columns.find(col => col.model === model);
+    if (!comparison || !column || column.isLoading || column.isError) return;
+    
+    const userMessage = createUserMessage(comparison.prompt, comparison.images || []);
+    const assistantMessage: Message = {
+      id: generateId(),
+      role: 'assistant',
+      content: column.content,
+      timestamp: new Date().toISOString(),
+      parts: column.parts,
+      usage: column.usage,
+      citations: column.citations,
+    };
+    
+    setConversations(prevConversations =>
+      prevConversations.map(conv =>
+        conv.id === comparison.conversationId
+          ? {
+              ...appendToBranch(conv, [userMessage, assistantMessage]),
+              updatedAt: new Date().toISOString(),
+            }
+          : conv
+      )
+    );
+    
+    const conversation = conversations.find(conv => conv.id === comparison.conversationId);
+    const adoptedOption = llmOptions.find(option => option.name === model);
+    if (conversation?.messages.length === 0 && adoptedOption) {
+      titleConversation(comparison.conversationId, userMessage.content, column.content, adoptedOption);
+    }
+    
+    // Later turns go to the model whose answer was picked
+    if (getGenerationSettings(conversation).model !== model) {
+      updateConversationSettings(comparison.conversationId, { model });
+    }
+    
+    stopComparison();
+    setComparison(null);
+  };
+  
+  // Close the comparison without adding anything to the conversation
+  const dismissComparison = () => {
+    stopComparison();
+    setComparison(null);
+  };
 
   return (
     <ChatContext.Provider
@@ -677,11 +1851,63 @@ export const ChatProvider: React.FC<{children: React.ReactNode}> = ({ children }
         deleteConversation,
         clearConversations,
         updateConversationTitle,
+        organizeConversation,
+        folders,
+        addFolder,
+        renameFolder,
+        deleteFolder,
+        tags,
+        addTag,
+        editTag,
+        deleteTag,
+        importConversations,
+        searchMessages,
+        setContextStrategy,
+        generationDefaults,
+        updateGenerationDefaults,
+        updateConversationSettings,
+        getGenerationSettings,
+        personas,
+        addPersona,
+        editPersona,
+        deletePersona,
+        setConversationPersona,
+        getConversationPersona,
+        templates,
+        addTemplate,
+        editTemplate,
+        deleteTemplate,
+        importTemplates,
+        toggleMessagePin,
         stopMessageGeneration,
+        regenerateMessage,
+        switchBranch,
+        editMessage,
+        keepEditedBranches,
+        setKeepEditedBranches,
+        titleSettings,
+        updateTitleSettings,
+        memories,
+        addMemory,
+        editMemory,
+        deleteMemory,
+        memorySettings,
+        updateMemorySettings,
+        documents,
+        addDocument,
+        removeDocument,
+        knowledgeSettings,
+        updateKnowledgeSettings,
+        comparison,
+        startComparison,
+        stopComparison,
+        adoptComparisonAnswer,
+        dismissComparison,
         setLLM,
         addLLMOption,
         editLLMOption,
         deleteLLMOption,
+        refreshModels,
         login,
         logout,
         toggleTTS,
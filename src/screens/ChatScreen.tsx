@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { View, StyleSheet, FlatList, Text, TouchableOpacity, useWindowDimensions, Animated, Easing, Platform, Image, Modal as RNModal, ScrollView, TextInput as RNTextInput, Dimensions, Pressable, Switch, TouchableWithoutFeedback, ActivityIndicator, Alert } from 'react-native';
 import { IconButton, Menu, Button, Avatar, Divider, Modal, Portal, TextInput } from 'react-native-paper';
 import { useChat } from '../context/ChatContext';
@@ -8,13 +8,27 @@ import ChatInput from '../components/ChatInput';
 import LoadingAnimation from '../components/LoadingAnimation';
 import ConversationList from '../components/ConversationList';
 import Settings from '../components/Settings';
-import { LLMModel, LLMOption } from '../types';
+import ContextStrategyPicker from '../components/ContextStrategyPicker';
+import GenerationSettingsForm from '../components/GenerationSettingsForm';
+import PersonaPicker from '../components/PersonaPicker';
+import DocumentList from '../components/DocumentList';
+import CompareView from '../components/CompareView';
+import CompareModelPicker from '../components/CompareModelPicker';
+import { getHistoryBudget, planContextWindow } from '../utils/contextWindow';
+import { getSendableMessages } from '../utils/helpers';
+import { getActiveBranch } from '../utils/messageTree';
+import { getConversationUsage } from '../utils/usage';
+import { formatCost } from '../utils/pricing';
+import { formatTokenCount } from '../utils/tokens';
+import { LLMModel, LLMOption, Message as ConversationMessage, MessageSearchResult } from '../types';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const EXPANDED_WIDTH = 300;
 const COLLAPSED_WIDTH = 60;
 const ANIMATION_DURATION = 300; // Slightly longer for a smoother animation
+// How long a message opened from search stays highlighted
+const FOCUS_FLASH_DURATION = 2000;
 
 // Define refined dark mode colors for a more aesthetically pleasing experience
 const darkTheme = {
@@ -132,7 +146,6 @@ const SettingsPanel = (props: SettingsPanelProps) => {
   const [showGoogleKey, setShowGoogleKey] = useState(false);
   const [showMistralKey, setShowMistralKey] = useState(false);
   const [keysSaved, setKeysSaved] = useState(false);
-  const [systemPrompt, setSystemPrompt] = useState('You are a helpful assistant named bubl.');
   
   // Add state for LLM management
   const [editingLLM, setEditingLLM] = useState<LLMOption | null>(null);
@@ -149,12 +162,10 @@ const SettingsPanel = (props: SettingsPanelProps) => {
         const savedOpenaiKey = await AsyncStorage.getItem('openaiApiKey');
         const savedAnthropicKey = await AsyncStorage.getItem('anthropicApiKey');
         const savedMistralKey = await AsyncStorage.getItem('mistralApiKey');
-        const savedSystemPrompt = await AsyncStorage.getItem('systemPrompt');
         
         if (savedOpenaiKey) setOpenaiKey(savedOpenaiKey);
         if (savedAnthropicKey) setAnthropicKey(savedAnthropicKey);
         if (savedMistralKey) setMistralKey(savedMistralKey);
-        if (savedSystemPrompt) setSystemPrompt(savedSystemPrompt);
       } catch (error) {
         console.error('Failed to load API keys:', error);
       }
@@ -163,13 +174,12 @@ const SettingsPanel = (props: SettingsPanelProps) => {
     loadApiKeys();
   }, []);
   
-  // Update the saveApiKeys function to save both API keys and system prompt to AsyncStorage
+  // Save the API keys to AsyncStorage
   const saveApiKeys = () => {
     try {
       AsyncStorage.setItem('openaiApiKey', openaiKey);
       AsyncStorage.setItem('anthropicApiKey', anthropicKey);
       AsyncStorage.setItem('mistralApiKey', mistralKey);
-      AsyncStorage.setItem('systemPrompt', systemPrompt);
       
       // Show success message
       setKeysSaved(true);
@@ -695,10 +705,17 @@ const ChatScreen: React.FC = () => {
     logout,
     sendMessage,
     switchConversation,
+    switchBranch,
     deleteConversation,
     clearConversations,
     isTTSEnabled,
     toggleTTS,
+    generationDefaults,
+    personas,
+    getGenerationSettings,
+    updateConversationSettings,
+    comparison,
+    dismissComparison,
   } = useChat();
   
   // Use the context LLM value directly without a local default
@@ -775,21 +792,6 @@ const ChatScreen: React.FC = () => {
     }
   }, [settingsVisible, activeTab]);
   
-  // Handle LLM selection in the ChatScreen component
-  const handleLLMSelection = (model: LLMModel) => {
-    console.log(`[LLM] Selected model: ${model}`);
-    setCurrentLLM(model);
-    // Provide visual feedback by briefly highlighting the selected item
-    setSelectedItem(model);
-    
-    // Close after a short delay to provide visual feedback
-    setTimeout(() => {
-      setSelectedItem(null);
-    }, 1000);
-  };
-  
-  // Add state for tracking currently selected item (for visual feedback)
-  const [selectedItem, setSelectedItem] = useState<LLMModel | null>(null);
   
   // Log llmMenuVisible changes
   useEffect(() => {
@@ -807,6 +809,10 @@ const ChatScreen: React.FC = () => {
   
   // Create a ref for the message list to enable auto-scrolling
   const flatListRef = useRef<FlatList>(null);
+  // Message opened from search, scrolled to and flashed; auto-scrolling waits until it's done
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // The focused message already scrolled to, so it's done once per focus
+  const scrolledToFocusIdRef = useRef<string | null>(null);
   
   // Use Animated Values with useRef to avoid recreating them
   const animatedValues = useRef({
@@ -960,15 +966,129 @@ const ChatScreen: React.FC = () => {
     ? conversations.find(conv => conv.id === currentConversationId)
     : null;
   
+  // The messages on the selected branch, which are shown and sent
+  const activeMessages = useMemo(
+    () => currentConversation ? getActiveBranch(currentConversation) : [],
+    [currentConversation]
+  );
+  
+  // Model and sampling settings this conversation generates with
+  const generationSettings = useMemo(
+    () => getGenerationSettings(currentConversation),
+    [currentConversation, contextLLM, generationDefaults, personas]
+  );
+  
+  // Compare mode sends each message to several models side by side
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<LLMModel[]>([]);
+  
+  const toggleCompareMode = () => {
+    if (isCompareMode) {
+      dismissComparison();
+    } else if (compareModels.length === 0) {
+      // Start from the model the conversation already uses
+      setCompareModels([generationSettings.model]);
+    }
+    setIsCompareMode(!isCompareMode);
+  };
+  
+  // Only the conversation the comparison was started in shows it
+  const visibleComparison = comparison && comparison.conversationId === currentConversationId ? comparison : null;
+  
+  // Drop every override so the conversation follows the global defaults again
+  const resetConversationSettings = () => {
+    if (!currentConversation) return;
+    updateConversationSettings(currentConversation.id, {
+      model: undefined,
+      systemPrompt: undefined,
+      temperature: undefined,
+      maxTokens: undefined,
+      topP: undefined,
+    });
+  };
+  
+  // Work out which messages the next request will send under the conversation's context strategy
+  const contextPlan = useMemo(() => {
+    const llmOption = llmOptions.find(option => option.name === generationSettings.model);
+    if (!currentConversation || !llmOption) return undefined;
+    
+    return planContextWindow({
+      messages: getSendableMessages(activeMessages),
+      strategy: currentConversation.contextStrategy || 'truncate',
+      budgetTokens: getHistoryBudget(llmOption, generationSettings.systemPrompt, generationSettings.maxTokens),
+      summary: currentConversation.summary,
+    });
+  }, [currentConversation, activeMessages, llmOptions, generationSettings]);
+  
+  const omittedMessageIds = useMemo(
+    () => new Set(contextPlan?.omitted.map(msg => msg.id) || []),
+    [contextPlan]
+  );
+  
+  // Tokens and spend so far in this conversation, shown under the title
+  const conversationUsage = useMemo(
+    () => currentConversation ? getConversationUsage(currentConversation) : undefined,
+    [currentConversation]
+  );
+  
+  // Whether a message is left out of the next request, or only sent through the running summary
+  const getContextStatus = (message: ConversationMessage): 'omitted' | 'summarized' | undefined => {
+    if (!contextPlan || !omittedMessageIds.has(message.id)) return undefined;
+    return contextPlan.summary && !contextPlan.toSummarize.includes(message) ? 'summarized' : 'omitted';
+  };
+  
+  // Show a message picked from search: open its conversation and, if it's on
+  // another branch, that branch
+  const openSearchResult = (result: MessageSearchResult) => {
+    const conversation = conversations.find(conv => conv.id === result.conversationId);
+    if (!conversation) return;
+    
+    switchConversation(conversation.id);
+    if (!getActiveBranch(conversation).some(message => message.id === result.messageId)) {
+      switchBranch(conversation.id, result.messageId);
+    }
+    setFocusedMessageId(result.messageId);
+    
+    if (dimensions.width <= 768) {
+      setShowSidebar(false);
+    }
+  };
+  
+  // Scroll to the focused message once it's in the list. Only once per focus, so
+  // a reply streaming in doesn't keep pulling the view back to it.
+  useEffect(() => {
+    if (!focusedMessageId) {
+      scrolledToFocusIdRef.current = null;
+      return;
+    }
+    if (scrolledToFocusIdRef.current === focusedMessageId) return;
+    const index = activeMessages.findIndex(message => message.id === focusedMessageId);
+    if (index === -1) return;
+    
+    scrolledToFocusIdRef.current = focusedMessageId;
+    // Wait for the list to lay out the conversation that was just opened
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 });
+    }, 150);
+  }, [focusedMessageId, activeMessages]);
+  
+  // Let the flash fade; timed from when the message was focused, whatever the list does meanwhile
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    const clearTimer = setTimeout(() => setFocusedMessageId(null), FOCUS_FLASH_DURATION);
+    return () => clearTimeout(clearTimer);
+  }, [focusedMessageId]);
+  
   // Auto-scroll to the bottom when new messages are added
   useEffect(() => {
-    if (currentConversation?.messages.length && flatListRef.current) {
+    if (focusedMessageId) return;
+    if (activeMessages.length && flatListRef.current) {
       // Use a small timeout to ensure the layout is complete before scrolling
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
-  }, [currentConversation?.messages.length]);
+  }, [activeMessages.length]);
   
   const toggleCollapse = () => {
     // We'll only use the isCollapsed state to control the animation
@@ -1031,7 +1151,7 @@ const ChatScreen: React.FC = () => {
               }
             ]}
           >
-            <ConversationList isCollapsed={isCollapsed} />
+            <ConversationList isCollapsed={isCollapsed} onOpenSearchResult={openSearchResult} />
             {dimensions.width <= 768 && (
               <IconButton
                 icon="close"
@@ -1469,7 +1589,7 @@ const ChatScreen: React.FC = () => {
     
     Animated.parallel([
       Animated.timing(optionsHeight, {
-        toValue: titleOptionsVisible ? 0 : 160,
+        toValue: titleOptionsVisible ? 0 : 420,
         duration: 300,
         easing: Easing.inOut(Easing.cubic),
         useNativeDriver: false,
@@ -1736,12 +1856,47 @@ const ChatScreen: React.FC = () => {
                         />
                       </TouchableOpacity>
                       
+                      <TouchableOpacity
+                        onPress={toggleCompareMode}
+                        style={styles.editTitleButton}
+                        accessibilityLabel="Compare models"
+                      >
+                        <Ionicons
+                          name="git-compare-outline"
+                          size={18}
+                          color={isCompareMode ? '#54C6EB' : (isDark ? '#9ca3af' : '#6b7280')}
+                        />
+                      </TouchableOpacity>
+                      
+                      <TouchableOpacity
+                        onPress={toggleTitleOptions}
+                        style={styles.editTitleButton}
+                      >
+                        <Ionicons
+                          name="options-outline"
+                          size={18}
+                          color={titleOptionsVisible ? '#54C6EB' : (isDark ? '#9ca3af' : '#6b7280')}
+                        />
+                      </TouchableOpacity>
+                      
                       {/* TTS Button */}
                       <TTSButton />
                     </View>
                   )}
                 </View>
                 
+                {conversationUsage && conversationUsage.responseCount > 0 && (
+                  <Text style={[
+                    styles.conversationUsage,
+                    { color: isDark ? darkTheme.textTertiary : '#6b7280' }
+                  ]}>
+                    {formatTokenCount(conversationUsage.inputTokens + conversationUsage.outputTokens)} tokens
+                    {' · '}
+                    {formatCost(conversationUsage.costUsd)}
+                    {conversationUsage.unpricedCount > 0 ? ' (some models unpriced)' : ''}
+                  </Text>
+                )}
+                
                 <Animated.View 
                   style={[
                     styles.optionsContainer,
@@ -1755,58 +1910,36 @@ const ChatScreen: React.FC = () => {
                     }
                   ]}
                 >
+                  <ScrollView>
                   <View style={styles.optionSection}>
-                    <Text style={[styles.optionSectionTitle, { color: isDark ? darkTheme.text : '#54C6EB' }]}>Model</Text>
-                    <View style={styles.modelOptions}>
-                      <TouchableOpacity 
-                        style={[
-                          styles.modelOption, 
-                          isDark && { 
-                            backgroundColor: darkTheme.surface,
-                            borderColor: darkTheme.borderLight,
-                          },
-                          selectedItem === 'Claude 3 Opus' ? { backgroundColor: '#54C6EB20' } : {}
-                        ]}
-                        onPress={() => handleLLMSelection('Claude 3 Opus')}
-                        activeOpacity={0.7}
-                      >
-                        <Text style={[styles.modelOptionText, styles.activeModelOptionText]}>Claude 3 Opus</Text>
-                      </TouchableOpacity>
-                      <TouchableOpacity 
-                        style={[
-                          styles.modelOption,
-                          isDark && { 
-                            backgroundColor: darkTheme.surface,
-                            borderColor: darkTheme.borderLight,
-                          },
-                          selectedItem === 'Claude 3 Sonnet' ? { backgroundColor: '#54C6EB20' } : {}
-                        ]}
-                        onPress={() => handleLLMSelection('Claude 3 Sonnet')}
-                        activeOpacity={0.7}
-                      >
-                        <Text style={[
-                          styles.modelOptionText,
-                          isDark && { color: darkTheme.textSecondary }
-                        ]}>Claude 3 Sonnet</Text>
-                      </TouchableOpacity>
-                      <TouchableOpacity 
-                        style={[
-                          styles.modelOption,
-                          isDark && { 
-                            backgroundColor: darkTheme.surface,
-                            borderColor: darkTheme.borderLight,
-                          },
-                          selectedItem === 'Claude 3 Haiku' ? { backgroundColor: '#54C6EB20' } : {}
-                        ]}
-                        onPress={() => handleLLMSelection('Claude 3 Haiku')}
-                        activeOpacity={0.7}
-                      >
-                        <Text style={[
-                          styles.modelOptionText,
-                          isDark && { color: darkTheme.textSecondary }
-                        ]}>Claude 3 Haiku</Text>
-                      </TouchableOpacity>
-                    </View>
+                    <Text style={[styles.optionSectionTitle, { color: isDark ? darkTheme.text : '#54C6EB' }]}>Persona</Text>
+                    <PersonaPicker
+                      conversation={currentConversation}
+                      isDarkMode={isDark}
+                      darkThemeColors={darkTheme}
+                    />
+                  </View>
+                  
+                  <View style={styles.optionSection}>
+                    <Text style={[styles.optionSectionTitle, { color: isDark ? darkTheme.text : '#54C6EB' }]}>Documents</Text>
+                    <Text style={[styles.optionDescription, { color: isDark ? darkTheme.textTertiary : '#6b7280' }]}>
+                      Passages from these, and from the persona's documents, are given to the model with each message
+                    </Text>
+                    <DocumentList
+                      target={{ conversationId: currentConversation.id }}
+                      isDarkMode={isDark}
+                    />
+                  </View>
+                  
+                  <View style={styles.optionSection}>
+                    <Text style={[styles.optionSectionTitle, { color: isDark ? darkTheme.text : '#54C6EB' }]}>Generation</Text>
+                    <GenerationSettingsForm
+                      settings={generationSettings}
+                      onChange={(updates) => updateConversationSettings(currentConversation.id, updates)}
+                      modelOptions={llmOptions}
+                      onReset={Object.keys(currentConversation.settings || {}).length > 0 ? resetConversationSettings : undefined}
+                      isDarkMode={isDark}
+                    />
                   </View>
                   
                   <View style={styles.optionSection}>
@@ -1823,10 +1956,21 @@ const ChatScreen: React.FC = () => {
                       Messages in private mode won't be saved to history
                     </Text>
                   </View>
+                  
+                  <View style={styles.optionSection}>
+                    <Text style={[styles.optionSectionTitle, { color: isDark ? darkTheme.text : '#54C6EB' }]}>Context</Text>
+                    <ContextStrategyPicker
+                      conversation={currentConversation}
+                      plan={contextPlan}
+                      isDarkMode={isDark}
+                      darkThemeColors={darkTheme}
+                    />
+                  </View>
+                  </ScrollView>
                 </Animated.View>
               </View>
               
-              {currentConversation.messages.length === 0 && !isLoading ? (
+              {activeMessages.length === 0 && !isLoading ? (
                 <View style={[
                   styles.emptyStateContainer,
                   isDark && { 
@@ -1846,19 +1990,28 @@ const ChatScreen: React.FC = () => {
                   ]}>
                     Send a message to start a conversation with bubl.
                   </Text>
+                  {personas.length > 0 && (
+                    <View style={styles.emptyStatePersonas}>
+                      <PersonaPicker
+                        conversation={currentConversation}
+                        isDarkMode={isDark}
+                        darkThemeColors={darkTheme}
+                      />
+                    </View>
+                  )}
                 </View>
               ) : (
                 <FlatList
                   ref={flatListRef}
-                  data={currentConversation.messages}
+                  data={activeMessages}
                   keyExtractor={(item) => item.id}
                   renderItem={({ item, index }) => {
                     // Find the latest AI message
-                    const latestAIMessageIndex = [...currentConversation.messages]
+                    const latestAIMessageIndex = [...activeMessages]
                       .reverse()
                       .findIndex(msg => msg.role === 'assistant');
                     
-                    const reversedIndex = currentConversation.messages.length - 1 - index;
+                    const reversedIndex = activeMessages.length - 1 - index;
                     const isLatestAIMessage = latestAIMessageIndex === reversedIndex && item.role === 'assistant';
                     
                     return (
@@ -1867,6 +2020,8 @@ const ChatScreen: React.FC = () => {
                       isDarkMode={isDark}
                       darkThemeColors={darkTheme}
                         isLatestAIMessage={isLatestAIMessage}
+                      contextStatus={getContextStatus(item)}
+                      isFocused={item.id === focusedMessageId}
                     />
                     );
                   }}
@@ -1877,10 +2032,24 @@ const ChatScreen: React.FC = () => {
                     }
                   ]}
                   ListHeaderComponent={<View style={styles.messagesListHeaderSpacer} />}
-                  onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
+                  onContentSizeChange={() => !focusedMessageId && flatListRef.current?.scrollToEnd({ animated: true })}
+                  onScrollToIndexFailed={(info) => {
+                    // Rows further up haven't been measured yet; get close, then try again
+                    flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+                    setTimeout(() => {
+                      flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.3 });
+                    }, 100);
+                  }}
                 />
               )}
               {isLoading && <LoadingAnimation />}
+              {visibleComparison && (
+                <CompareView
+                  comparison={visibleComparison}
+                  isDarkMode={isDark}
+                  darkThemeColors={darkTheme}
+                />
+              )}
             </View>
             
             <View style={[
@@ -1891,9 +2060,20 @@ const ChatScreen: React.FC = () => {
                 borderTopColor: darkTheme.border,
               }
             ]}>
+              {isCompareMode && (
+                <View style={styles.comparePickerContainer}>
+                  <CompareModelPicker
+                    selected={compareModels}
+                    onChange={setCompareModels}
+                    isDarkMode={isDark}
+                    darkThemeColors={darkTheme}
+                  />
+                </View>
+              )}
               <ChatInput 
                 isDarkMode={isDark}
                 darkThemeColors={darkTheme}
+                compareModels={isCompareMode ? compareModels : undefined}
               />
             </View>
           </View>
@@ -1921,7 +2101,7 @@ const ChatScreen: React.FC = () => {
                   shadowOpacity: 0.3,
                 }
               ]}
-              onPress={createNewConversation}
+              onPress={() => createNewConversation()}
             >
               <Text style={[
                 styles.welcomeButtonText,
@@ -2379,6 +2559,14 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  emptyStatePersonas: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  conversationUsage: {
+    fontSize: 12,
+    marginTop: 4,
+  },
   chatTitle: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -2560,6 +2748,10 @@ const styles = StyleSheet.create({
   messageInputContainer: {
     padding: 16,
   },
+  // Lines the model chips up with the input below
+  comparePickerContainer: {
+    paddingHorizontal: 160,
+  },
   tabDivider: {
     height: 1,
     backgroundColor: '#e5e7eb',
@@ -1,29 +1,413 @@
+// Categories of LLM call failure, stored on errored messages
+export type LLMErrorKind =
+  | 'auth'
+  | 'rate_limited'
+  | 'overloaded'
+  | 'context_length'
+  | 'network'
+  | 'blocked'
+  | 'bad_request'
+  | 'unsupported_input'
+  // Replay mode has no recorded response for the request
+  | 'missing_fixture'
+  | 'unknown';
+
+// Token counts reported by a provider (or estimated locally when it doesn't)
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// What generating an assistant message cost
+export interface MessageUsage extends TokenUsage {
+  latencyMs: number;
+  // Model ID the provider reports having used, e.g. a dated snapshot
+  modelId: string;
+  providerId: string;
+  // Unset when there's no price on file for the model
+  costUsd?: number;
+  // Counts came from the local estimator because the provider sent none
+  isEstimated?: boolean;
+}
+
 export interface Message {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: number | string;
+  // The message this one follows, or null for the first message. Messages with the
+  // same parent are alternative versions, e.g. a regenerated answer.
+  parentId?: string | null;
   isLoading?: boolean;
   isError?: boolean;
+  // What went wrong when isError is set, so the UI can explain it
+  errorKind?: LLMErrorKind;
+  // Pinned messages are always sent when the 'pinned' context strategy trims history
+  isPinned?: boolean;
+  // Set on assistant messages once the response completes or is stopped
+  usage?: MessageUsage;
+  // Full content when the message has more than text (images, or the tool calls
+  // and results behind an answer); content still holds the text for previews,
+  // titles and speech
+  parts?: ChatContentPart[];
+  // Document passages the answer cites, by the numbers used in its text
+  citations?: Citation[];
+  // Set on user messages sent from a template with its own model or temperature;
+  // the replies to the message use these over the conversation's settings
+  overrides?: MessageOverrides;
+  // Model an imported answer came from, as the other app named it; answers
+  // generated here record theirs in usage
+  model?: string;
+}
+
+// Settings that one message can override for its own replies
+export type MessageOverrides = Partial<Pick<GenerationSettings, 'model' | 'temperature'>>;
+
+// A passage from a knowledge document that an answer cites as [number]
+export interface Citation {
+  number: number;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  // Position of the passage in its document, from 0
+  chunkIndex: number;
+  // The passage itself, kept so the citation still reads if the document is removed
+  text: string;
+}
+
+// A single piece of message content sent to a provider
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+// An image attached to a message. The base64 data is what providers receive;
+// the URI is where it came from on this device and may not survive a restart.
+export interface ImageContentPart {
+  type: 'image';
+  mimeType: string;
+  data: string;
+  uri?: string;
+}
+
+// A tool the model asked to run, with its arguments already parsed
+export interface ToolCallContentPart {
+  type: 'tool_call';
+  // Provider-assigned ID that the matching result refers back to
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// The output of running a tool call, sent back to the model
+export interface ToolResultContentPart {
+  type: 'tool_result';
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+export type ChatContentPart =
+  | TextContentPart
+  | ImageContentPart
+  | ToolCallContentPart
+  | ToolResultContentPart;
+
+// A message in the exact history handed to the provider adapters. Tool messages
+// carry the results of the tool calls in the assistant message before them.
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: ChatContentPart[];
+}
+
+// How older turns are handled once a conversation outgrows the model's context window
+export type ContextStrategy = 'truncate' | 'pinned' | 'summarize';
+
+// Running summary of the turns the 'summarize' strategy no longer sends verbatim
+export interface ConversationSummary {
+  text: string;
+  // The last message folded into the summary; everything up to it is covered
+  throughMessageId: string;
+  updatedAt: number;
+}
+
+// Sampling and prompt settings used when generating replies
+export interface GenerationSettings {
+  // Name of the LLM option to use, as in currentLLM
+  model: LLMModel;
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  // Unset leaves nucleus sampling at the provider's default
+  topP?: number;
+  // Let the model call the built-in tools on providers that support them
+  toolsEnabled: boolean;
+}
+
+// App-wide defaults; the model default is the globally selected LLM
+export type GenerationDefaults = Omit<GenerationSettings, 'model'>;
+
+// ElevenLabs voice a persona speaks with
+export interface PersonaVoice {
+  voiceId: string;
+  // Unset values fall back to the global TTS voice settings
+  stability?: number;
+  similarityBoost?: number;
+}
+
+// A named bundle of behavior, voice and avatar that a conversation can use
+export interface Persona {
+  id: string;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  // Name of the LLM option to use; unset follows the global selection
+  defaultModel?: LLMModel;
+  voice: PersonaVoice;
+  // ID of a CharacterConfig from characterUtils
+  characterId: string;
+}
+
+// A reusable prompt inserted by typing its slash command in the chat input.
+// {{name}} placeholders in the body are filled in before sending.
+export interface PromptTemplate {
+  id: string;
+  // Typed after the slash, e.g. 'summarize' for /summarize
+  command: string;
+  description?: string;
+  body: string;
+  // Overrides for the message the template sends; unset uses the conversation's settings
+  model?: LLMModel;
+  temperature?: number;
+}
+
+// Where a conversation's title came from. Manual titles are never replaced.
+export type TitleSource = 'heuristic' | 'generated' | 'manual';
+
+// Whether and with which model titles are written after the first exchange
+export interface TitleSettings {
+  enabled: boolean;
+  // Name of the LLM option to ask; unset uses the model that answered
+  model?: LLMModel;
+}
+
+// A fact or preference about the user, carried across conversations
+export interface Memory {
+  id: string;
+  content: string;
+  // Saved at the user's request, or picked out of a finished conversation
+  source: 'explicit' | 'extracted';
+  // The conversation it came from, if any
+  conversationId?: string;
+  // Disabled memories are kept but never sent to a model
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A passage of a knowledge document; the unit that is indexed and retrieved
+export interface DocumentChunk {
+  id: string;
+  // Position in the document, from 0
+  index: number;
+  text: string;
+  // Set when the document was embedded with KnowledgeDocument.embeddingModel
+  embedding?: number[];
+}
+
+// A text, Markdown or PDF document whose passages are retrieved into the prompt.
+// It belongs to either a conversation or a persona, and so to every conversation
+// using that persona.
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  kind: 'text' | 'markdown' | 'pdf';
+  conversationId?: string;
+  personaId?: string;
+  chunks: DocumentChunk[];
+  // Name of the LLM option whose provider embedded the chunks; unset means keyword search only
+  embeddingModel?: LLMModel;
+  createdAt: number;
+}
+
+export interface KnowledgeSettings {
+  // LLM option whose provider embeds documents and queries; unset uses keyword search only
+  embeddingModel?: LLMModel;
+}
+
+export interface MemorySettings {
+  // Whether memories are added to the system prompt at all
+  enabled: boolean;
+  // Whether finished conversations are scanned for new memories
+  autoExtract: boolean;
 }
 
 export interface Conversation {
   id: string;
   title: string;
+  // Unset while the conversation still has its placeholder title
+  titleSource?: TitleSource;
+  // Every message on every branch; getActiveBranch gives the selected one
   messages: Message[];
+  // Last message of the selected branch; unset means the last message added
+  currentLeafId?: string;
   createdAt: number | string;
   updatedAt: number | string;
+  // Defaults to 'truncate' when unset
+  contextStrategy?: ContextStrategy;
+  summary?: ConversationSummary;
+  // Persona whose prompt, model, voice and avatar the conversation uses
+  personaId?: string;
+  // Per-conversation overrides; anything unset falls back to the persona, then the global defaults
+  settings?: Partial<GenerationSettings>;
+  // Last message already scanned for memories
+  memoryExtractedThroughId?: string;
+  // Pinned conversations are listed first
+  isPinned?: boolean;
+  // Unset lists the conversation outside any folder
+  folderId?: string;
+  tagIds?: string[];
+  // Archived conversations are hidden from the list but kept, and still searchable
+  isArchived?: boolean;
+  // Where an imported conversation came from, so importing it again is caught
+  importSource?: ConversationImportSource;
+}
+
+// Apps whose exports conversations can be imported from
+export type ImportSourceApp = 'chatgpt' | 'claude' | 'bubl';
+
+export interface ConversationImportSource {
+  app: ImportSourceApp;
+  // The conversation's ID in that app
+  id: string;
+}
+
+// A conversation in an export that wasn't imported, and why
+export interface SkippedImport {
+  title: string;
+  reason: string;
+}
+
+// Outcome of importing conversations from an export
+export interface ConversationImportResult {
+  imported: number;
+  skipped: SkippedImport[];
+}
+
+// How a conversation is filed; changing these doesn't count as activity
+export type ConversationOrganization = Pick<Conversation, 'isPinned' | 'folderId' | 'tagIds' | 'isArchived'>;
+
+// A user-defined group of conversations in the list
+export interface ConversationFolder {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// A colored label conversations can be filtered by
+export interface ConversationTag {
+  id: string;
+  name: string;
+  // Hex color of the tag's dot
+  color: string;
 }
 
 export type LLMModel = string;
 
+// One model's answer in a side-by-side comparison
+export interface ComparisonColumn {
+  // Name of the LLM option, as in currentLLM
+  model: LLMModel;
+  content: string;
+  // Tool calls and results behind the answer, as on Message
+  parts?: ChatContentPart[];
+  isLoading: boolean;
+  isError?: boolean;
+  errorKind?: LLMErrorKind;
+  // Set once the answer completes or is stopped
+  usage?: MessageUsage;
+  citations?: Citation[];
+}
+
+// A prompt sent to several models at once. It isn't part of the conversation
+// until one of the answers is adopted.
+export interface Comparison {
+  id: string;
+  conversationId: string;
+  prompt: string;
+  images?: ImageContentPart[];
+  columns: ComparisonColumn[];
+}
+
 export interface LLMOption {
   id: string;
   name: string;
+  // Display label for the vendor; routing uses providerId
   provider: 'OpenAI' | 'Anthropic' | 'Google' | 'Mistral' | 'Other';
+  // ID of the registered provider adapter that serves this option
+  providerId: string;
+  // Model identifier sent to the provider's API
+  modelId: string;
   description?: string;
   apiKeyRequired?: boolean;
   isCustom?: boolean;
+  // Connection details for OpenAI-compatible endpoints, e.g. a local
+  // Ollama, llama.cpp or vLLM server or an internal gateway
+  baseUrl?: string;
+  authHeader?: {
+    name: string;
+    value: string;
+  };
+  // Maximum tokens (prompt plus completion) the model accepts
+  contextWindow?: number;
+  // Whether the model accepts images; unset uses the provider's capability
+  supportsVision?: boolean;
+  // Whether the model can call tools; unset uses the provider's capability
+  supportsTools?: boolean;
+  // What the provider's model list said at the last refresh: 'deprecated' models
+  // are due to be retired and 'missing' ones weren't listed at all
+  availability?: 'available' | 'deprecated' | 'missing';
+}
+
+// A span of text, from start up to but not including end
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// A message found by full-text search across conversations
+export interface MessageSearchResult {
+  conversationId: string;
+  messageId: string;
+  role: Message['role'];
+  timestamp: number | string;
+  score: number;
+  // Part of the message around the first match
+  snippet: string;
+  // Where the matching words are in the snippet
+  highlights: TextRange[];
+}
+
+// File formats conversations can be exported to
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+// What goes into an export; each format has its own
+export interface ExportOptions {
+  // The system prompt each conversation generates with
+  includeSystemPrompt: boolean;
+  // Replies that failed, shown with their error notice
+  includeErrors: boolean;
+}
+
+// Outcome of refreshing llmOptions from the providers' model lists
+export interface ModelRefreshResult {
+  added: number;
+  updated: number;
+  // Options the provider no longer lists
+  missing: number;
+  // Providers that couldn't be queried, with the reason
+  failures: { provider: string; message: string }[];
 }
 
 export interface UserProfile {
@@ -46,19 +430,92 @@ export interface ChatContextType {
   ttsVoice: string;
   currentSound: any; // Sound object from expo-av
   currentAlignmentData: any; // Alignment data for lip sync
-  createNewConversation: () => void;
+  createNewConversation: (personaId?: string) => void;
   switchConversation: (id: string) => void;
-  sendMessage: (content: string) => void;
+  sendMessage: (content: string, images?: ImageContentPart[], overrides?: MessageOverrides) => void;
   deleteConversation: (id: string) => void;
   clearConversations: () => void;
   updateConversationTitle: (id: string, newTitle: string) => void;
+  // Pin, file, tag or archive a conversation
+  organizeConversation: (id: string, updates: Partial<ConversationOrganization>) => void;
+  folders: ConversationFolder[];
+  addFolder: (name: string) => void;
+  renameFolder: (id: string, name: string) => void;
+  // Remove a folder; its conversations move back out of it
+  deleteFolder: (id: string) => void;
+  tags: ConversationTag[];
+  addTag: (name: string, color?: string) => void;
+  editTag: (id: string, updates: Partial<Omit<ConversationTag, 'id'>>) => void;
+  // Remove a tag from every conversation and the tag list
+  deleteTag: (id: string) => void;
+  // Add conversations read from an export, leaving out ones already here
+  importConversations: (imported: Conversation[]) => ConversationImportResult;
+  // Full-text search over the messages of every conversation, best matches first
+  searchMessages: (query: string) => MessageSearchResult[];
+  generationDefaults: GenerationDefaults;
+  updateGenerationDefaults: (updates: Partial<GenerationDefaults>) => void;
+  updateConversationSettings: (conversationId: string, updates: Partial<GenerationSettings>) => void;
+  getGenerationSettings: (conversation?: Conversation | null) => GenerationSettings;
+  personas: Persona[];
+  addPersona: (persona: Omit<Persona, 'id'>) => void;
+  editPersona: (id: string, updates: Partial<Omit<Persona, 'id'>>) => void;
+  deletePersona: (id: string) => void;
+  setConversationPersona: (conversationId: string, personaId: string | undefined) => void;
+  getConversationPersona: (conversation?: Conversation | null) => Persona | undefined;
+  setContextStrategy: (conversationId: string, strategy: ContextStrategy) => void;
+  toggleMessagePin: (conversationId: string, messageId: string) => void;
   setLLM: (model: LLMModel) => void;
   addLLMOption: (option: Omit<LLMOption, 'id'>) => void;
   editLLMOption: (id: string, updates: Partial<Omit<LLMOption, 'id'>>) => void;
   deleteLLMOption: (id: string) => void;
+  // Query the providers' model lists and merge them into llmOptions
+  refreshModels: () => Promise<ModelRefreshResult>;
   login: (userData: UserProfile) => Promise<void>;
   logout: () => Promise<void>;
   stopMessageGeneration: () => void;
+  // Generate another answer alongside an assistant message and select it
+  regenerateMessage: (messageId: string) => void;
+  // Select the branch a message is on, following its newest replies
+  switchBranch: (conversationId: string, messageId: string) => void;
+  // Replace a user message with an edited version and answer it again
+  editMessage: (messageId: string, content: string) => void;
+  // Whether an edit keeps the original message and its replies as a branch, or discards them
+  keepEditedBranches: boolean;
+  setKeepEditedBranches: (keep: boolean) => void;
+  titleSettings: TitleSettings;
+  updateTitleSettings: (updates: Partial<TitleSettings>) => void;
+  // The current user's memories, newest first
+  memories: Memory[];
+  addMemory: (content: string, source?: Memory['source'], conversationId?: string) => void;
+  editMemory: (id: string, updates: Partial<Pick<Memory, 'content' | 'enabled'>>) => void;
+  deleteMemory: (id: string) => void;
+  memorySettings: MemorySettings;
+  updateMemorySettings: (updates: Partial<MemorySettings>) => void;
+  // Slash command templates for the chat input
+  templates: PromptTemplate[];
+  addTemplate: (template: Omit<PromptTemplate, 'id'>) => void;
+  editTemplate: (id: string, updates: Partial<Omit<PromptTemplate, 'id'>>) => void;
+  deleteTemplate: (id: string) => void;
+  // Add imported templates, replacing existing ones with the same command
+  importTemplates: (templates: Omit<PromptTemplate, 'id'>[]) => { added: number; replaced: number };
+  documents: KnowledgeDocument[];
+  // Chunk, index and save a document for a conversation or persona
+  addDocument: (
+    source: { name: string; kind: KnowledgeDocument['kind']; text: string },
+    target: { conversationId?: string; personaId?: string }
+  ) => Promise<KnowledgeDocument>;
+  removeDocument: (id: string) => void;
+  knowledgeSettings: KnowledgeSettings;
+  updateKnowledgeSettings: (updates: Partial<KnowledgeSettings>) => void;
+  // The side-by-side comparison in progress or awaiting a pick, if any
+  comparison: Comparison | null;
+  // Send one prompt to several models in parallel without touching the conversation
+  startComparison: (content: string, models: LLMModel[], images?: ImageContentPart[]) => void;
+  // Stop one column, or every column when no model is given
+  stopComparison: (model?: LLMModel) => void;
+  // Add the prompt and the chosen answer to the conversation and continue with that model
+  adoptComparisonAnswer: (model: LLMModel) => void;
+  dismissComparison: () => void;
   toggleTTS: () => void;
   changeTTSVoice: (voiceId: string) => void;
   stopTTS: () => Promise<void>;
@@ -1,42 +1,68 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatContentPart, ChatMessage, LLMOption, TokenUsage, ToolCallContentPart } from '../types';
+import { getProvider, supportsTools, supportsVision, DiscoveredModel, LocalProviderAdapter, ProviderAdapter, ProviderRequest, ProviderResponse, ToolCallDelta } from './providers';
+import { parseToolArguments } from './providers/utils';
+import { LLMError, RetryPolicy, DEFAULT_RETRY_POLICY, classifyHttpError, getRetryDelay } from './llmErrors';
+import { runToolCall, ToolContext, ToolDefinition } from './tools';
+import { fixtureFetch, isReplaying, MissingFixtureError } from './fixtures';
 
 // Define interfaces for API responses
 interface LLMResponse {
   text: string;
   model: string;
+  // Unset if the provider didn't report usage; summed over tool rounds
+  usage?: TokenUsage;
+  // Tool calls and their results, in order; text the model wrote between
+  // rounds is joined into text. Unset when no tools were called.
+  toolParts?: ChatContentPart[];
 }
 
 // Interface for API call options
 interface APICallOptions {
-  model: string;
-  prompt: string;
+  // The option to call; its providerId selects the adapter and modelId the model
+  llmOption: LLMOption;
+  messages: ChatMessage[];
   systemPrompt?: string;
   maxTokens?: number;
   temperature?: number;
+  // Nucleus sampling; left to the provider's default when unset
+  topP?: number;
   abortController?: AbortController;
+  // Called with each streamed chunk and the text accumulated so far.
+  // When provided, the request is made with SSE streaming enabled.
+  onToken?: (delta: string, fullText: string) => void;
+  // How hard to retry rate-limited, overloaded or network failures
+  retryPolicy?: RetryPolicy;
+  // Tools the model may call; ignored for providers without tool support
+  tools?: ToolDefinition[];
+  // App state the tools may read
+  toolContext?: ToolContext;
+  // Called with the tool parts so far each time a round of tool calls finishes
+  onToolUpdate?: (toolParts: ChatContentPart[]) => void;
 }
 
+// Defaults used when a call doesn't set its own
+export const DEFAULT_SYSTEM_PROMPT = "You are a helpful assistant.";
+export const DEFAULT_MAX_TOKENS = 1000;
+export const DEFAULT_TEMPERATURE = 0.7;
+
+// Most rounds of tool calls per reply; the last round must answer in text
+const MAX_TOOL_ROUNDS = 5;
+
+// Pause between words when simulating a stream from an on-device provider
+const LOCAL_STREAM_DELAY_MS = 30;
+
+// Callback used while reading a stream
+type TokenCallback = (delta: string, fullText: string) => void;
+
 // Function to get API key with error handling
 export const getApiKey = async (provider: string): Promise<string | null> => {
   try {
-    let storageKey: string;
+    const storageKey = getProvider(provider.toLowerCase())?.apiKeyStorageKey;
     
-    switch (provider.toLowerCase()) {
-      case 'openai':
-        storageKey = 'openaiApiKey';
-        break;
-      case 'anthropic':
-        storageKey = 'anthropicApiKey';
-        break;
-      case 'google':
-        storageKey = 'googleApiKey';
-        break;
-      case 'mistral':
-        storageKey = 'mistralApiKey';
-        break;
-      default:
-        console.error(`Unknown provider: ${provider}`);
-        return null;
+    if (!storageKey) {
+      console.error(`Unknown provider: ${provider}`);
+      return null;
     }
     
     const key = await AsyncStorage.getItem(storageKey);
@@ -53,24 +79,11 @@ export const getApiKey = async (provider: string): Promise<string | null> => {
 // Function to save API key with error handling
 export const saveApiKey = async (provider: string, key: string): Promise<boolean> => {
   try {
-    let storageKey: string;
+    const storageKey = getProvider(provider.toLowerCase())?.apiKeyStorageKey;
     
-    switch (provider.toLowerCase()) {
-      case 'openai':
-        storageKey = 'openaiApiKey';
-        break;
-      case 'anthropic':
-        storageKey = 'anthropicApiKey';
-        break;
-      case 'google':
-        storageKey = 'googleApiKey';
-        break;
-      case 'mistral':
-        storageKey = 'mistralApiKey';
-        break;
-      default:
-        console.error(`Unknown provider: ${provider}`);
-        return false;
+    if (!storageKey) {
+      console.error(`Unknown provider: ${provider}`);
+      return false;
     }
     
     await AsyncStorage.setItem(storageKey, key);
@@ -82,273 +95,489 @@ export const saveApiKey = async (provider: string, key: string): Promise<boolean
   }
 };
 
-// Function to determine provider from model name
-const getProviderFromModel = (model: string): string => {
-  model = model.toLowerCase();
-  
-  if (model.includes('gpt') || model.includes('openai')) {
-    return 'openai';
-  } else if (model.includes('claude')) {
-    return 'anthropic';
-  } else if (model.includes('mistral')) {
-    return 'mistral';
-  } else if (model.includes('gemini')) {
-    return 'google';
-  } else {
-    return 'unknown';
+// Split a buffer of server-sent events into complete events and hand each one to onEvent.
+// Returns whatever trailing partial event is left in the buffer.
+const parseSSEBuffer = (
+  buffer: string,
+  onEvent: (data: string, event?: string) => void
+): string => {
+  const normalized = buffer.replace(/\r\n/g, '\n');
+  const blocks = normalized.split('\n\n');
+  const remainder = blocks.pop() || '';
+  
+  for (const block of blocks) {
+    let eventName: string | undefined;
+    const dataLines: string[] = [];
+    
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        eventName = line.substring(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.substring(5).trimStart());
+      }
+    }
+    
+    if (dataLines.length > 0) {
+      onEvent(dataLines.join('\n'), eventName);
+    }
   }
+  
+  return remainder;
 };
 
-// Get model ID for API calls based on display name
-const getModelId = (modelName: string): string => {
-  const modelMap: { [key: string]: string } = {
-    // OpenAI models
-    'gpt-4': 'gpt-4',
-    'gpt-4o': 'gpt-4o',
-    'gpt-3.5': 'gpt-3.5-turbo',
-    
-    // Anthropic models
-    'claude 3 opus': 'claude-3-opus-20240229',
-    'claude 3 sonnet': 'claude-3-sonnet-20240229',
-    'claude 3 haiku': 'claude-3-haiku-20240307',
-    
-    // Mistral models
-    'mistral tiny': 'mistral-tiny',
-    'mistral small': 'mistral-small',
-    'mistral medium': 'mistral-medium',
-    
-    // Add other models as needed
-  };
+// Read an SSE response body, calling onEvent for every complete event
+const readSSEStream = async (
+  response: Response,
+  onEvent: (data: string, event?: string) => void
+): Promise<void> => {
+  const reader = (response.body as any)?.getReader?.();
   
-  const normalizedName = modelName.toLowerCase();
-  return modelMap[normalizedName] || normalizedName;
+  // React Native's fetch doesn't expose a readable body, so fall back to
+  // parsing the whole stream once it has been received
+  if (!reader || typeof TextDecoder === 'undefined') {
+    const text = await response.text();
+    parseSSEBuffer(text + '\n\n', onEvent);
+    return;
+  }
+  
+  const decoder = new TextDecoder();
+  let buffer = '';
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer = parseSSEBuffer(buffer + decoder.decode(value, { stream: true }), onEvent);
+  }
+  
+  buffer += decoder.decode();
+  parseSSEBuffer(buffer + '\n\n', onEvent);
 };
 
-// Helper function to parse conversation history from formatted prompt
-const parseConversationHistory = (prompt: string) => {
-  const messages = [];
-  const lines = prompt.split('\n\n');
-  
-  for (const line of lines) {
-    if (line.startsWith('User:')) {
-      messages.push({
-        role: 'user',
-        content: line.substring(6).trim()
-      });
-    } else if (line.startsWith('Assistant:')) {
-      messages.push({
-        role: 'assistant',
-        content: line.substring(11).trim()
-      });
+// Build the auth headers an adapter's scheme calls for
+const getAuthHeaders = async (
+  adapter: ProviderAdapter,
+  option: LLMOption
+): Promise<Record<string, string>> => {
+  switch (adapter.auth.type) {
+    case 'bearer':
+    case 'header': {
+      const apiKey = await getApiKey(adapter.id);
+      // Replayed requests never reach the provider, so demos work without keys
+      if (!apiKey && await isReplaying()) {
+        return {};
+      }
+      if (!apiKey) {
+        throw new LLMError('auth', `API key not found for provider: ${adapter.name}`);
+      }
+      return adapter.auth.type === 'bearer'
+        ? { 'Authorization': `Bearer ${apiKey}` }
+        : { [adapter.auth.header]: apiKey };
     }
+    case 'option':
+      return option.authHeader?.name && option.authHeader.value
+        ? { [option.authHeader.name]: option.authHeader.value }
+        : {};
+    case 'none':
+      return {};
   }
+};
+
+// Pull a readable message out of an error response body
+const getErrorMessage = async (response: Response): Promise<string> => {
+  const errorText = await response.text();
   
-  // If no messages were parsed, use the entire prompt as a user message
-  if (messages.length === 0) {
-    messages.push({
-      role: 'user',
-      content: prompt
-    });
+  try {
+    const errorData = JSON.parse(errorText);
+    const message = errorData.error?.message || errorData.error || errorData.detail || errorData.message;
+    if (typeof message === 'string') return message;
+  } catch {
+    // Not every server returns JSON errors; fall back to the raw text
   }
   
-  return messages;
+  return errorText || response.statusText;
 };
 
-// Main function to call LLM APIs
-export const callLLM = async (options: APICallOptions): Promise<LLMResponse> => {
-  const { 
-    model, 
-    prompt, 
-    systemPrompt = "You are a helpful assistant.", 
-    maxTokens = 1000, 
-    temperature = 0.7,
-    abortController = new AbortController()
-  } = options;
+// Wait for the given delay, returning early if the request is aborted
+const waitForDelay = (delayMs: number, signal: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const timeout = setTimeout(resolve, delayMs);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      resolve();
+    }, { once: true });
+  });
+};
+
+// Check whether an error came from the request being aborted
+const isAbortError = (error: unknown, signal: AbortSignal): boolean => {
+  return signal.aborted || (error instanceof Error && error.name === 'AbortError');
+};
+
+// Get a response from an on-device provider, feeding it out a word at a time
+// when streaming so it behaves like a remote model
+const respondLocally = async (
+  adapter: LocalProviderAdapter,
+  request: ProviderRequest,
+  signal: AbortSignal,
+  onToken?: TokenCallback
+): Promise<ProviderResponse> => {
+  const response = await adapter.respond(request);
+  if (!request.stream || !onToken) return response;
   
-  const provider = getProviderFromModel(model);
-  const apiKey = await getApiKey(provider);
+  let text = '';
+  for (const chunk of response.text.match(/\S+\s*|\s+/g) || []) {
+    await waitForDelay(LOCAL_STREAM_DELAY_MS, signal);
+    if (signal.aborted) {
+      throw new DOMException('The request was aborted', 'AbortError');
+    }
+    text += chunk;
+    onToken(chunk, text);
+  }
   
-  if (!apiKey) {
-    throw new Error(`API key not found for provider: ${provider}`);
+  return response;
+};
+
+// Make a single request to the provider, streaming if a token callback is set
+const attemptProviderCall = async (
+  adapter: ProviderAdapter,
+  request: ProviderRequest,
+  abortController: AbortController,
+  onToken?: TokenCallback
+): Promise<ProviderResponse> => {
+  if ('respond' in adapter) {
+    return respondLocally(adapter, request, abortController.signal, onToken);
   }
   
-  const modelId = getModelId(model);
+  const httpRequest = adapter.buildRequest(request);
+  const authHeaders = await getAuthHeaders(adapter, request.option);
   
+  let response: Response;
   try {
-    let response: LLMResponse;
+    response = await fixtureFetch(httpRequest.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+        ...httpRequest.headers
+      },
+      body: JSON.stringify(httpRequest.body),
+      signal: abortController.signal // Add signal from AbortController
+    });
+  } catch (error) {
+    if (isAbortError(error, abortController.signal)) throw error;
+    if (error instanceof MissingFixtureError) throw error;
+    // fetch only rejects when the request never got a response
+    throw new LLMError('network', `Network error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  // Check if response is ok before parsing
+  if (!response.ok) {
+    const errorSource = adapter.capabilities.customEndpoint ? request.option.name : adapter.name;
+    throw classifyHttpError(response.status, await getErrorMessage(response), response.headers, errorSource);
+  }
+  
+  if (request.stream && onToken) {
+    let text = '';
+    let model = request.modelId;
+    const usage: Partial<TokenUsage> = {};
+    const toolCalls: ToolCallContentPart[] = [];
+    // Streamed tool calls, assembled by index until the stream ends
+    const partialToolCalls = new Map<number, Required<Omit<ToolCallDelta, 'index'>>>();
     
-    switch (provider) {
-      case 'openai':
-        response = await callOpenAI(apiKey, modelId, prompt, systemPrompt, maxTokens, temperature, abortController);
-        break;
-      case 'anthropic':
-        response = await callAnthropic(apiKey, modelId, prompt, systemPrompt, maxTokens, temperature, abortController);
-        break;
-      case 'mistral':
-        response = await callMistral(apiKey, modelId, prompt, systemPrompt, maxTokens, temperature, abortController);
-        break;
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
+    await readSSEStream(response, (data, event) => {
+      const update = adapter.parseStreamEvent(data, event);
+      if (!update) return;
+      
+      if (update.model) model = update.model;
+      if (update.usage?.inputTokens !== undefined) usage.inputTokens = update.usage.inputTokens;
+      if (update.usage?.outputTokens !== undefined) usage.outputTokens = update.usage.outputTokens;
+      if (update.toolCalls) toolCalls.push(...update.toolCalls);
+      for (const delta of update.toolCallDeltas || []) {
+        const partial = partialToolCalls.get(delta.index) || { id: '', name: '', arguments: '' };
+        partialToolCalls.set(delta.index, {
+          id: delta.id || partial.id,
+          name: delta.name || partial.name,
+          arguments: partial.arguments + (delta.arguments || '')
+        });
+      }
+      if (update.delta) {
+        text += update.delta;
+        onToken(update.delta, text);
+      }
+    });
     
-    return response;
-  } catch (error) {
-    // Check if this is an AbortError, which means the request was canceled
-    if (error instanceof DOMException && error.name === 'AbortError') {
-      console.log('Request was aborted');
-      // Return an empty response to indicate it was aborted
-      return {
-        text: '',
-        model: model
-      };
+    for (const partial of partialToolCalls.values()) {
+      toolCalls.push({
+        type: 'tool_call',
+        id: partial.id,
+        name: partial.name,
+        arguments: parseToolArguments(partial.arguments)
+      });
     }
     
-    console.error(`Error calling ${provider} API:`, error);
-    throw error;
+    const hasUsage = usage.inputTokens !== undefined || usage.outputTokens !== undefined;
+    return {
+      text,
+      model,
+      usage: hasUsage ? { inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 } : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
   }
+  
+  const data = await response.json();
+  return adapter.parseResponse(data, request);
 };
 
-// Implementation for OpenAI
-const callOpenAI = async (
-  apiKey: string,
-  model: string,
-  prompt: string,
-  systemPrompt: string,
-  maxTokens: number,
-  temperature: number,
-  abortController: AbortController
-): Promise<LLMResponse> => {
-  const url = 'https://api.openai.com/v1/chat/completions';
-  
-  // Parse conversation history
-  const conversationMessages = parseConversationHistory(prompt);
-  
-  // Create full message array with system message at the beginning
-  const messages = [
-    { role: 'system', content: systemPrompt },
-    ...conversationMessages
-  ];
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      max_tokens: maxTokens,
-      temperature
-    }),
-    signal: abortController.signal // Add signal from AbortController
-  });
+// Make a provider call, retrying rate-limited, overloaded and network failures
+const callWithRetries = async (
+  adapter: ProviderAdapter,
+  request: ProviderRequest,
+  abortController: AbortController,
+  onToken: TokenCallback | undefined,
+  retryPolicy: RetryPolicy
+): Promise<ProviderResponse> => {
+  let totalDelayMs = 0;
   
-  // Check if response is ok before parsing
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`OpenAI API error: ${errorData.error?.message || response.statusText}`);
+  for (let attempt = 0; ; attempt++) {
+    // Track whether this attempt has already shown text, since a retry would repeat it
+    let receivedTokens = false;
+    const trackedOnToken: TokenCallback | undefined = onToken && ((delta, fullText) => {
+      receivedTokens = true;
+      onToken(delta, fullText);
+    });
+    
+    try {
+      return await attemptProviderCall(adapter, request, abortController, trackedOnToken);
+    } catch (error) {
+      // Check if this is an AbortError, which means the request was canceled
+      if (isAbortError(error, abortController.signal)) {
+        console.log('Request was aborted');
+        // Return an empty response to indicate it was aborted
+        return {
+          text: '',
+          model: request.modelId
+        };
+      }
+      
+      const canRetry = error instanceof LLMError
+        && error.retryable
+        && !receivedTokens
+        && attempt + 1 < retryPolicy.maxAttempts;
+      
+      if (canRetry) {
+        const delayMs = getRetryDelay(error, attempt, retryPolicy);
+        
+        // Give up rather than wait past the retry budget
+        if (totalDelayMs + delayMs <= retryPolicy.budgetMs) {
+          totalDelayMs += delayMs;
+          console.warn(`${adapter.name} ${error.kind} error, retrying in ${delayMs}ms (attempt ${attempt + 2} of ${retryPolicy.maxAttempts})`);
+          await waitForDelay(delayMs, abortController.signal);
+          continue;
+        }
+      }
+      
+      console.error(`Error calling ${adapter.name} API for ${request.option.name}:`, error);
+      throw error;
+    }
   }
+};
+
+// Drop tool calls and results from a history sent without tools, since providers
+// reject tool turns for tools the request doesn't declare
+const stripToolTurns = (messages: ChatMessage[]): ChatMessage[] => {
+  return messages
+    .filter(message => message.role !== 'tool')
+    .map(message => ({ ...message, content: message.content.filter(part => part.type !== 'tool_call') }))
+    .filter(message => message.content.length > 0);
+};
+
+// Join the text of successive tool rounds
+const joinText = (before: string, after: string): string => {
+  return before && after ? `${before}\n\n${after}` : before || after;
+};
+
+// Main function to call LLM APIs. When tools are given, tool calls are run and
+// their results sent back until the model answers in text.
+export const callLLM = async (options: APICallOptions): Promise<LLMResponse> => {
+  const { 
+    llmOption, 
+    messages, 
+    systemPrompt = DEFAULT_SYSTEM_PROMPT, 
+    maxTokens = DEFAULT_MAX_TOKENS, 
+    temperature = DEFAULT_TEMPERATURE,
+    topP,
+    abortController = new AbortController(),
+    onToken,
+    retryPolicy = DEFAULT_RETRY_POLICY,
+    tools = [],
+    toolContext = { conversations: [] },
+    onToolUpdate
+  } = options;
   
-  const data = await response.json();
+  const adapter = getProvider(llmOption.providerId);
+  
+  if (!adapter) {
+    throw new LLMError('bad_request', `Unsupported provider: ${llmOption.providerId}`);
+  }
+  
+  // Fail before sending rather than let the provider reject or silently drop the images
+  const hasImages = messages.some(message => message.content.some(part => part.type === 'image'));
+  if (hasImages && !supportsVision(llmOption)) {
+    throw new LLMError('unsupported_input', `${llmOption.name} does not accept image input`);
+  }
+  
+  const useTools = tools.length > 0 && supportsTools(llmOption);
+  
+  const request: ProviderRequest = {
+    option: llmOption,
+    modelId: llmOption.modelId,
+    messages: useTools ? messages : stripToolTurns(messages),
+    systemPrompt,
+    maxTokens,
+    temperature,
+    topP,
+    stream: !!onToken && adapter.capabilities.streaming,
+    tools: useTools ? tools.map(({ handler, ...declaration }) => declaration) : undefined
+  };
+  
+  let text = '';
+  let model = request.modelId;
+  let usage: TokenUsage | undefined;
+  const toolParts: ChatContentPart[] = [];
+  
+  for (let round = 0; ; round++) {
+    // Text from earlier rounds stays in front of what this round streams
+    const previousText = text;
+    const roundOnToken: TokenCallback | undefined = onToken && ((delta, roundText) => {
+      onToken(delta, joinText(previousText, roundText));
+    });
+    
+    const isLastRound = round >= MAX_TOOL_ROUNDS;
+    const response = await callWithRetries(
+      adapter,
+      { ...request, toolChoice: useTools && isLastRound ? 'none' : undefined },
+      abortController,
+      roundOnToken,
+      retryPolicy
+    );
+    
+    text = joinText(previousText, response.text);
+    model = response.model;
+    if (round === 0) {
+      usage = response.usage;
+    } else if (usage && response.usage) {
+      usage = {
+        inputTokens: usage.inputTokens + response.usage.inputTokens,
+        outputTokens: usage.outputTokens + response.usage.outputTokens
+      };
+    } else {
+      // A round without reported usage makes the total unknown
+      usage = undefined;
+    }
+    
+    // The last round ends the loop even if the provider ignored 'none' and called tools anyway
+    if (!useTools || !response.toolCalls?.length || abortController.signal.aborted || isLastRound) break;
+    
+    const results = await Promise.all(response.toolCalls.map(call => runToolCall(call, toolContext)));
+    
+    request.messages = [
+      ...request.messages,
+      {
+        role: 'assistant',
+        content: [...(response.text ? [{ type: 'text' as const, text: response.text }] : []), ...response.toolCalls]
+      },
+      { role: 'tool', content: results }
+    ];
+    toolParts.push(...response.toolCalls, ...results);
+    onToolUpdate?.([...toolParts]);
+  }
   
   return {
-    text: data.choices[0].message.content,
-    model: data.model
+    text,
+    model,
+    usage,
+    toolParts: toolParts.length > 0 ? toolParts : undefined
   };
 };
 
-// Implementation for Anthropic
-const callAnthropic = async (
-  apiKey: string,
-  model: string,
-  prompt: string,
-  systemPrompt: string,
-  maxTokens: number,
-  temperature: number,
-  abortController: AbortController
-): Promise<LLMResponse> => {
-  const url = 'https://api.anthropic.com/v1/messages';
-  
-  // Parse conversation history
-  const messages = parseConversationHistory(prompt);
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      system: systemPrompt,
-      max_tokens: maxTokens,
-      temperature
-    }),
-    signal: abortController.signal // Add signal from AbortController
-  });
+/**
+ * Fetch the models a provider currently offers from its model list endpoint
+ * @param option - Any option of the provider; for custom endpoints, the endpoint to query
+ * @returns The chat models listed, or null if the provider has no model list
+ */
+export const listProviderModels = async (option: LLMOption): Promise<DiscoveredModel[] | null> => {
+  const adapter = getProvider(option.providerId);
+  if (!adapter) {
+    throw new LLMError('bad_request', `Unknown provider: ${option.providerId}`);
+  }
+  if ('respond' in adapter || !adapter.buildModelsRequest || !adapter.parseModels) {
+    return null;
+  }
   
-  // Check if response is ok before parsing
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`Anthropic API error: ${errorData.error?.message || response.statusText}`);
+  const httpRequest = adapter.buildModelsRequest(option);
+  const authHeaders = await getAuthHeaders(adapter, option);
+  
+  let response: Response;
+  try {
+    response = await fixtureFetch(httpRequest.url, {
+      method: 'GET',
+      headers: {
+        ...authHeaders,
+        ...httpRequest.headers
+      }
+    });
+  } catch (error) {
+    throw new LLMError('network', `Network error: ${error instanceof Error ? error.message : String(error)}`);
   }
   
-  const data = await response.json();
+  if (!response.ok) {
+    const errorSource = adapter.capabilities.customEndpoint ? option.name : adapter.name;
+    throw classifyHttpError(response.status, await getErrorMessage(response), response.headers, errorSource);
+  }
   
-  return {
-    text: data.content[0].text,
-    model: data.model
-  };
+  return adapter.parseModels(await response.json());
 };
 
-// Implementation for Mistral
-const callMistral = async (
-  apiKey: string,
-  model: string,
-  prompt: string,
-  systemPrompt: string,
-  maxTokens: number,
-  temperature: number,
-  abortController: AbortController
-): Promise<LLMResponse> => {
-  const url = 'https://api.mistral.ai/v1/chat/completions';
-  
-  // Parse conversation history
-  const conversationMessages = parseConversationHistory(prompt);
-  
-  // Create full message array with system message at the beginning
-  const messages = [
-    { role: 'system', content: systemPrompt },
-    ...conversationMessages
-  ];
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      max_tokens: maxTokens,
-      temperature
-    }),
-    signal: abortController.signal // Add signal from AbortController
-  });
+/**
+ * Embed texts with the embedding model of an option's provider
+ * @param option - Any option of the provider
+ * @param texts - The texts to embed; callers keep batches to a few dozen
+ * @returns One vector per text, or null if the provider has no embedding model
+ */
+export const embedTexts = async (option: LLMOption, texts: string[]): Promise<number[][] | null> => {
+  const adapter = getProvider(option.providerId);
+  if (!adapter) {
+    throw new LLMError('bad_request', `Unknown provider: ${option.providerId}`);
+  }
+  if ('respond' in adapter || !adapter.buildEmbeddingRequest || !adapter.parseEmbeddings) {
+    return null;
+  }
   
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`Mistral API error: ${errorData.error?.message || response.statusText}`);
+  const httpRequest = adapter.buildEmbeddingRequest(option, texts);
+  const authHeaders = await getAuthHeaders(adapter, option);
+  
+  let response: Response;
+  try {
+    response = await fixtureFetch(httpRequest.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+        ...httpRequest.headers
+      },
+      body: JSON.stringify(httpRequest.body)
+    });
+  } catch (error) {
+    throw new LLMError('network', `Network error: ${error instanceof Error ? error.message : String(error)}`);
   }
   
-  const data = await response.json();
+  if (!response.ok) {
+    throw classifyHttpError(response.status, await getErrorMessage(response), response.headers, adapter.name);
+  }
   
-  return {
-    text: data.choices[0].message.content,
-    model: data.model
-  };
-}; 
\ No newline at end of file
+  const embeddings = adapter.parseEmbeddings(await response.json());
+  if (embeddings.length !== texts.length) {
+    throw new LLMError('unknown', `Expected ${texts.length} embeddings from ${adapter.name}, got ${embeddings.length}`);
+  }
+  return embeddings;
+};
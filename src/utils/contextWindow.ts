@@ -0,0 +1,178 @@
+/**
+ * Fitting conversation history into a model's context window
+ */
+
+import { ContextStrategy, ConversationSummary, LLMOption, Message } from '../types';
+import { callLLM } from './api';
+import { estimateMessageTokens, estimateTokens, getContextWindow } from './tokens';
+import { hasImages } from './helpers';
+
+// Fraction of the window kept free to absorb estimation error
+const SAFETY_MARGIN = 0.1;
+
+// Room set aside for the running summary once turns start being summarized
+const SUMMARY_RESERVE_RATIO = 0.15;
+const MAX_SUMMARY_RESERVE_TOKENS = 1500;
+
+export const CONTEXT_STRATEGIES: { value: ContextStrategy; label: string; description: string }[] = [
+  {
+    value: 'truncate',
+    label: 'Truncate',
+    description: 'Drop the oldest turns once the conversation no longer fits',
+  },
+  {
+    value: 'pinned',
+    label: 'Keep pinned',
+    description: 'Always send pinned messages, then as many recent turns as fit',
+  },
+  {
+    value: 'summarize',
+    label: 'Summarize',
+    description: 'Fold older turns into a running summary that is sent instead',
+  },
+];
+
+// The history to send for one request
+export interface ContextPlan {
+  // Messages sent verbatim, in conversation order
+  messages: Message[];
+  // Messages that won't be sent verbatim
+  omitted: Message[];
+  // Omitted messages the running summary doesn't cover yet ('summarize' only)
+  toSummarize: Message[];
+  // Existing running summary that still applies to this history
+  summary?: ConversationSummary;
+  estimatedTokens: number;
+  budgetTokens: number;
+}
+
+interface PlanOptions {
+  messages: Message[];
+  strategy: ContextStrategy;
+  budgetTokens: number;
+  summary?: ConversationSummary;
+}
+
+/**
+ * Work out how many tokens of history can be sent with a request
+ * @param option - The model being called
+ * @param systemPrompt - System prompt sent alongside the history
+ * @param maxTokens - Tokens reserved for the response
+ */
+export const getHistoryBudget = (option: LLMOption, systemPrompt: string, maxTokens: number): number => {
+  const available = getContextWindow(option) * (1 - SAFETY_MARGIN) - maxTokens - estimateTokens(systemPrompt);
+  return Math.max(0, Math.floor(available));
+};
+
+const sumTokens = (messages: Message[]): number => {
+  return messages.reduce((total, msg) => total + estimateMessageTokens(msg), 0);
+};
+
+// Keep the newest messages that fit in the budget. The latest message is always
+// kept so the request is never empty; the provider reports it if that is too big.
+const fitNewest = (messages: Message[], budgetTokens: number): { kept: Message[]; dropped: Message[] } => {
+  let used = 0;
+  let start = messages.length;
+  
+  while (start > 0) {
+    const tokens = estimateMessageTokens(messages[start - 1]);
+    if (start < messages.length && used + tokens > budgetTokens) break;
+    used += tokens;
+    start--;
+  }
+  
+  return { kept: messages.slice(start), dropped: messages.slice(0, start) };
+};
+
+const planPinned = (messages: Message[], budgetTokens: number) => {
+  const pinned = messages.filter(msg => msg.isPinned);
+  const unpinned = messages.filter(msg => !msg.isPinned);
+  const { kept } = fitNewest(unpinned, budgetTokens - sumTokens(pinned));
+  
+  const keptIds = new Set([...pinned, ...kept].map(msg => msg.id));
+  return {
+    kept: messages.filter(msg => keptIds.has(msg.id)),
+    dropped: messages.filter(msg => !keptIds.has(msg.id)),
+  };
+};
+
+/**
+ * Decide which messages to send so the history fits the budget
+ * @param options.messages - Sendable history, oldest first, ending with the new user message
+ * @param options.strategy - How to handle turns that don't fit
+ * @param options.budgetTokens - Tokens available for history
+ * @param options.summary - The conversation's running summary, if any
+ */
+export const planContextWindow = ({ messages, strategy, budgetTokens, summary }: PlanOptions): ContextPlan => {
+  if (strategy === 'summarize') {
+    // A summary only applies if the message it runs through is still in this history
+    const throughIndex = summary ? messages.findIndex(msg => msg.id === summary.throughMessageId) : -1;
+    const activeSummary = throughIndex >= 0 ? summary : undefined;
+    const candidates = messages.slice(throughIndex + 1);
+    const summaryTokens = activeSummary ? estimateTokens(activeSummary.text) : 0;
+    
+    let fit = fitNewest(candidates, budgetTokens - summaryTokens);
+    if (fit.dropped.length > 0) {
+      // Leave room for the summary to grow once it covers the dropped turns
+      const reserve = Math.min(MAX_SUMMARY_RESERVE_TOKENS, Math.floor(budgetTokens * SUMMARY_RESERVE_RATIO));
+      fit = fitNewest(candidates, budgetTokens - Math.max(summaryTokens, reserve));
+    }
+    
+    return {
+      messages: fit.kept,
+      omitted: [...messages.slice(0, throughIndex + 1), ...fit.dropped],
+      toSummarize: fit.dropped,
+      summary: activeSummary,
+      estimatedTokens: sumTokens(fit.kept) + summaryTokens,
+      budgetTokens,
+    };
+  }
+  
+  const { kept, dropped } = strategy === 'pinned'
+    ? planPinned(messages, budgetTokens)
+    : fitNewest(messages, budgetTokens);
+  
+  return {
+    messages: kept,
+    omitted: dropped,
+    toSummarize: [],
+    estimatedTokens: sumTokens(kept),
+    budgetTokens,
+  };
+};
+
+/**
+ * Fold older turns into a conversation's running summary using the LLM
+ * @param llmOption - The model to summarize with
+ * @param previousSummary - Summary of the turns before these, if any
+ * @param messages - Turns to add to the summary, oldest first
+ * @param abortController - Cancels the summary request along with the reply
+ * @returns The updated summary text, or an empty string if the request was aborted
+ */
+export const summarizeTurns = async (
+  llmOption: LLMOption,
+  previousSummary: string | undefined,
+  messages: Message[],
+  abortController?: AbortController
+): Promise<string> => {
+  const transcript = messages
+    .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}${hasImages(msg) ? ' [image attached]' : ''}`)
+    .join('\n\n');
+  
+  const request = previousSummary
+    ? `Summary so far:\n${previousSummary}\n\nNew turns:\n${transcript}`
+    : `Turns:\n${transcript}`;
+  
+  const response = await callLLM({
+    llmOption,
+    messages: [{ role: 'user', content: [{ type: 'text', text: request }] }],
+    systemPrompt: 'You maintain a running summary of a conversation between a user and an assistant. ' +
+      'Update the summary with the new turns. Keep facts, decisions, names, numbers and open questions ' +
+      'the assistant will need later. Reply with the summary only, in under 300 words.',
+    maxTokens: 600,
+    temperature: 0.2,
+    abortController,
+  });
+  
+  return response.text.trim();
+};
@@ -0,0 +1,76 @@
+/**
+ * Picking and reading documents for the knowledge base
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { KnowledgeDocument } from '../types';
+import { extractPdfText } from './pdf';
+import { pickFiles, readFileBytes, readFileText } from './files';
+
+// Largest file we'll read. Only the extracted text is stored, but the whole file
+// is held in memory while it's read.
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// A document's name, type and text, before it is chunked and indexed
+export interface DocumentSource {
+  name: string;
+  kind: KnowledgeDocument['kind'];
+  text: string;
+}
+
+const KINDS_BY_EXTENSION: Record<string, KnowledgeDocument['kind']> = {
+  txt: 'text',
+  text: 'text',
+  csv: 'text',
+  log: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  pdf: 'pdf',
+};
+
+const PICKER_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/pdf'];
+
+// Work out the kind from the extension, falling back to the MIME type
+const getDocumentKind = (name: string, mimeType?: string): KnowledgeDocument['kind'] | null => {
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  if (KINDS_BY_EXTENSION[extension]) return KINDS_BY_EXTENSION[extension];
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType === 'text/markdown') return 'markdown';
+  if (mimeType?.startsWith('text/')) return 'text';
+  return null;
+};
+
+/**
+ * Read one picked file into a document source
+ * @param asset - The file from the document picker
+ * @throws Error with a user-facing message if the file can't be used
+ */
+export const readDocument = async (asset: DocumentPicker.DocumentPickerAsset): Promise<DocumentSource> => {
+  const kind = getDocumentKind(asset.name, asset.mimeType);
+  if (!kind) {
+    throw new Error(`${asset.name}: only text, Markdown and PDF files can be added.`);
+  }
+  if (asset.size && asset.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${asset.name}: documents must be under ${MAX_DOCUMENT_BYTES / (1024 * 1024)}MB.`);
+  }
+
+  let text: string;
+  try {
+    text = kind === 'pdf' ? extractPdfText(await readFileBytes(asset)) : await readFileText(asset);
+  } catch (error) {
+    throw new Error(`${asset.name}: ${error instanceof Error ? error.message : 'couldn\'t read the file.'}`);
+  }
+
+  if (!text.trim()) {
+    throw new Error(`${asset.name}: the file is empty.`);
+  }
+  return { name: asset.name, kind, text };
+};
+
+/**
+ * Let the user choose documents to add
+ * @returns The chosen files, or an empty array if the picker was cancelled
+ */
+export const pickDocumentFiles = (): Promise<DocumentPicker.DocumentPickerAsset[]> => {
+  return pickFiles(PICKER_TYPES, true);
+};
@@ -0,0 +1,354 @@
+/**
+ * Exporting conversations as Markdown, JSON, self-contained HTML, or a PDF
+ * printed from the HTML. Markdown, HTML and PDF show the selected branch for
+ * reading; JSON keeps every branch and field so nothing is lost.
+ */
+
+import {
+  Conversation,
+  ConversationFolder,
+  ConversationTag,
+  ExportFormat,
+  ExportOptions,
+  GenerationSettings,
+  Message,
+} from '../types';
+import { getActiveBranch } from './messageTree';
+import { formatMessageUsage } from './usage';
+import { printHtml, saveTextFile } from './files';
+
+// Bumped if the JSON format changes in a way older versions can't read
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+};
+
+// JSON is a backup, so it keeps everything by default; the others are for reading
+export const DEFAULT_EXPORT_OPTIONS: Record<ExportFormat, ExportOptions> = {
+  markdown: { includeSystemPrompt: true, includeErrors: false },
+  json: { includeSystemPrompt: true, includeErrors: true },
+  html: { includeSystemPrompt: false, includeErrors: false },
+  pdf: { includeSystemPrompt: false, includeErrors: false },
+};
+
+// A conversation with what it's shown with: the settings it generates with,
+// and the names behind its persona, folder and tag IDs
+export interface ExportSource {
+  conversation: Conversation;
+  settings: GenerationSettings;
+  personaName?: string;
+  folder?: ConversationFolder;
+  tags: ConversationTag[];
+}
+
+// The JSON file's layout
+export interface ConversationExportFile {
+  format: 'bubl-conversations';
+  version: number;
+  exportedAt: string;
+  conversations: Array<Conversation & {
+    // The settings the conversation generated with when exported
+    generation: Omit<GenerationSettings, 'systemPrompt'> & { systemPrompt?: string };
+    personaName?: string;
+    folderName?: string;
+    tagNames: string[];
+  }>;
+}
+
+const formatTimestamp = (timestamp: number | string): string => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const getRoleLabel = (message: Message, source: ExportSource): string => {
+  if (message.role === 'user') return 'User';
+  return source.personaName ? `Assistant (${source.personaName})` : 'Assistant';
+};
+
+// Drop errored messages, attaching anything that followed one to the message before it
+const removeErroredMessages = (conversation: Conversation): Conversation => {
+  const errored = new Map(
+    conversation.messages.filter(message => message.isError).map(message => [message.id, message.parentId ?? null])
+  );
+  if (errored.size === 0) return conversation;
+
+  const skipErrored = (id: string | null | undefined): string | null | undefined => {
+    while (id && errored.has(id)) id = errored.get(id);
+    return id;
+  };
+
+  return {
+    ...conversation,
+    messages: conversation.messages
+      .filter(message => !message.isError)
+      .map(message => errored.has(message.parentId ?? '') ? { ...message, parentId: skipErrored(message.parentId) } : message),
+    currentLeafId: skipErrored(conversation.currentLeafId) ?? undefined,
+  };
+};
+
+// The messages shown in the readable formats: the selected branch, finished
+const getExportedBranch = (conversation: Conversation, options: ExportOptions): Message[] => {
+  return getActiveBranch(conversation).filter(message =>
+    !message.isLoading && (options.includeErrors || !message.isError)
+  );
+};
+
+const getToolNames = (message: Message): string[] => {
+  return Array.from(new Set(
+    (message.parts || []).flatMap(part => part.type === 'tool_call' ? [part.name] : [])
+  ));
+};
+
+const conversationToMarkdown = (source: ExportSource, options: ExportOptions): string => {
+  const { conversation, settings } = source;
+  const lines = [`# ${conversation.title}`, ''];
+
+  lines.push(`- Created: ${formatTimestamp(conversation.createdAt)}`);
+  lines.push(`- Updated: ${formatTimestamp(conversation.updatedAt)}`);
+  lines.push(`- Model: ${settings.model}`);
+  if (source.personaName) lines.push(`- Persona: ${source.personaName}`);
+  if (source.folder) lines.push(`- Folder: ${source.folder.name}`);
+  if (source.tags.length > 0) lines.push(`- Tags: ${source.tags.map(tag => tag.name).join(', ')}`);
+  lines.push('');
+
+  if (options.includeSystemPrompt && settings.systemPrompt.trim()) {
+    lines.push('## System prompt', '');
+    lines.push(...settings.systemPrompt.trim().split('\n').map(line => `> ${line}`), '');
+  }
+
+  getExportedBranch(conversation, options).forEach(message => {
+    lines.push('---', '', `### ${getRoleLabel(message, source)} · ${formatTimestamp(message.timestamp)}`, '');
+
+    const toolNames = getToolNames(message);
+    if (toolNames.length > 0) lines.push(`*Used ${toolNames.map(name => `\`${name}\``).join(', ')}*`, '');
+
+    message.parts?.forEach(part => {
+      if (part.type === 'image') lines.push(`*[Image: ${part.mimeType}]*`, '');
+    });
+
+    if (message.isError) {
+      lines.push(`> **Error:** ${message.content}`, '');
+    } else if (message.content.trim()) {
+      lines.push(message.content.trim(), '');
+    }
+
+    message.citations?.forEach(citation => {
+      lines.push(`[${citation.number}]: ${citation.documentName}, passage ${citation.chunkIndex + 1}`);
+    });
+    if (message.citations?.length) lines.push('');
+
+    if (message.usage) {
+      lines.push(`*${formatMessageUsage(message.usage)}*`, '');
+    } else if (message.model) {
+      lines.push(`*${message.model}*`, '');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Message text as HTML: fenced code blocks become <pre>, the rest keeps its line breaks
+const textToHtml = (text: string): string => {
+  const blocks: string[] = [];
+  const fence = /```[\w+-]*\n?([\s\S]*?)```/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = fence.exec(text)) !== null) {
+    const before = text.slice(lastIndex, match.index).trim();
+    if (before) blocks.push(`<div class="text">${escapeHtml(before)}</div>`);
+    blocks.push(`<pre><code>${escapeHtml(match[1].replace(/\n$/, ''))}</code></pre>`);
+    lastIndex = fence.lastIndex;
+  }
+  const rest = text.slice(lastIndex).trim();
+  if (rest) blocks.push(`<div class="text">${escapeHtml(rest)}</div>`);
+
+  return blocks.join('\n');
+};
+
+const messageToHtml = (message: Message, source: ExportSource): string => {
+  const body: string[] = [];
+
+  const toolNames = getToolNames(message);
+  if (toolNames.length > 0) {
+    body.push(`<p class="meta">Used ${toolNames.map(name => `<code>${escapeHtml(name)}</code>`).join(', ')}</p>`);
+  }
+
+  // Images are embedded so the file works on its own
+  message.parts?.forEach(part => {
+    if (part.type === 'image') body.push(`<img src="data:${escapeHtml(part.mimeType)};base64,${part.data}" alt="">`);
+  });
+
+  if (message.isError) {
+    body.push(`<div class="error">${escapeHtml(message.content)}</div>`);
+  } else {
+    body.push(textToHtml(message.content));
+  }
+
+  if (message.citations?.length) {
+    body.push(`<ol class="citations">${message.citations.map(citation =>
+      `<li value="${citation.number}"><strong>${escapeHtml(citation.documentName)}</strong>: ${escapeHtml(citation.text)}</li>`
+    ).join('')}</ol>`);
+  }
+
+  const details = message.usage ? formatMessageUsage(message.usage) : message.model;
+  if (details) body.push(`<p class="meta">${escapeHtml(details)}</p>`);
+
+  return `<article class="message ${message.role}">
+<header>${escapeHtml(getRoleLabel(message, source))} <time>${escapeHtml(formatTimestamp(message.timestamp))}</time></header>
+${body.join('\n')}
+</article>`;
+};
+
+const conversationToHtml = (source: ExportSource, options: ExportOptions): string => {
+  const { conversation, settings } = source;
+  const details = [
+    `Created ${formatTimestamp(conversation.createdAt)}`,
+    settings.model,
+    source.personaName,
+    source.folder?.name,
+    ...source.tags.map(tag => `#${tag.name}`),
+  ].filter(Boolean) as string[];
+
+  const systemPrompt = options.includeSystemPrompt && settings.systemPrompt.trim()
+    ? `<details class="system-prompt"><summary>System prompt</summary><div class="text">${escapeHtml(settings.systemPrompt.trim())}</div></details>`
+    : '';
+
+  return `<section class="conversation">
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">${details.map(escapeHtml).join(' · ')}</p>
+${systemPrompt}
+${getExportedBranch(conversation, options).map(message => messageToHtml(message, source)).join('\n')}
+</section>`;
+};
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2937; max-width: 800px; margin: 0 auto; padding: 24px; line-height: 1.5; }
+h1 { font-size: 24px; margin-bottom: 4px; }
+.conversation + .conversation { margin-top: 48px; page-break-before: always; }
+.meta { color: #6b7280; font-size: 13px; }
+.message { border-radius: 12px; padding: 12px 16px; margin: 12px 0; page-break-inside: avoid; }
+.message.user { background: #e8f7fc; margin-left: 48px; }
+.message.assistant { background: #f3f4f6; margin-right: 48px; }
+.message header { font-weight: 600; font-size: 13px; margin-bottom: 6px; }
+.message time { font-weight: 400; color: #6b7280; margin-left: 6px; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+pre { background: #1f2937; color: #f9fafb; padding: 12px; border-radius: 8px; overflow-x: auto; white-space: pre-wrap; }
+code { font-family: Menlo, Consolas, monospace; font-size: 13px; }
+img { max-width: 100%; border-radius: 8px; margin: 6px 0; }
+.error { color: #b91c1c; font-style: italic; }
+.citations { font-size: 13px; color: #4b5563; }
+.system-prompt { background: #fafafa; border: 1px solid #e5e7eb; border-radius: 8px; padding: 8px 12px; margin: 12px 0; }
+.system-prompt summary { cursor: pointer; font-weight: 600; font-size: 13px; }
+`;
+
+const toHtmlDocument = (sources: ExportSource[], options: ExportOptions): string => {
+  const title = sources.length === 1 ? sources[0].conversation.title : 'Conversations';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${sources.map(source => conversationToHtml(source, options)).join('\n')}
+</body>
+</html>`;
+};
+
+const toJson = (sources: ExportSource[], options: ExportOptions): string => {
+  const file: ConversationExportFile = {
+    format: 'bubl-conversations',
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations: sources.map(({ conversation, settings, personaName, folder, tags }) => {
+      const exported = options.includeErrors ? conversation : removeErroredMessages(conversation);
+      const { systemPrompt, ...generation } = settings;
+      const { systemPrompt: ownSystemPrompt, ...ownSettings } = conversation.settings || {};
+
+      return {
+        ...exported,
+        messages: exported.messages.filter(message => !message.isLoading),
+        ...(conversation.settings && {
+          settings: options.includeSystemPrompt ? conversation.settings : ownSettings,
+        }),
+        generation: options.includeSystemPrompt ? { ...generation, systemPrompt } : generation,
+        ...(personaName && { personaName }),
+        ...(folder && { folderName: folder.name }),
+        tagNames: tags.map(tag => tag.name),
+      };
+    }),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Render conversations in a text format
+ * @param sources - The conversations, with their settings and names
+ * @param format - The format to render; PDF renders the HTML it's printed from
+ * @param options - What to leave in or out
+ */
+export const renderExport = (sources: ExportSource[], format: ExportFormat, options: ExportOptions): string => {
+  switch (format) {
+    case 'markdown':
+      return sources.map(source => conversationToMarkdown(source, options)).join('\n\n');
+    case 'json':
+      return toJson(sources, options);
+    case 'html':
+    case 'pdf':
+      return toHtmlDocument(sources, options);
+  }
+};
+
+/**
+ * File name for an export: the conversation's title, or a dated name for several
+ * @param sources - The conversations being exported
+ * @param format - The format they're exported in
+ */
+export const getExportFileName = (sources: ExportSource[], format: ExportFormat): string => {
+  const name = sources.length === 1
+    ? sources[0].conversation.title.toLowerCase().replace(/[^\w\u00C0-\uFFFF]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+    : `bubl-conversations-${new Date().toISOString().slice(0, 10)}`;
+  return `${name || 'conversation'}.${EXPORT_FORMATS[format].extension}`;
+};
+
+/**
+ * Export conversations and hand the result to the user. PDFs go through the
+ * browser's print dialog, so they're only available on web.
+ * @param sources - The conversations, with their settings and names
+ * @param format - The format to export in
+ * @param options - What to leave in or out
+ */
+export const exportConversations = async (
+  sources: ExportSource[],
+  format: ExportFormat,
+  options: ExportOptions
+): Promise<void> => {
+  if (sources.length === 0) throw new Error('There are no conversations to export.');
+
+  const text = renderExport(sources, format, options);
+  if (format === 'pdf') {
+    await printHtml(text);
+    return;
+  }
+  await saveTextFile(getExportFileName(sources, format), text, EXPORT_FORMATS[format].mimeType);
+};
@@ -0,0 +1,103 @@
+/**
+ * Reading picked files and handing files to the user, on web and native
+ */
+
+import { Platform, Share } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+const base64ToBytes = (data: string): Uint8Array => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Read a picked file as UTF-8 text; on web the asset carries a File
+ * @param asset - The file from the document picker
+ */
+export const readFileText = (asset: DocumentPicker.DocumentPickerAsset): Promise<string> => {
+  if (Platform.OS === 'web' && asset.file) return asset.file.text();
+  return FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+};
+
+/**
+ * Read a picked file's raw bytes
+ * @param asset - The file from the document picker
+ */
+export const readFileBytes = async (asset: DocumentPicker.DocumentPickerAsset): Promise<Uint8Array> => {
+  if (Platform.OS === 'web' && asset.file) return new Uint8Array(await asset.file.arrayBuffer());
+  return base64ToBytes(await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.Base64 }));
+};
+
+/**
+ * Let the user choose files
+ * @param types - MIME types to offer
+ * @param multiple - Whether more than one file can be chosen
+ * @returns The chosen files, or an empty array if the picker was cancelled
+ */
+export const pickFiles = async (types: string[], multiple = false): Promise<DocumentPicker.DocumentPickerAsset[]> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: types,
+    multiple,
+    copyToCacheDirectory: true,
+  });
+  return result.canceled ? [] : result.assets;
+};
+
+/**
+ * Give the user a text file: a download on web, the share sheet elsewhere
+ * @param fileName - Name to save the file under
+ * @param text - The file's contents
+ * @param mimeType - Type of the contents
+ */
+export const saveTextFile = async (fileName: string, text: string, mimeType = 'text/plain'): Promise<void> => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  await Share.share({ title: fileName, message: text });
+};
+
+/**
+ * Open the browser's print dialog for an HTML document, where it can be saved as
+ * a PDF. Printing from a hidden frame leaves the app's own page alone.
+ * @param html - The document to print
+ * @throws Error off the web, where there's no print dialog to use
+ */
+export const printHtml = (html: string): Promise<void> => {
+  if (Platform.OS !== 'web') {
+    return Promise.reject(new Error('PDF export is only available on the web.'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      const printWindow = frame.contentWindow;
+      if (!printWindow) {
+        frame.remove();
+        reject(new Error('Couldn\'t open the print dialog.'));
+        return;
+      }
+      printWindow.addEventListener('afterprint', () => frame.remove());
+      printWindow.focus();
+      printWindow.print();
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+};
@@ -0,0 +1,197 @@
+/**
+ * Record/replay layer around fetch. In record mode every provider response is
+ * saved as a fixture; in replay mode requests are answered from those fixtures
+ * without touching the network, so demos and avatar work run offline and without keys.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LLMError } from './llmErrors';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export const FIXTURE_MODES: { value: FixtureMode; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'Requests go to the providers as usual.' },
+  { value: 'record', label: 'Record', description: 'Requests go to the providers and every response is saved.' },
+  { value: 'replay', label: 'Replay', description: 'Saved responses are played back; nothing is sent and no keys are needed.' },
+];
+
+// Thrown in replay mode for a request that was never recorded. Retrying can't
+// help, so it's never retried.
+export class MissingFixtureError extends LLMError {
+  constructor(method: string, url: string) {
+    super(
+      'missing_fixture',
+      `No recorded fixture for ${method} ${url}. Record this request first or turn off replay.`,
+      { retryable: false }
+    );
+    this.name = 'MissingFixtureError';
+  }
+}
+
+// A saved response. Binary bodies such as TTS audio are stored as base64.
+interface Fixture {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  bodyEncoding: 'text' | 'base64';
+  recordedAt: number;
+}
+
+const MODE_STORAGE_KEY = 'fixtureMode';
+const FIXTURE_KEY_PREFIX = 'fixture:';
+
+// Cached so every request doesn't hit AsyncStorage
+let cachedMode: FixtureMode | null = null;
+
+/**
+ * Get the current fixture mode
+ */
+export const getFixtureMode = async (): Promise<FixtureMode> => {
+  if (cachedMode === null) {
+    const stored = await AsyncStorage.getItem(MODE_STORAGE_KEY);
+    cachedMode = stored === 'record' || stored === 'replay' ? stored : 'off';
+  }
+  return cachedMode;
+};
+
+/**
+ * Switch between calling providers, recording them and replaying recordings
+ * @param mode - The new mode
+ */
+export const setFixtureMode = async (mode: FixtureMode): Promise<void> => {
+  cachedMode = mode;
+  await AsyncStorage.setItem(MODE_STORAGE_KEY, mode);
+};
+
+// FNV-1a hash, enough to give each request a short stable storage key
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Requests match on method, URL and body. Headers are left out so fixtures
+// recorded with one key replay with another key or none.
+const getFixtureKey = (method: string, url: string, body: unknown): string => {
+  const bodyText = typeof body === 'string' ? body : '';
+  return `${FIXTURE_KEY_PREFIX}${hashString(`${method} ${url}\n${bodyText}`)}`;
+};
+
+const isBinaryContentType = (contentType: string | null): boolean => {
+  return !!contentType && /^(audio|image|video)\/|octet-stream/.test(contentType);
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  return btoa(new Uint8Array(buffer).reduce((data, byte) => data + String.fromCharCode(byte), ''));
+};
+
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+// Rebuild a Response from a fixture so callers can read it however they like
+const toResponse = (fixture: Fixture): Response => {
+  const body = fixture.bodyEncoding === 'base64' ? base64ToArrayBuffer(fixture.body) : fixture.body;
+  return new Response(body, {
+    status: fixture.status,
+    statusText: fixture.statusText,
+    headers: fixture.headers,
+  });
+};
+
+// Save a successful response and hand back an unread copy for the caller. Errors
+// aren't saved, so a rate limit hit while recording doesn't replay forever.
+const recordResponse = async (key: string, method: string, url: string, response: Response): Promise<Response> => {
+  if (!response.ok) return response;
+
+  const contentType = response.headers.get('content-type');
+  const isBinary = isBinaryContentType(contentType);
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value: string, name: string) => {
+    headers[name] = value;
+  });
+
+  const fixture: Fixture = {
+    method,
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: isBinary ? arrayBufferToBase64(await response.arrayBuffer()) : await response.text(),
+    bodyEncoding: isBinary ? 'base64' : 'text',
+    recordedAt: Date.now(),
+  };
+
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(fixture));
+  } catch (error) {
+    // Storage can fill up with audio; the request itself still succeeded
+    console.warn(`[Fixtures] Couldn't save fixture for ${method} ${url}:`, error);
+  }
+
+  return toResponse(fixture);
+};
+
+/**
+ * Drop-in replacement for fetch that records or replays responses depending on
+ * the fixture mode. Streamed responses are recorded whole and replayed in one piece.
+ * @param url - Request URL
+ * @param init - Request options, as for fetch
+ */
+export const fixtureFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const mode = await getFixtureMode();
+  if (mode === 'off') {
+    return fetch(url, init);
+  }
+
+  const method = (init.method || 'GET').toUpperCase();
+  const key = getFixtureKey(method, url, init.body);
+
+  if (mode === 'replay') {
+    if (init.signal?.aborted) {
+      throw new DOMException('The request was aborted', 'AbortError');
+    }
+
+    const stored = await AsyncStorage.getItem(key);
+    if (!stored) {
+      throw new MissingFixtureError(method, url);
+    }
+    return toResponse(JSON.parse(stored));
+  }
+
+  return recordResponse(key, method, url, await fetch(url, init));
+};
+
+/**
+ * Whether requests are being answered from fixtures, in which case API keys aren't needed
+ */
+export const isReplaying = async (): Promise<boolean> => {
+  return (await getFixtureMode()) === 'replay';
+};
+
+/**
+ * Count the saved fixtures
+ */
+export const countFixtures = async (): Promise<number> => {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter(key => key.startsWith(FIXTURE_KEY_PREFIX)).length;
+};
+
+/**
+ * Delete every saved fixture
+ */
+export const clearFixtures = async (): Promise<void> => {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(FIXTURE_KEY_PREFIX)));
+};
@@ -1,3 +1,5 @@
+import { ChatContentPart, ChatMessage, Message } from '../types';
+
 export const generateId = (): string => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
@@ -26,4 +28,53 @@ export const createNewConversationTitle = (content?: string): string => {
     return shortTitle || 'New Chat';
   }
   return 'New Chat';
-}; 
\ No newline at end of file
+}; 
+
+// Copy an object without its undefined fields, so spreading it can't clobber defaults
+export const omitUndefined = <T extends object>(value: T): Partial<T> => {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)
+  ) as Partial<T>;
+};
+
+// Messages that can be sent to the LLM: placeholders that are still loading,
+// errored replies and empty messages are left out. A message with only an image
+// still counts.
+export const getSendableMessages = (messages: Message[]): Message[] => {
+  return messages.filter(msg =>
+    !msg.isLoading && !msg.isError && (msg.content.trim() !== '' || hasImages(msg))
+  );
+};
+
+// Whether a message carries image attachments
+export const hasImages = (message: Message): boolean => {
+  return !!message.parts?.some(part => part.type === 'image');
+};
+
+// Convert stored conversation messages into the history sent to the LLM
+export const buildChatHistory = (messages: Message[]): ChatMessage[] => {
+  return getSendableMessages(messages).flatMap(toChatMessages);
+};
+
+// Expand one stored message into the turns the provider sees. An answer that used
+// tools becomes assistant tool calls, then a tool turn with their results, and so
+// on, ending with the answer text.
+const toChatMessages = (message: Message): ChatMessage[] => {
+  const parts: ChatContentPart[] = message.parts ? [...message.parts] : [];
+  // Tool parts are stored without the answer, which lives in content
+  if (!parts.some(part => part.type === 'text') && message.content.trim()) {
+    parts.push({ type: 'text', text: message.content });
+  }
+  
+  const turns: ChatMessage[] = [];
+  for (const part of parts) {
+    const role = part.type === 'tool_call' ? 'assistant' : part.type === 'tool_result' ? 'tool' : message.role;
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(part);
+    } else {
+      turns.push({ role, content: [part] });
+    }
+  }
+  return turns;
+};
@@ -0,0 +1,125 @@
+/**
+ * Helpers for picking, reading and displaying image attachments
+ */
+
+import * as ImagePicker from 'expo-image-picker';
+import { ImageContentPart } from '../types';
+
+// Largest image we'll attach. Providers cap inline images at around 5MB and the
+// base64 copy is stored with the conversation.
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Most images one message can carry
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+// Image types every vision provider accepts
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+// Decoded size of a base64 string, without decoding it
+const getBase64Size = (data: string): number => {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+};
+
+// Split a data: URL into its MIME type and base64 payload
+const parseDataUrl = (url: string): { mimeType: string; data: string } | null => {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+/**
+ * Check an image against the size and type limits and build its content part
+ * @param mimeType - The image's MIME type
+ * @param data - Base64-encoded image data
+ * @param uri - Where the image came from on this device
+ * @throws Error with a user-facing message if the image can't be attached
+ */
+export const createImagePart = (mimeType: string, data: string, uri?: string): ImageContentPart => {
+  if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+    throw new Error('Only JPEG, PNG, GIF and WebP images can be attached.');
+  }
+
+  if (getBase64Size(data) > MAX_IMAGE_BYTES) {
+    throw new Error(`Images must be under ${MAX_IMAGE_BYTES / (1024 * 1024)}MB.`);
+  }
+
+  return { type: 'image', mimeType, data, uri };
+};
+
+/**
+ * Let the user choose images from their library
+ * @param limit - How many images may be selected
+ * @returns The chosen images, or an empty array if the picker was cancelled
+ */
+export const pickImages = async (limit: number): Promise<ImageContentPart[]> => {
+  const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error('Allow photo library access to attach images.');
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsMultipleSelection: limit > 1,
+    selectionLimit: limit,
+    base64: true,
+    // Re-encode to keep photos from the camera well under the size limit
+    quality: 0.7,
+  });
+
+  if (result.canceled) return [];
+
+  return result.assets.map(asset => {
+    // On web the asset URI is a data URL that already carries the payload
+    const dataUrl = parseDataUrl(asset.uri);
+    const data = asset.base64 || dataUrl?.data;
+    if (!data) {
+      throw new Error('Couldn\'t read the selected image.');
+    }
+
+    const extension = asset.uri.split('.').pop()?.toLowerCase() || '';
+    const mimeType = asset.mimeType || dataUrl?.mimeType || MIME_TYPES_BY_EXTENSION[extension] || 'image/jpeg';
+    return createImagePart(mimeType, data, dataUrl ? undefined : asset.uri);
+  });
+};
+
+/**
+ * Read a pasted or dropped file on web
+ * @param file - The browser File to read
+ */
+export const readImageFile = (file: File): Promise<ImageContentPart> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const parsed = parseDataUrl(String(reader.result));
+      if (!parsed) {
+        reject(new Error('Couldn\'t read the image.'));
+        return;
+      }
+
+      try {
+        resolve(createImagePart(file.type || parsed.mimeType, parsed.data));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    reader.onerror = () => reject(new Error('Couldn\'t read the image.'));
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Get a URI an Image component can display
+ * @param part - The image content part
+ */
+export const getImageUri = (part: ImageContentPart): string => {
+  // The stored base64 copy outlives the device URI, which may be a cache file
+  return `data:${part.mimeType};base64,${part.data}`;
+};
@@ -0,0 +1,324 @@
+/**
+ * Reading conversations exported from ChatGPT, Claude, or this app. ChatGPT and
+ * Claude hand out zip archives with a conversations.json inside; the JSON on its
+ * own works too. ChatGPT and Claude messages get new IDs, keeping their
+ * timestamps, branches and the models that wrote them; this app's exports keep
+ * their conversation and message IDs, which is how re-imports are spotted.
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import { Conversation, ImportSourceApp, Message, SkippedImport } from '../types';
+import { createNewConversationTitle, generateId } from './helpers';
+import { getActiveBranch } from './messageTree';
+import { CONVERSATION_EXPORT_VERSION, ConversationExportFile } from './export';
+
+// Conversations read from an export, and the ones in it that couldn't be used
+export interface ParsedImport {
+  app: ImportSourceApp;
+  conversations: Conversation[];
+  skipped: SkippedImport[];
+}
+
+export const IMPORT_APP_NAMES: Record<ImportSourceApp, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  bubl: 'bubl',
+};
+
+// Zip archives start with the local file header signature "PK\x03\x04"
+const isZip = (bytes: Uint8Array): boolean => {
+  return bytes.length > 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+};
+
+// Both apps' timestamps as milliseconds: ChatGPT uses seconds, Claude ISO strings
+const toMillis = (value: unknown, fallback: number): number => {
+  if (typeof value === 'number' && isFinite(value)) return value < 1e12 ? Math.round(value * 1000) : value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    if (!isNaN(parsed)) return parsed;
+  }
+  return fallback;
+};
+
+const getLastTimestamp = (messages: Message[], fallback: number): number => {
+  return messages.reduce((latest, message) => Math.max(latest, Number(message.timestamp)), fallback);
+};
+
+/**
+ * Walk a ChatGPT conversation's mapping tree into messages. System and tool
+ * turns, hidden messages and calls to tools are left out; what followed them
+ * hangs off the nearest message that's kept, so branches survive.
+ */
+const parseChatGPTConversation = (data: any): Conversation | null => {
+  const mapping: Record<string, any> = data.mapping || {};
+  const createdAt = toMillis(data.create_time, Date.now());
+  // Source node ID -> ID of the nearest kept message at or above it
+  const keptIds = new Map<string, string | null>();
+  const messages: Message[] = [];
+
+  const toMessage = (node: any, parentId: string | null): Message | null => {
+    const message = node?.message;
+    const role = message?.author?.role;
+    if (role !== 'user' && role !== 'assistant') return null;
+    if (message.metadata?.is_visually_hidden_from_conversation) return null;
+    // Assistant turns addressed to a tool are calls, not answers
+    if (role === 'assistant' && message.recipient && message.recipient !== 'all') return null;
+
+    const contentType = message.content?.content_type;
+    if (contentType !== 'text' && contentType !== 'multimodal_text') return null;
+    const content = (message.content.parts || [])
+      .filter((part: unknown): part is string => typeof part === 'string')
+      .join('\n')
+      .trim();
+    if (!content) return null;
+
+    const model = message.metadata?.model_slug || (role === 'assistant' ? data.default_model_slug : undefined);
+    return {
+      id: generateId(),
+      role,
+      content,
+      timestamp: toMillis(message.create_time, createdAt),
+      parentId,
+      ...(typeof model === 'string' && model && { model }),
+    };
+  };
+
+  // Iterative, since long conversations make deep trees
+  const roots = Object.keys(mapping).filter(id => !mapping[id]?.parent || !mapping[mapping[id].parent]);
+  const stack: Array<{ id: string; parentId: string | null }> = roots.reverse().map(id => ({ id, parentId: null }));
+  while (stack.length > 0) {
+    const { id, parentId } = stack.pop()!;
+    if (keptIds.has(id)) continue;
+
+    const node = mapping[id];
+    const message = toMessage(node, parentId);
+    if (message) messages.push(message);
+    const keptId = message ? message.id : parentId;
+    keptIds.set(id, keptId);
+
+    const children: string[] = (node?.children || []).filter((childId: string) => mapping[childId]);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ id: children[i], parentId: keptId });
+    }
+  }
+
+  if (messages.length === 0) return null;
+
+  return {
+    id: generateId(),
+    title: (typeof data.title === 'string' && data.title.trim()) || createNewConversationTitle(messages[0].content),
+    titleSource: 'generated',
+    messages,
+    currentLeafId: (data.current_node && keptIds.get(data.current_node)) || undefined,
+    createdAt,
+    updatedAt: toMillis(data.update_time, getLastTimestamp(messages, createdAt)),
+    importSource: { app: 'chatgpt', id: String(data.conversation_id || data.id || '') },
+  };
+};
+
+// A Claude message's text, with the text of any attached files after it
+const getClaudeMessageText = (message: any): string => {
+  const blocks = Array.isArray(message.content)
+    ? message.content.filter((block: any) => block?.type === 'text' && typeof block.text === 'string')
+    : [];
+  const text = blocks.length > 0
+    ? blocks.map((block: any) => block.text).join('\n')
+    : typeof message.text === 'string' ? message.text : '';
+
+  const attachments = (message.attachments || [])
+    .filter((attachment: any) => typeof attachment?.extracted_content === 'string' && attachment.extracted_content.trim())
+    .map((attachment: any) => `[Attached file: ${attachment.file_name || 'untitled'}]\n${attachment.extracted_content.trim()}`);
+
+  return [text.trim(), ...attachments].filter(Boolean).join('\n\n');
+};
+
+/**
+ * Turn a Claude conversation into messages. Newer exports link each message
+ * to the one before it, which keeps edits and retries as branches; older ones
+ * are a plain list.
+ */
+const parseClaudeConversation = (data: any): Conversation | null => {
+  const createdAt = toMillis(data.created_at, Date.now());
+  const source: any[] = Array.isArray(data.chat_messages) ? data.chat_messages : [];
+  const idMap = new Map<string, string>();
+  const messages: Message[] = [];
+  const model = typeof data.model === 'string' && data.model ? data.model : undefined;
+
+  source.forEach(item => {
+    if (item?.sender !== 'human' && item?.sender !== 'assistant') return;
+    const content = getClaudeMessageText(item);
+    if (!content) return;
+
+    const role = item.sender === 'human' ? 'user' : 'assistant';
+    const linkedParent = typeof item.parent_message_uuid === 'string' ? idMap.get(item.parent_message_uuid) : undefined;
+    const message: Message = {
+      id: generateId(),
+      role,
+      content,
+      timestamp: toMillis(item.created_at, createdAt),
+      parentId: linkedParent ?? (messages.length > 0 ? messages[messages.length - 1].id : null),
+      ...(role === 'assistant' && model && { model }),
+    };
+    if (typeof item.uuid === 'string') idMap.set(item.uuid, message.id);
+    messages.push(message);
+  });
+
+  if (messages.length === 0) return null;
+
+  return {
+    id: generateId(),
+    title: (typeof data.name === 'string' && data.name.trim()) || createNewConversationTitle(messages[0].content),
+    titleSource: 'generated',
+    messages,
+    // The latest message is on the branch that was last used
+    currentLeafId: messages.reduce((latest, message) =>
+      Number(message.timestamp) >= Number(latest.timestamp) ? message : latest
+    ).id,
+    createdAt,
+    updatedAt: toMillis(data.updated_at, getLastTimestamp(messages, createdAt)),
+    importSource: { app: 'claude', id: String(data.uuid || '') },
+  };
+};
+
+const isBublMessage = (message: any): message is Message => {
+  return typeof message?.id === 'string'
+    && (message.role === 'user' || message.role === 'assistant')
+    && typeof message.content === 'string'
+    && (typeof message.timestamp === 'number' || typeof message.timestamp === 'string');
+};
+
+// One of this app's JSON exports, back into conversations as they were
+const parseBublConversation = (data: any): Conversation | null => {
+  if (typeof data?.id !== 'string' || !Array.isArray(data.messages)) {
+    throw new Error('Not a conversation');
+  }
+  if (data.messages.length === 0) return null;
+  // Thrown so the conversation is listed as one that couldn't be read
+  if (!data.messages.every(isBublMessage)) throw new Error('Malformed message');
+  const { generation, personaName, folderName, tagNames, ...conversation } = data;
+  return conversation;
+};
+
+const parseAll = (
+  app: ImportSourceApp,
+  items: any[],
+  parse: (item: any) => Conversation | null,
+  getTitle: (item: any) => unknown
+): ParsedImport => {
+  const conversations: Conversation[] = [];
+  const skipped: SkippedImport[] = [];
+
+  items.forEach((item, index) => {
+    const rawTitle = getTitle(item);
+    const title = typeof rawTitle === 'string' && rawTitle.trim() ? rawTitle.trim() : `Conversation ${index + 1}`;
+    try {
+      const conversation = parse(item);
+      if (conversation) {
+        conversations.push(conversation);
+      } else {
+        skipped.push({ title, reason: 'No messages to import' });
+      }
+    } catch {
+      skipped.push({ title, reason: 'Couldn\'t be read' });
+    }
+  });
+
+  return { app, conversations, skipped };
+};
+
+/**
+ * Read the conversations in an export: a ChatGPT or Claude zip archive, their
+ * conversations.json, or a JSON export from this app
+ * @param bytes - The file's contents
+ * @throws Error with a user-facing message if the file isn't a known export
+ */
+export const parseConversationExport = (bytes: Uint8Array): ParsedImport => {
+  let json: string;
+  if (isZip(bytes)) {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(bytes, { filter: file => /(^|\/)conversations\.json$/.test(file.name) });
+    } catch {
+      throw new Error('The archive couldn\'t be opened.');
+    }
+    const [conversationsFile] = Object.values(files);
+    if (!conversationsFile) throw new Error('The archive has no conversations.json in it.');
+    json = strFromU8(conversationsFile);
+  } else {
+    json = strFromU8(bytes);
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file isn\'t valid JSON.');
+  }
+
+  if (data?.format === 'bubl-conversations') {
+    if (typeof data.version === 'number' && data.version > CONVERSATION_EXPORT_VERSION) {
+      throw new Error('The file was exported by a newer version of the app.');
+    }
+    const file = data as ConversationExportFile;
+    return parseAll('bubl', Array.isArray(file.conversations) ? file.conversations : [], parseBublConversation, item => item?.title);
+  }
+
+  const items: any[] = Array.isArray(data) ? data : [];
+  if (items.some(item => item?.mapping)) {
+    return parseAll('chatgpt', items, parseChatGPTConversation, item => item?.title);
+  }
+  if (items.some(item => Array.isArray(item?.chat_messages))) {
+    return parseAll('claude', items, parseClaudeConversation, item => item?.name);
+  }
+
+  throw new Error('This isn\'t a ChatGPT, Claude or bubl export.');
+};
+
+// What a conversation says, for spotting the same conversation brought in another way
+const getFingerprint = (conversation: Conversation): string => {
+  return getActiveBranch(conversation)
+    .filter(message => !message.isError && !message.isLoading)
+    .map(message => `${message.role}:${message.content.trim()}`)
+    .join('\n');
+};
+
+/**
+ * Split imported conversations into new ones and ones already here: the same
+ * source conversation imported before, or the same messages on its selected branch
+ * @param imported - Conversations read from an export
+ * @param existing - The conversations already saved
+ */
+export const dedupeImports = (
+  imported: Conversation[],
+  existing: Conversation[]
+): { added: Conversation[]; skipped: SkippedImport[] } => {
+  const sourceKeys = new Set<string>();
+  const fingerprints = new Set<string>();
+  const ids = new Set<string>();
+  const remember = (conversation: Conversation) => {
+    if (conversation.importSource?.id) {
+      sourceKeys.add(`${conversation.importSource.app}:${conversation.importSource.id}`);
+    }
+    fingerprints.add(getFingerprint(conversation));
+    ids.add(conversation.id);
+  };
+  existing.forEach(remember);
+
+  const added: Conversation[] = [];
+  const skipped: SkippedImport[] = [];
+
+  imported.forEach(conversation => {
+    const source = conversation.importSource;
+    if ((source?.id && sourceKeys.has(`${source.app}:${source.id}`)) || ids.has(conversation.id)) {
+      skipped.push({ title: conversation.title, reason: 'Already imported' });
+    } else if (fingerprints.has(getFingerprint(conversation))) {
+      skipped.push({ title: conversation.title, reason: 'Same messages as an existing conversation' });
+    } else {
+      added.push(conversation);
+      // Duplicates within the same export are caught too
+      remember(conversation);
+    }
+  });
+
+  return { added, skipped };
+};
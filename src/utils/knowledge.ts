@@ -0,0 +1,300 @@
+/**
+ * Retrieval over knowledge documents: chunking, keyword (BM25) and optional
+ * embedding search, and the prompt section and citations for what was found.
+ * Everything runs on the device except the embedding requests.
+ */
+
+import { Citation, DocumentChunk, KnowledgeDocument, LLMModel, LLMOption, Message } from '../types';
+import { embedTexts } from './api';
+import { generateId, omitUndefined } from './helpers';
+import { DocumentSource } from './documents';
+
+// Target chunk size, in characters; roughly 250 tokens
+const CHUNK_SIZE = 1000;
+
+// Characters repeated between consecutive pieces of a paragraph too long for one
+// chunk, so a sentence cut in two is still found whole in one of them
+const CHUNK_OVERLAP = 150;
+
+// Passages added to each prompt
+export const MAX_RETRIEVED_PASSAGES = 4;
+
+// Texts per embedding request, well under every provider's batch limit
+const EMBEDDING_BATCH_SIZE = 32;
+
+// Decimal places kept in stored embeddings; more only makes the saved JSON bigger
+const EMBEDDING_PRECISION = 1e4;
+
+// Standard BM25 term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Damping for reciprocal rank fusion of the keyword and embedding rankings
+const RRF_K = 60;
+
+export interface RetrievedPassage {
+  document: KnowledgeDocument;
+  chunk: DocumentChunk;
+  score: number;
+}
+
+/**
+ * Split text into words for indexing and querying
+ * @param text - Any text
+ */
+export const tokenize = (text: string): string[] => {
+  return text.toLowerCase().split(/[^\w\u00C0-\uFFFF]+/).filter(word => word.length > 1);
+};
+
+// Cut a paragraph longer than a chunk into overlapping pieces, at spaces where possible
+const splitLongParagraph = (paragraph: string): string[] => {
+  const pieces: string[] = [];
+  let start = 0;
+
+  while (start < paragraph.length) {
+    let end = Math.min(paragraph.length, start + CHUNK_SIZE);
+    if (end < paragraph.length) {
+      const lastSpace = paragraph.lastIndexOf(' ', end);
+      if (lastSpace > start + CHUNK_SIZE / 2) end = lastSpace;
+    }
+    pieces.push(paragraph.slice(start, end).trim());
+    if (end >= paragraph.length) break;
+    start = end - CHUNK_OVERLAP;
+  }
+
+  return pieces;
+};
+
+/**
+ * Split a document into passages of about CHUNK_SIZE characters, keeping
+ * paragraphs together where they fit
+ * @param text - The document's text
+ */
+export const chunkText = (text: string): string[] => {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > CHUNK_SIZE) {
+      chunks.push(current);
+      current = '';
+    }
+
+    if (paragraph.length > CHUNK_SIZE) {
+      chunks.push(...splitLongParagraph(paragraph));
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+// Embed any number of texts in batches; null if the provider can't embed
+const embedInBatches = async (option: LLMOption, texts: string[]): Promise<number[][] | null> => {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = await embedTexts(option, texts.slice(i, i + EMBEDDING_BATCH_SIZE));
+    if (!batch) return null;
+    vectors.push(...batch.map(vector => vector.map(value => Math.round(value * EMBEDDING_PRECISION) / EMBEDDING_PRECISION)));
+  }
+  return vectors;
+};
+
+/**
+ * Chunk a document and, given an embedding model, embed its chunks. A failed
+ * embedding leaves the document searchable by keyword only.
+ * @param source - The document's name, kind and text
+ * @param target - The conversation or persona it belongs to
+ * @param embeddingOption - The option whose provider embeds the chunks, if any
+ */
+export const indexDocument = async (
+  source: DocumentSource,
+  target: { conversationId?: string; personaId?: string },
+  embeddingOption?: LLMOption
+): Promise<KnowledgeDocument> => {
+  const chunks: DocumentChunk[] = chunkText(source.text).map((text, index) => ({ id: generateId(), index, text }));
+  let embeddingModel: LLMModel | undefined;
+
+  if (embeddingOption) {
+    try {
+      const vectors = await embedInBatches(embeddingOption, chunks.map(chunk => chunk.text));
+      if (vectors) {
+        chunks.forEach((chunk, index) => { chunk.embedding = vectors[index]; });
+        embeddingModel = embeddingOption.name;
+      }
+    } catch (error) {
+      console.warn(`[knowledge] Couldn't embed ${source.name}, using keyword search only:`, error);
+    }
+  }
+
+  return {
+    id: generateId(),
+    name: source.name,
+    kind: source.kind,
+    ...omitUndefined(target),
+    chunks,
+    ...omitUndefined({ embeddingModel }),
+    createdAt: Date.now(),
+  };
+};
+
+/**
+ * Embed a query for comparison with embedded chunks
+ * @param option - The option whose provider embedded the documents
+ * @param query - The text to search for
+ * @returns The vector, or null if the provider can't embed
+ */
+export const embedQuery = async (option: LLMOption, query: string): Promise<number[] | null> => {
+  const vectors = await embedTexts(option, [query]);
+  return vectors ? vectors[0] : null;
+};
+
+// Term counts per chunk, worked out once per chunk object
+const chunkTermCache = new WeakMap<DocumentChunk, { counts: Map<string, number>; length: number }>();
+
+const getChunkTerms = (chunk: DocumentChunk) => {
+  let terms = chunkTermCache.get(chunk);
+  if (!terms) {
+    const words = tokenize(chunk.text);
+    const counts = new Map<string, number>();
+    words.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+    terms = { counts, length: words.length };
+    chunkTermCache.set(chunk, terms);
+  }
+  return terms;
+};
+
+// BM25 score of each chunk for the query, treating the chunks as the whole corpus
+const scoreBM25 = (chunks: DocumentChunk[], query: string): number[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const stats = chunks.map(getChunkTerms);
+  const averageLength = stats.reduce((sum, chunk) => sum + chunk.length, 0) / (stats.length || 1) || 1;
+
+  const idf = new Map(queryTerms.map(term => {
+    const documentFrequency = stats.filter(chunk => chunk.counts.has(term)).length;
+    return [term, Math.log(1 + (stats.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+  }));
+
+  return stats.map(chunk => queryTerms.reduce((score, term) => {
+    const frequency = chunk.counts.get(term) || 0;
+    if (frequency === 0) return score;
+    const normalization = BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength);
+    return score + idf.get(term)! * frequency * (BM25_K1 + 1) / (frequency + normalization);
+  }, 0));
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Indices of the scored items, best first, leaving out unscored ones
+const rankIndices = (scores: (number | null)[]): number[] => {
+  return scores
+    .map((score, index) => ({ score, index }))
+    .filter((item): item is { score: number; index: number } => item.score !== null && item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(item => item.index);
+};
+
+/**
+ * Find the passages that best match a query. Keyword and embedding rankings are
+ * merged by reciprocal rank fusion; chunks embedded with another model than the
+ * query only take part through their keywords.
+ * @param documents - The documents to search
+ * @param query - The text to search for
+ * @param queryEmbedding - The query's vector and the model that made it, if any
+ * @param limit - Most passages to return
+ */
+export const retrievePassages = (
+  documents: KnowledgeDocument[],
+  query: string,
+  queryEmbedding?: { model: LLMModel; vector: number[] } | null,
+  limit: number = MAX_RETRIEVED_PASSAGES
+): RetrievedPassage[] => {
+  const candidates = documents.flatMap(document => document.chunks.map(chunk => ({ document, chunk })));
+  if (candidates.length === 0 || !query.trim()) return [];
+
+  const rankings = [rankIndices(scoreBM25(candidates.map(candidate => candidate.chunk), query))];
+
+  if (queryEmbedding) {
+    rankings.push(rankIndices(candidates.map(({ document, chunk }) =>
+      document.embeddingModel === queryEmbedding.model && chunk.embedding?.length === queryEmbedding.vector.length
+        ? cosineSimilarity(chunk.embedding, queryEmbedding.vector)
+        : null
+    )));
+  }
+
+  const fused = new Map<number, number>();
+  rankings.forEach(ranking => ranking.forEach((candidateIndex, rank) => {
+    fused.set(candidateIndex, (fused.get(candidateIndex) || 0) + 1 / (RRF_K + rank + 1));
+  }));
+
+  return Array.from(fused.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([candidateIndex, score]) => ({ ...candidates[candidateIndex], score }));
+};
+
+/**
+ * The text to search documents with: the latest user message, plus the one
+ * before it so short follow-up questions keep their subject
+ * @param messages - The conversation branch being answered
+ */
+export const getRetrievalQuery = (messages: Message[]): string => {
+  return messages
+    .filter(message => message.role === 'user' && message.content)
+    .slice(-2)
+    .map(message => message.content)
+    .join('\n');
+};
+
+/**
+ * Add retrieved passages to a system prompt, numbered for citation
+ * @param systemPrompt - The prompt to extend
+ * @param passages - The passages, best first
+ */
+export const buildKnowledgePrompt = (systemPrompt: string, passages: RetrievedPassage[]): string => {
+  if (passages.length === 0) return systemPrompt;
+
+  const list = passages
+    .map(({ document, chunk }, index) => `[${index + 1}] ${document.name}, part ${chunk.index + 1}:\n${chunk.text}`)
+    .join('\n\n');
+  return `${systemPrompt}\n\nPassages from the user's documents that may help. When you use one, cite it by its ` +
+    `number in square brackets, like [1]. If none of them is relevant, answer normally without citing.\n\n${list}`;
+};
+
+/**
+ * The citations an answer actually makes, in the order of their numbers
+ * @param passages - The passages the model was given, numbered from 1
+ * @param text - The answer
+ */
+export const getCitations = (passages: RetrievedPassage[], text: string): Citation[] => {
+  const cited = new Set(Array.from(text.matchAll(/\[(\d+)\]/g), match => parseInt(match[1], 10)));
+
+  return passages
+    .map(({ document, chunk }, index) => ({
+      number: index + 1,
+      documentId: document.id,
+      documentName: document.name,
+      chunkId: chunk.id,
+      chunkIndex: chunk.index,
+      text: chunk.text,
+    }))
+    .filter(citation => cited.has(citation.number));
+};
@@ -0,0 +1,173 @@
+/**
+ * Typed errors and retry policy for LLM provider calls
+ */
+
+import { LLMErrorKind } from '../types';
+
+export type { LLMErrorKind };
+
+// Kinds that are worth retrying automatically
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate_limited', 'overloaded', 'network'];
+
+// Phrases providers use when the prompt doesn't fit in the model's context window
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|context window|maximum context|prompt is too long|too many tokens|exceeds? the (maximum|max)? ?.*tokens/i;
+
+// Phrases that mean the account is out of credit rather than briefly throttled
+const QUOTA_PATTERN = /quota|billing|credit balance/i;
+
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+  retryable: boolean;
+
+  constructor(
+    kind: LLMErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? RETRYABLE_KINDS.includes(kind);
+  }
+}
+
+/**
+ * Parse the Retry-After family of headers into milliseconds
+ * @param headers - Response headers from the provider
+ * @returns Delay in milliseconds, or undefined if the server didn't say
+ */
+export const parseRetryAfter = (headers: Headers): number | undefined => {
+  // OpenAI sends a millisecond-precision variant alongside the standard header
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  // Retry-After may also be an HTTP date
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Classify a non-OK provider response into a typed error
+ * @param status - HTTP status code
+ * @param message - Error message extracted from the response body
+ * @param headers - Response headers, used for Retry-After
+ * @param source - Provider or model name to prefix the message with
+ */
+export const classifyHttpError = (
+  status: number,
+  message: string,
+  headers: Headers,
+  source: string
+): LLMError => {
+  const fullMessage = `${source} API error: ${message}`;
+  const retryAfterMs = parseRetryAfter(headers);
+
+  if (status === 401 || status === 403) {
+    return new LLMError('auth', fullMessage, { status });
+  }
+
+  if (status === 429) {
+    // An exhausted quota won't recover by waiting a few seconds
+    const isQuota = QUOTA_PATTERN.test(message);
+    return new LLMError('rate_limited', fullMessage, { status, retryAfterMs, retryable: !isQuota });
+  }
+
+  // 529 is Anthropic's "overloaded" status; 5xx are transient server failures
+  if (status === 529 || status >= 500) {
+    return new LLMError('overloaded', fullMessage, { status, retryAfterMs });
+  }
+
+  if (CONTEXT_LENGTH_PATTERN.test(message)) {
+    return new LLMError('context_length', fullMessage, { status });
+  }
+
+  if (status === 400 || status === 404 || status === 422) {
+    return new LLMError('bad_request', fullMessage, { status });
+  }
+
+  return new LLMError('unknown', fullMessage, { status });
+};
+
+/**
+ * Get the error kind of anything thrown during an LLM call
+ * @param error - The caught error
+ */
+export const getErrorKind = (error: unknown): LLMErrorKind => {
+  return error instanceof LLMError ? error.kind : 'unknown';
+};
+
+/**
+ * User-facing explanation for each error kind
+ * @param kind - The error kind stored on the message
+ */
+export const describeLLMError = (kind: LLMErrorKind): string => {
+  switch (kind) {
+    case 'auth':
+      return 'The API key was rejected. Check the key for this provider in Settings.';
+    case 'rate_limited':
+      return 'The provider is rate limiting requests or your quota is used up. Wait a moment and try again.';
+    case 'overloaded':
+      return 'The provider is overloaded or having problems right now. Try again shortly or switch models.';
+    case 'context_length':
+      return 'This conversation is too long for the selected model. Start a new chat or pick a model with a larger context window.';
+    case 'network':
+      return 'Couldn\'t reach the provider. Check your internet connection or the endpoint URL.';
+    case 'blocked':
+      return 'The provider\'s safety filters blocked this request or its response.';
+    case 'bad_request':
+      return 'The provider rejected the request. The selected model may not be available for your key.';
+    case 'unsupported_input':
+      return 'The selected model can\'t read images. Remove the attachments or switch to a vision-capable model.';
+    case 'missing_fixture':
+      return 'Replay mode has no recorded response for this request. Record it first or turn off replay in Settings.';
+    default:
+      return 'Something went wrong while generating a response.';
+  }
+};
+
+// Retry policy for LLM calls
+export interface RetryPolicy {
+  // Total attempts, including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Total time we're willing to spend waiting between attempts
+  budgetMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  budgetMs: 45000,
+};
+
+/**
+ * Work out how long to wait before the next attempt
+ * @param error - The error from the failed attempt
+ * @param attempt - Zero-based index of the attempt that failed
+ * @param policy - The retry policy in effect
+ * @returns Delay in milliseconds (full jitter, or the server's Retry-After)
+ */
+export const getRetryDelay = (error: LLMError, attempt: number, policy: RetryPolicy): number => {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
@@ -0,0 +1,162 @@
+/**
+ * Long-term memory: facts and preferences about the user that carry over
+ * between conversations. Relevant memories are added to the system prompt,
+ * and finished conversations are scanned for new ones.
+ */
+
+import { LLMOption, Memory, Message } from '../types';
+import { callLLM } from './api';
+import { DEFAULT_RETRY_POLICY } from './llmErrors';
+import { getProvider } from './providers';
+
+// Most memories added to one system prompt
+export const MAX_PROMPT_MEMORIES = 12;
+
+// Longest memory kept, in characters; memories are meant to be single facts
+export const MAX_MEMORY_LENGTH = 300;
+
+// Characters of transcript sent for extraction, counted from the end
+const MAX_TRANSCRIPT_LENGTH = 12000;
+
+const EXTRACTION_SYSTEM_PROMPT = 'You pick out lasting facts about the user from a conversation: their name, ' +
+  'job, location, projects, tools, preferences for how answers should be written, and anything they asked to ' +
+  'be remembered. Ignore one-off requests, facts about the world and anything already known. Reply with a JSON ' +
+  'array of short sentences in the third person, such as ["Prefers metric units"], or [] if there is nothing new.';
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'that', 'this', 'have', 'has', 'was',
+  'what', 'how', 'can', 'does', 'they', 'their', 'them', 'from', 'about', 'into', 'when', 'will', 'would',
+]);
+
+const getWords = (text: string): Set<string> => {
+  return new Set(
+    text.toLowerCase().split(/[^\w\u00C0-\uFFFF]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  );
+};
+
+// Compare memories ignoring case, spacing and trailing punctuation
+const normalizeMemory = (content: string): string => {
+  return content.toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '').trim();
+};
+
+/**
+ * Trim a memory to the stored form, or return an empty string if there's nothing to keep
+ * @param content - The memory as typed or extracted
+ */
+export const cleanMemory = (content: string): string => {
+  return content.replace(/\s+/g, ' ').trim().substring(0, MAX_MEMORY_LENGTH);
+};
+
+/**
+ * Whether a memory says the same as one already stored
+ * @param content - The candidate memory
+ * @param memories - The stored memories
+ */
+export const isDuplicateMemory = (content: string, memories: Memory[]): boolean => {
+  const normalized = normalizeMemory(content);
+  return memories.some(memory => normalizeMemory(memory.content) === normalized);
+};
+
+/**
+ * Choose the memories worth sending with a message. Small stores are sent whole;
+ * larger ones by how many words a memory shares with the message, then by age.
+ * @param memories - The enabled memories
+ * @param query - The message being answered
+ * @param limit - Most memories to return
+ */
+export const selectRelevantMemories = (
+  memories: Memory[],
+  query: string,
+  limit: number = MAX_PROMPT_MEMORIES
+): Memory[] => {
+  if (memories.length <= limit) return memories;
+
+  const queryWords = getWords(query);
+  return memories
+    .map(memory => ({
+      memory,
+      score: Array.from(getWords(memory.content)).filter(word => queryWords.has(word)).length,
+    }))
+    .sort((a, b) => b.score - a.score || b.memory.updatedAt - a.memory.updatedAt)
+    .slice(0, limit)
+    .map(({ memory }) => memory);
+};
+
+/**
+ * Add memories to a system prompt
+ * @param systemPrompt - The conversation's system prompt
+ * @param memories - The memories to include
+ */
+export const buildMemoryPrompt = (systemPrompt: string, memories: Memory[]): string => {
+  if (memories.length === 0) return systemPrompt;
+
+  const list = memories.map(memory => `- ${memory.content}`).join('\n');
+  return `${systemPrompt}\n\nWhat you remember about the user from earlier conversations ` +
+    `(use it where relevant, without mentioning this list):\n${list}`;
+};
+
+/**
+ * Whether a model can pick memories out of a conversation. On-device models only
+ * echo or play a script.
+ * @param option - The model that would read the conversation
+ */
+export const canExtractMemories = (option: LLMOption): boolean => {
+  const adapter = getProvider(option.providerId);
+  return !!adapter && !('respond' in adapter);
+};
+
+// Models wrap JSON in prose or code fences often enough to look for the array
+const parseMemoryList = (text: string): string[] => {
+  const match = text.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Ask a model for new memories from part of a conversation
+ * @param option - The model to ask
+ * @param messages - The messages not scanned yet, oldest first
+ * @param memories - The stored memories, so the model can skip what's known
+ * @returns New memories, cleaned and without duplicates of stored ones
+ */
+export const extractMemories = async (
+  option: LLMOption,
+  messages: Message[],
+  memories: Memory[]
+): Promise<string[]> => {
+  const transcript = messages
+    .filter(message => !message.isError && message.content)
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n')
+    .slice(-MAX_TRANSCRIPT_LENGTH);
+  if (!transcript) return [];
+
+  const known = memories.map(memory => `- ${memory.content}`).join('\n');
+  const request = `${known ? `Already known:\n${known}\n\n` : ''}Conversation:\n${transcript}`;
+
+  const response = await callLLM({
+    llmOption: option,
+    messages: [{ role: 'user', content: [{ type: 'text', text: request }] }],
+    systemPrompt: EXTRACTION_SYSTEM_PROMPT,
+    maxTokens: 400,
+    temperature: 0.2,
+    // Extraction runs in the background and can wait for the next conversation
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 },
+  });
+
+  const extracted: string[] = [];
+  for (const item of parseMemoryList(response.text)) {
+    const content = cleanMemory(item);
+    if (!content || isDuplicateMemory(content, memories)) continue;
+    if (extracted.some(other => normalizeMemory(other) === normalizeMemory(content))) continue;
+    extracted.push(content);
+  }
+  return extracted;
+};
@@ -0,0 +1,124 @@
+/**
+ * Conversations as message trees. Each message points at the one it follows
+ * through parentId, so messages sharing a parent are alternative versions of
+ * each other, such as regenerated answers. The conversation's currentLeafId
+ * picks the branch that is shown and sent to the model.
+ */
+
+import { Conversation, Message } from '../types';
+
+// Messages saved before branching existed have no parentId at all; first messages have null
+const getParentId = (message: Message): string | null => message.parentId ?? null;
+
+/**
+ * The messages on the selected branch, from the first message down to the current leaf
+ * @param conversation - The conversation to walk
+ */
+export const getActiveBranch = (conversation: Pick<Conversation, 'messages' | 'currentLeafId'>): Message[] => {
+  const { messages } = conversation;
+  if (messages.length === 0) return [];
+
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const branch: Message[] = [];
+  let current: Message | undefined =
+    (conversation.currentLeafId && byId.get(conversation.currentLeafId)) || messages[messages.length - 1];
+
+  while (current) {
+    branch.push(current);
+    const parentId = getParentId(current);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+
+  return branch.reverse();
+};
+
+/**
+ * The messages that follow a message, oldest first
+ * @param messages - Every message in the conversation
+ * @param parentId - The message to look under, or null for the first messages
+ */
+export const getChildren = (messages: Message[], parentId: string | null): Message[] => {
+  return messages.filter(message => getParentId(message) === parentId);
+};
+
+/**
+ * A message and its alternatives, oldest first
+ * @param messages - Every message in the conversation
+ * @param message - The message whose siblings to find
+ */
+export const getSiblings = (messages: Message[], message: Message): Message[] => {
+  return getChildren(messages, getParentId(message));
+};
+
+/**
+ * The leaf reached by following the newest reply down from a message, which
+ * is where switching to that message's branch should land
+ * @param messages - Every message in the conversation
+ * @param messageId - The message to start from
+ */
+export const getLatestLeafId = (messages: Message[], messageId: string): string => {
+  let leafId = messageId;
+  let children = getChildren(messages, leafId);
+
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = getChildren(messages, leafId);
+  }
+
+  return leafId;
+};
+
+/**
+ * Remove a message along with everything that follows it
+ * @param messages - Every message in the conversation
+ * @param messageId - The message to remove
+ */
+export const removeSubtree = (messages: Message[], messageId: string): Message[] => {
+  const removed = new Set([messageId]);
+  // Parents always come before their replies, so one pass finds every descendant
+  for (const message of messages) {
+    const parentId = getParentId(message);
+    if (parentId && removed.has(parentId)) removed.add(message.id);
+  }
+  return messages.filter(message => !removed.has(message.id));
+};
+
+/**
+ * Add messages to the end of the selected branch, each following the one before
+ * @param conversation - The conversation to add to
+ * @param newMessages - Messages in order; their parentIds are filled in
+ * @returns The conversation with the messages added and selected
+ */
+export const appendToBranch = (conversation: Conversation, newMessages: Message[]): Conversation => {
+  let parentId = getActiveBranch(conversation).slice(-1)[0]?.id ?? null;
+  const linked = newMessages.map(message => {
+    const linkedMessage = { ...message, parentId };
+    parentId = message.id;
+    return linkedMessage;
+  });
+
+  return {
+    ...conversation,
+    messages: [...conversation.messages, ...linked],
+    currentLeafId: parentId ?? undefined,
+  };
+};
+
+/**
+ * Turn a conversation saved as a flat list into a single-branch tree
+ * @param conversation - A conversation as loaded from storage
+ */
+export const migrateConversationTree = (conversation: Conversation): Conversation => {
+  if (conversation.messages.every(message => message.parentId !== undefined)) {
+    return conversation;
+  }
+
+  return {
+    ...conversation,
+    messages: conversation.messages.map((message, index) => ({
+      ...message,
+      parentId: index === 0 ? null : conversation.messages[index - 1].id,
+    })),
+    currentLeafId: conversation.messages[conversation.messages.length - 1]?.id,
+  };
+};
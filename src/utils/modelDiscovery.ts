@@ -0,0 +1,145 @@
+/**
+ * Refreshing the model list from the providers' model list endpoints
+ */
+
+import { LLMOption, ModelRefreshResult } from '../types';
+import { getApiKey, listProviderModels } from './api';
+import { isReplaying } from './fixtures';
+import { DiscoveredModel, getKnownContextWindow, getProvider } from './providers';
+
+// One model list to query, with the option whose provider, auth and endpoint it uses
+interface ModelSource {
+  option: LLMOption;
+  // Existing options whose models this list covers
+  covers: (option: LLMOption) => boolean;
+}
+
+const normalizeBaseUrl = (baseUrl?: string): string => (baseUrl || '').replace(/\/+$/, '');
+
+// The model lists worth querying: each built-in provider with a key (or with
+// replayed fixtures), and each distinct custom endpoint
+const getModelSources = async (options: LLMOption[]): Promise<ModelSource[]> => {
+  const sources: ModelSource[] = [];
+  const seen = new Set<string>();
+  const replaying = await isReplaying();
+
+  for (const option of options) {
+    const adapter = getProvider(option.providerId);
+    if (!adapter || 'respond' in adapter || !adapter.buildModelsRequest) continue;
+
+    if (adapter.capabilities.customEndpoint) {
+      const baseUrl = normalizeBaseUrl(option.baseUrl);
+      const key = `${adapter.id} ${baseUrl}`;
+      if (!baseUrl || seen.has(key)) continue;
+      seen.add(key);
+      sources.push({
+        option,
+        covers: other => other.providerId === adapter.id && normalizeBaseUrl(other.baseUrl) === baseUrl,
+      });
+    } else {
+      if (seen.has(adapter.id)) continue;
+      seen.add(adapter.id);
+      if (adapter.auth.type !== 'none' && !replaying && !(await getApiKey(adapter.id))) continue;
+      sources.push({
+        option,
+        covers: other => other.providerId === adapter.id,
+      });
+    }
+  }
+
+  return sources;
+};
+
+// A display name not used by any other option, since conversations refer to models by name
+const getUniqueName = (name: string, option: LLMOption, takenNames: Set<string>): string => {
+  const candidates = [name, `${name} (${option.provider})`, `${name} (${option.modelId})`];
+  const unique = candidates.find(candidate => !takenNames.has(candidate));
+  if (unique) return unique;
+
+  let suffix = 2;
+  while (takenNames.has(`${name} ${suffix}`)) suffix++;
+  return `${name} ${suffix}`;
+};
+
+// Apply what a model list said about an existing option
+const applyDiscoveredModel = (option: LLMOption, model: DiscoveredModel): LLMOption => ({
+  ...option,
+  description: option.description || model.description,
+  contextWindow: model.contextWindow || option.contextWindow || getKnownContextWindow(model.modelId),
+  supportsVision: model.supportsVision ?? option.supportsVision,
+  supportsTools: model.supportsTools ?? option.supportsTools,
+  availability: model.deprecated ? 'deprecated' : 'available',
+});
+
+/**
+ * Query each provider's model list and merge the results into the options.
+ * Listed models update their options' metadata or are added as new options;
+ * options a queried provider no longer lists are marked missing but kept, as are
+ * options of providers that couldn't be queried.
+ * @param options - The current LLM options
+ * @returns The merged options and a summary of what changed
+ */
+export const discoverModels = async (
+  options: LLMOption[]
+): Promise<{ options: LLMOption[]; result: ModelRefreshResult }> => {
+  const result: ModelRefreshResult = { added: 0, updated: 0, missing: 0, failures: [] };
+  let merged = [...options];
+
+  for (const source of await getModelSources(options)) {
+    const adapter = getProvider(source.option.providerId);
+    const sourceName = adapter?.capabilities.customEndpoint ? source.option.name : adapter?.name || source.option.providerId;
+
+    let models: DiscoveredModel[] | null;
+    try {
+      models = await listProviderModels(source.option);
+    } catch (error) {
+      result.failures.push({ provider: sourceName, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    if (!models) continue;
+
+    const modelsById = new Map(models.map(model => [model.modelId, model]));
+    const matchedIds = new Set<string>();
+
+    merged = merged.map(option => {
+      if (!source.covers(option)) return option;
+
+      const model = modelsById.get(option.modelId);
+      const updated = model
+        ? applyDiscoveredModel(option, model)
+        : { ...option, availability: 'missing' as const };
+      if (model) matchedIds.add(model.modelId);
+
+      if (!model && option.availability !== 'missing') result.missing += 1;
+      if (model && JSON.stringify(updated) !== JSON.stringify(option)) result.updated += 1;
+      return updated;
+    });
+
+    const takenNames = new Set(merged.map(option => option.name));
+    const takenIds = new Set(merged.map(option => option.id));
+
+    for (const model of models) {
+      if (matchedIds.has(model.modelId)) continue;
+
+      // New models inherit the provider label, and for custom endpoints the URL and auth
+      const template: LLMOption = {
+        ...source.option,
+        modelId: model.modelId,
+        description: undefined,
+        contextWindow: undefined,
+        supportsVision: undefined,
+        supportsTools: undefined,
+      };
+      const id = `${source.option.providerId}:${adapter?.capabilities.customEndpoint ? `${source.option.id}:` : ''}${model.modelId}`;
+      if (takenIds.has(id)) continue;
+
+      const name = getUniqueName(model.name, template, takenNames);
+      takenNames.add(name);
+      takenIds.add(id);
+      merged.push(applyDiscoveredModel({ ...template, id, name }, model));
+      result.added += 1;
+    }
+  }
+
+  return { options: merged, result };
+};
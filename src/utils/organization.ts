@@ -0,0 +1,70 @@
+/**
+ * Arranging the conversation list: pinned conversations, folders, tag filters
+ * and the archive
+ */
+
+import { Conversation, ConversationFolder, ConversationTag } from '../types';
+
+// Colors new tags cycle through
+export const TAG_COLORS = ['#54C6EB', '#40D876', '#F5A524', '#EF4444', '#8A89C0', '#EC4899', '#14B8A6', '#6B7280'];
+
+// A group of conversations shown under one header in the list
+export interface ConversationSection {
+  key: string;
+  title: string;
+  // Set on folder sections, where conversations can be dropped
+  folderId?: string;
+  data: Conversation[];
+}
+
+/**
+ * The color for a new tag: the first one no tag uses yet, or the next in turn
+ * @param tags - The existing tags
+ */
+export const getNextTagColor = (tags: ConversationTag[]): string => {
+  const used = new Set(tags.map(tag => tag.color));
+  return TAG_COLORS.find(color => !used.has(color)) || TAG_COLORS[tags.length % TAG_COLORS.length];
+};
+
+/**
+ * Split conversations into the list's sections: pinned, then each folder, then
+ * everything else. Pinned conversations are listed only once, at the top.
+ * @param conversations - Every conversation, in list order
+ * @param folders - The user's folders
+ * @param options - The tag to filter by, and whether to list the archive instead
+ */
+export const groupConversations = (
+  conversations: Conversation[],
+  folders: ConversationFolder[],
+  options: { tagId?: string | null; archived?: boolean } = {}
+): ConversationSection[] => {
+  const visible = conversations.filter(conv =>
+    !!conv.isArchived === !!options.archived &&
+    (!options.tagId || !!conv.tagIds?.includes(options.tagId))
+  );
+
+  // The archive is one plain list
+  if (options.archived) {
+    return [{ key: 'archived', title: 'Archived', data: visible }];
+  }
+
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const pinned = visible.filter(conv => conv.isPinned);
+  const unpinned = visible.filter(conv => !conv.isPinned);
+
+  return [
+    { key: 'pinned', title: 'Pinned', data: pinned },
+    ...folders.map(folder => ({
+      key: `folder-${folder.id}`,
+      title: folder.name,
+      folderId: folder.id,
+      data: unpinned.filter(conv => conv.folderId === folder.id),
+    })),
+    // Conversations whose folder was removed are listed here too
+    {
+      key: 'recent',
+      title: 'Recent conversations',
+      data: unpinned.filter(conv => !conv.folderId || !folderIds.has(conv.folderId)),
+    },
+  ];
+};
@@ -0,0 +1,216 @@
+/**
+ * Best-effort text extraction from PDF files, enough for documents exported
+ * from word processors and the like. Scanned PDFs have no text to extract, and
+ * fonts with custom encodings come out as noise, so both are reported as errors.
+ */
+
+import { strFromU8, unzlibSync, inflateSync } from 'fflate';
+
+// Fraction of extracted characters that must be printable for the result to count
+const MIN_READABLE_RATIO = 0.7;
+
+// Read bytes as a string with one character per byte, which is how PDF syntax is written
+const toBinaryString = (bytes: Uint8Array): string => strFromU8(bytes, true);
+
+// Inflate a FlateDecode stream; some writers leave out the zlib header
+const inflateStream = (bytes: Uint8Array): Uint8Array | null => {
+  try {
+    return unzlibSync(bytes);
+  } catch {
+    try {
+      return inflateSync(bytes);
+    } catch {
+      return null;
+    }
+  }
+};
+
+// Sticky, so tokens are matched in place rather than on copies of the rest of the stream
+const NUMBER_PATTERN = /[-+]?(\d+\.?\d*|\.\d+)/y;
+const OPERATOR_PATTERN = /[A-Za-z'"*]+/y;
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Decode a literal string, starting just after its opening parenthesis
+const readLiteralString = (content: string, start: number): { text: string; end: number } => {
+  let text = '';
+  let depth = 1;
+  let i = start;
+
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[i + 1];
+      if (next in ESCAPES) {
+        text += ESCAPES[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else if (next === '\r' || next === '\n') {
+        // A backslash at the end of a line continues the string
+        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2;
+      } else {
+        text += next ?? '';
+        i += 2;
+      }
+      continue;
+    }
+
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) return { text, end: i + 1 };
+    text += char;
+    i++;
+  }
+
+  return { text, end: i };
+};
+
+// Decode a hex string's bytes, as UTF-16 when it starts with a byte order mark
+const decodeHexString = (hex: string): string => {
+  const clean = hex.replace(/\s+/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i += 2) {
+    bytes.push(parseInt(clean.substr(i, 2).padEnd(2, '0'), 16));
+  }
+
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  // A loop rather than spreading into fromCharCode, which overflows the stack on long strings
+  let text = '';
+  for (const byte of bytes) {
+    text += String.fromCharCode(byte);
+  }
+  return text;
+};
+
+// Pull the shown text out of a page content stream. Operands come before their
+// operator, so strings are collected until a text-showing operator uses them.
+const extractContentText = (content: string): string => {
+  let text = '';
+  let pending: string[] = [];
+  let lastNumber = 0;
+  let i = 0;
+
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === '(') {
+      const literal = readLiteralString(content, i + 1);
+      pending.push(literal.text);
+      i = literal.end;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      if (end === -1) break;
+      pending.push(decodeHexString(content.slice(i + 1, end)));
+      i = end + 1;
+    } else if (char === '%') {
+      // Comment to the end of the line
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (/[-+.\d]/.test(char)) {
+      NUMBER_PATTERN.lastIndex = i;
+      const match = NUMBER_PATTERN.exec(content);
+      if (!match) {
+        i++;
+        continue;
+      }
+      lastNumber = parseFloat(match[0]);
+      // A large negative offset inside a TJ array is how PDFs space words
+      if (lastNumber < -200 && pending.length > 0) pending.push(' ');
+      i += match[0].length;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      OPERATOR_PATTERN.lastIndex = i;
+      const operator = OPERATOR_PATTERN.exec(content)![0];
+      i += operator.length;
+
+      if (operator === 'Tj' || operator === 'TJ') {
+        text += pending.join('');
+      } else if (operator === '\'' || operator === '"') {
+        newline();
+        text += pending.join('');
+      } else if (operator === 'T*' || operator === 'ET') {
+        newline();
+      } else if ((operator === 'Td' || operator === 'TD') && lastNumber !== 0) {
+        newline();
+      } else if ((operator === 'Td' || operator === 'TD') && !text.endsWith(' ') && !text.endsWith('\n')) {
+        text += ' ';
+      }
+      pending = [];
+    } else {
+      i++;
+    }
+  }
+
+  return text;
+};
+
+/**
+ * Extract the text of a PDF
+ * @param bytes - The file's contents
+ * @throws Error with a user-facing message if no readable text was found
+ */
+export const extractPdfText = (bytes: Uint8Array): string => {
+  const file = toBinaryString(bytes);
+  if (!file.startsWith('%PDF')) {
+    throw new Error('This file isn\'t a PDF.');
+  }
+
+  const pages: string[] = [];
+  let position = 0;
+
+  while ((position = file.indexOf('stream', position)) !== -1) {
+    const keywordEnd = position + 'stream'.length;
+    // Skip 'endstream' and the word appearing anywhere but after a stream dictionary
+    const dictionary = file.slice(file.lastIndexOf('obj', position), position);
+    if (file.slice(position - 3, position) === 'end' || !/>>\s*$/.test(dictionary)) {
+      position = keywordEnd;
+      continue;
+    }
+
+    let start = keywordEnd;
+    if (file[start] === '\r') start++;
+    if (file[start] === '\n') start++;
+    const end = file.indexOf('endstream', start);
+    if (end === -1) break;
+    position = end + 'endstream'.length;
+
+    // Images, fonts and embedded files carry no page text
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType|XML)|\/Length1|\/Type\s*\/(XRef|EmbeddedFile|Metadata)/.test(dictionary)) {
+      continue;
+    }
+
+    let data = bytes.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      const inflated = inflateStream(data);
+      if (!inflated) continue;
+      data = inflated;
+    } else if (/\/Filter/.test(dictionary)) {
+      // Other filters are used for images rather than text
+      continue;
+    }
+
+    const content = toBinaryString(data);
+    if (!/\bBT\b/.test(content)) continue;
+    const pageText = extractContentText(content).trim();
+    if (pageText) pages.push(pageText);
+  }
+
+  const text = pages.join('\n\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  const unreadable = text.match(/[\x00-\x08\x0e-\x1f\x7f-\x9f\ufffd]/g)?.length || 0;
+  if (!text || 1 - unreadable / text.length < MIN_READABLE_RATIO) {
+    throw new Error('No readable text found in this PDF. Scanned or image-only PDFs need to be converted to text first.');
+  }
+
+  // What's left of the noise is mostly ligatures the font maps to control codes
+  return text.replace(/[\x00-\x08\x0e-\x1f\x7f-\x9f\ufffd]/g, '');
+};
@@ -0,0 +1,67 @@
+/**
+ * List prices for estimating what LLM calls cost
+ */
+
+import { TokenUsage } from '../types';
+
+// USD per million tokens
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Keyed by model ID prefix so dated snapshots (e.g. gpt-4o-2024-08-06) resolve
+// to their family; the longest matching prefix wins
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'mistral-tiny': { input: 0.25, output: 0.25 },
+  'mistral-small': { input: 0.2, output: 0.6 },
+  'mistral-medium': { input: 2.7, output: 8.1 },
+  'mistral-large': { input: 2, output: 6 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+};
+
+/**
+ * Look up the price of a model
+ * @param modelId - Model ID as sent to or reported by the provider
+ */
+export const getModelPricing = (modelId: string): ModelPricing | undefined => {
+  const id = modelId.toLowerCase();
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(key => id.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+};
+
+/**
+ * Estimate the cost of a call in USD
+ * @param modelIds - Candidate model IDs, most specific first (e.g. the resolved model, then the requested one)
+ * @param usage - Token counts for the call
+ * @returns The cost, or undefined if none of the models has a known price
+ */
+export const estimateCost = (modelIds: string[], usage: TokenUsage): number | undefined => {
+  const pricing = modelIds.map(getModelPricing).find(Boolean);
+  if (!pricing) return undefined;
+  
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1000000;
+};
+
+/**
+ * Format a cost for display, keeping precision for fractions of a cent
+ * @param costUsd - Cost in US dollars
+ */
+export const formatCost = (costUsd: number): string => {
+  if (costUsd === 0) return '$0.00';
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+  return `$${costUsd.toFixed(2)}`;
+};
@@ -0,0 +1,167 @@
+import { ChatContentPart, ChatMessage } from '../../types';
+import { HttpProviderAdapter } from './types';
+import { LLMError } from '../llmErrors';
+import { collectSystemPrompt } from './utils';
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+const toAnthropicBlock = (part: ChatContentPart): AnthropicContentBlock => {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text };
+    case 'image':
+      return { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } };
+    case 'tool_call':
+      return { type: 'tool_use', id: part.id, name: part.name, input: part.arguments };
+    case 'tool_result':
+      return { type: 'tool_result', tool_use_id: part.toolCallId, content: part.content, is_error: part.isError };
+  }
+};
+
+// Build the message array for Anthropic's Messages API. System messages go in the
+// separate system field, tool results are sent as user content, and consecutive
+// turns from the same role are merged since the API requires user and assistant
+// turns to alternate.
+const toAnthropicMessages = (messages: ChatMessage[]) => {
+  const anthropicMessages: { role: 'user' | 'assistant'; content: AnthropicContentBlock[] }[] = [];
+  
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const content = message.content.map(toAnthropicBlock);
+    
+    const previous = anthropicMessages[anthropicMessages.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...content);
+    } else {
+      anthropicMessages.push({ role, content });
+    }
+  }
+  
+  return anthropicMessages;
+};
+
+export const anthropicProvider: HttpProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  apiKeyStorageKey: 'anthropicApiKey',
+  auth: { type: 'header', header: 'x-api-key' },
+  capabilities: {
+    streaming: true,
+    vision: true,
+    tools: true,
+    customEndpoint: false
+  },
+  buildRequest: (request) => {
+    const systemPrompt = collectSystemPrompt(request.messages, request.systemPrompt);
+
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      headers: {
+        'anthropic-version': '2023-06-01'
+      },
+      body: {
+        model: request.modelId,
+        messages: toAnthropicMessages(request.messages),
+        ...(systemPrompt.trim() && { system: systemPrompt }),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        top_p: request.topP,
+        stream: request.stream,
+        ...(request.tools?.length && {
+          tools: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters
+          })),
+          tool_choice: { type: request.toolChoice || 'auto' }
+        })
+      }
+    };
+  },
+  parseResponse: (data, request) => ({
+    text: data.content
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join(''),
+    model: data.model || request.modelId,
+    usage: data.usage && {
+      inputTokens: data.usage.input_tokens,
+      outputTokens: data.usage.output_tokens
+    },
+    toolCalls: data.content
+      .filter((block: { type: string }) => block.type === 'tool_use')
+      .map((block: { id: string; name: string; input: Record<string, unknown> }) => ({
+        type: 'tool_call' as const,
+        id: block.id,
+        name: block.name,
+        arguments: block.input || {}
+      }))
+  }),
+  parseStreamEvent: (data, event) => {
+    let payload: any;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      return null;
+    }
+    
+    switch (event || payload.type) {
+      case 'message_start':
+        return {
+          model: payload.message?.model,
+          usage: { inputTokens: payload.message?.usage?.input_tokens }
+        };
+      case 'message_delta':
+        // Carries the cumulative output token count once generation stops
+        return { usage: { outputTokens: payload.usage?.output_tokens } };
+      case 'content_block_start':
+        // A tool call announces its ID and name here; its input follows as JSON deltas
+        return payload.content_block?.type === 'tool_use'
+          ? { toolCallDeltas: [{ index: payload.index, id: payload.content_block.id, name: payload.content_block.name }] }
+          : null;
+      case 'content_block_delta':
+        switch (payload.delta?.type) {
+          case 'text_delta':
+            return { delta: payload.delta.text };
+          case 'input_json_delta':
+            return { toolCallDeltas: [{ index: payload.index, arguments: payload.delta.partial_json }] };
+          default:
+            return null;
+        }
+      case 'error': {
+        // Errors after the stream has started arrive as events rather than HTTP statuses
+        const message = `Anthropic API error: ${payload.error?.message || 'stream error'}`;
+        switch (payload.error?.type) {
+          case 'overloaded_error':
+          case 'api_error':
+            throw new LLMError('overloaded', message);
+          case 'rate_limit_error':
+            throw new LLMError('rate_limited', message);
+          default:
+            throw new LLMError('unknown', message);
+        }
+      }
+      default:
+        return null;
+    }
+  },
+  buildModelsRequest: () => ({
+    url: 'https://api.anthropic.com/v1/models?limit=1000',
+    headers: {
+      'anthropic-version': '2023-06-01'
+    }
+  }),
+  // Every model the API lists takes images and tools
+  parseModels: (data) => (data.data || []).map((model: { id: string; display_name?: string }) => ({
+    modelId: model.id,
+    name: model.display_name || model.id,
+    supportsVision: true,
+    supportsTools: true
+  }))
+};
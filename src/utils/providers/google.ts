@@ -0,0 +1,194 @@
+import { ChatContentPart, ChatMessage, ToolCallContentPart } from '../../types';
+import { HttpProviderAdapter } from './types';
+import { LLMError } from '../llmErrors';
+import { collectSystemPrompt } from './utils';
+import { generateId } from '../helpers';
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { name: string; args: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: Record<string, unknown> } };
+
+const toGeminiPart = (part: ChatContentPart): GeminiPart => {
+  switch (part.type) {
+    case 'text':
+      return { text: part.text };
+    case 'image':
+      return { inlineData: { mimeType: part.mimeType, data: part.data } };
+    case 'tool_call':
+      return { functionCall: { name: part.name, args: part.arguments } };
+    case 'tool_result':
+      // Gemini wants an object back, so wrap the result text
+      return { functionResponse: { name: part.name, response: part.isError ? { error: part.content } : { content: part.content } } };
+  }
+};
+
+// Build the request contents for Gemini's generateContent API. Gemini calls the
+// assistant role "model", takes tool results from the user, and takes the system
+// prompt as a separate instruction.
+const toGeminiContents = (messages: ChatMessage[]) => {
+  const contents: { role: 'user' | 'model'; parts: GeminiPart[] }[] = [];
+  
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    
+    const role = message.role === 'assistant' ? 'model' : 'user';
+    const parts = message.content.map(toGeminiPart);
+    
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+  
+  return contents;
+};
+
+// Finish reasons Gemini uses when it withholds a response
+const GEMINI_BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+// Extract the text from a Gemini response chunk, throwing if the prompt or answer was blocked
+const getGeminiText = (data: any): string => {
+  if (data.promptFeedback?.blockReason) {
+    throw new LLMError('blocked', `Gemini blocked the prompt: ${data.promptFeedback.blockReason}`);
+  }
+  
+  const candidate = data.candidates?.[0];
+  const text = (candidate?.content?.parts || [])
+    .map((part: { text?: string }) => part.text || '')
+    .join('');
+  
+  if (!text && GEMINI_BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)) {
+    const categories = (candidate.safetyRatings || [])
+      .filter((rating: { blocked?: boolean }) => rating.blocked)
+      .map((rating: { category: string }) => rating.category)
+      .join(', ');
+    throw new LLMError('blocked', `Gemini blocked the response: ${candidate.finishReason}${categories ? ` (${categories})` : ''}`);
+  }
+  
+  return text;
+};
+
+// Gemini doesn't give function calls IDs, so make them up for matching results to calls
+const getGeminiToolCalls = (data: any): ToolCallContentPart[] | undefined => {
+  const calls = (data.candidates?.[0]?.content?.parts || [])
+    .filter((part: { functionCall?: unknown }) => part.functionCall)
+    .map((part: { functionCall: { name: string; args?: Record<string, unknown> } }) => ({
+      type: 'tool_call' as const,
+      id: generateId(),
+      name: part.functionCall.name,
+      arguments: part.functionCall.args || {}
+    }));
+  
+  return calls.length > 0 ? calls : undefined;
+};
+
+// Gemini reports cumulative usage on every chunk
+const getGeminiUsage = (data: any) => {
+  if (!data.usageMetadata) return undefined;
+  
+  return {
+    inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+    outputTokens: data.usageMetadata.candidatesTokenCount ?? 0
+  };
+};
+
+export const googleProvider: HttpProviderAdapter = {
+  id: 'google',
+  name: 'Google',
+  apiKeyStorageKey: 'googleApiKey',
+  auth: { type: 'header', header: 'x-goog-api-key' },
+  capabilities: {
+    streaming: true,
+    vision: true,
+    tools: true,
+    customEndpoint: false
+  },
+  buildRequest: (request) => {
+    const baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${request.modelId}`;
+    const systemPrompt = collectSystemPrompt(request.messages, request.systemPrompt);
+    
+    return {
+      url: request.stream
+        ? `${baseUrl}:streamGenerateContent?alt=sse`
+        : `${baseUrl}:generateContent`,
+      body: {
+        // Gemini rejects an empty instruction, so it's left out when there's no prompt
+        ...(systemPrompt.trim() && {
+          systemInstruction: { parts: [{ text: systemPrompt }] }
+        }),
+        contents: toGeminiContents(request.messages),
+        generationConfig: {
+          maxOutputTokens: request.maxTokens,
+          temperature: request.temperature,
+          topP: request.topP
+        },
+        ...(request.tools?.length && {
+          tools: [{
+            functionDeclarations: request.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters
+            }))
+          }],
+          toolConfig: {
+            functionCallingConfig: { mode: request.toolChoice === 'none' ? 'NONE' : 'AUTO' }
+          }
+        })
+      }
+    };
+  },
+  parseResponse: (data, request) => ({
+    text: getGeminiText(data),
+    model: data.modelVersion || request.modelId,
+    usage: getGeminiUsage(data),
+    toolCalls: getGeminiToolCalls(data)
+  }),
+  parseStreamEvent: (data) => {
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return null;
+    }
+    return {
+      delta: getGeminiText(chunk) || undefined,
+      model: chunk.modelVersion,
+      usage: getGeminiUsage(chunk),
+      // Function calls arrive whole rather than streamed in pieces
+      toolCalls: getGeminiToolCalls(chunk)
+    };
+  },
+  buildModelsRequest: () => ({
+    url: 'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000'
+  }),
+  // The list also has embedding and image models; keep the Gemini chat models
+  parseModels: (data) => (data.models || [])
+    .filter((model: any) =>
+      model.name?.includes('gemini') && model.supportedGenerationMethods?.includes('generateContent')
+    )
+    .map((model: any) => ({
+      modelId: model.name.replace(/^models\//, ''),
+      name: model.displayName || model.name,
+      description: model.description || undefined,
+      contextWindow: model.inputTokenLimit,
+      supportsVision: true,
+      supportsTools: true,
+      deprecated: /deprecated/i.test(model.description || '')
+    })),
+  buildEmbeddingRequest: (_option, texts) => ({
+    url: 'https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:batchEmbedContents',
+    body: {
+      // Shortened vectors keep stored documents small at little cost in quality
+      requests: texts.map(text => ({
+        model: 'models/text-embedding-004',
+        content: { parts: [{ text }] },
+        outputDimensionality: 256
+      }))
+    }
+  }),
+  parseEmbeddings: (data) => (data.embeddings || []).map((embedding: { values: number[] }) => embedding.values)
+};
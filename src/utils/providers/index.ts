@@ -0,0 +1,154 @@
+import { LLMOption } from '../../types';
+import { ProviderAdapter } from './types';
+import { openaiProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+import { mistralProvider } from './mistral';
+import { googleProvider } from './google';
+import { openaiCompatibleProvider } from './openaiCompatible';
+import { mockProvider } from './mock';
+
+export * from './types';
+
+// Registered provider adapters, keyed by provider ID
+const providerRegistry = new Map<string, ProviderAdapter>();
+
+/**
+ * Register a provider adapter so LLM options with its ID can be called
+ * @param adapter - The adapter to register; replaces any adapter with the same ID
+ */
+export const registerProvider = (adapter: ProviderAdapter): void => {
+  providerRegistry.set(adapter.id, adapter);
+};
+
+/**
+ * Look up a registered provider adapter
+ * @param providerId - The adapter ID stored on an LLMOption
+ */
+export const getProvider = (providerId: string): ProviderAdapter | undefined => {
+  return providerRegistry.get(providerId);
+};
+
+/**
+ * Get every registered provider adapter
+ */
+export const getProviders = (): ProviderAdapter[] => {
+  return Array.from(providerRegistry.values());
+};
+
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(mistralProvider);
+registerProvider(googleProvider);
+registerProvider(openaiCompatibleProvider);
+registerProvider(mockProvider);
+
+// Provider IDs for options saved before LLMOption carried an explicit providerId
+const LEGACY_PROVIDER_IDS: Record<LLMOption['provider'], string> = {
+  OpenAI: 'openai',
+  Anthropic: 'anthropic',
+  Google: 'google',
+  Mistral: 'mistral',
+  Other: 'openai-compatible',
+};
+
+// Model IDs for the display names older versions of the app resolved at call time
+const LEGACY_MODEL_IDS: Record<string, string> = {
+  'gpt-4': 'gpt-4',
+  'gpt-4o': 'gpt-4o',
+  'gpt-3.5': 'gpt-3.5-turbo',
+  'claude 3 opus': 'claude-3-opus-20240229',
+  'claude 3 sonnet': 'claude-3-sonnet-20240229',
+  'claude 3 haiku': 'claude-3-haiku-20240307',
+  'mistral tiny': 'mistral-tiny',
+  'mistral small': 'mistral-small',
+  'mistral medium': 'mistral-medium',
+  'gemini 1.5 pro': 'gemini-1.5-pro',
+  'gemini 1.5 flash': 'gemini-1.5-flash',
+};
+
+// Context window sizes (in tokens) of well-known model families, keyed by model ID
+// prefix, for options saved or discovered without one. The longest match wins.
+const KNOWN_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4': 8192,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-5': 400000,
+  'gpt-3.5-turbo': 16385,
+  'o1': 200000,
+  'o3': 200000,
+  'o4': 200000,
+  'claude-': 200000,
+  'mistral-tiny': 32000,
+  'mistral-small': 32000,
+  'mistral-medium': 32000,
+  'gemini-1.5-pro': 2000000,
+  'gemini-1.5-flash': 1000000,
+};
+
+/**
+ * Look up the context window of a well-known model
+ * @param modelId - The provider's model identifier
+ * @returns The window in tokens, or undefined for unknown models
+ */
+export const getKnownContextWindow = (modelId: string): number | undefined => {
+  const prefix = Object.keys(KNOWN_CONTEXT_WINDOWS)
+    .filter(key => modelId.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? KNOWN_CONTEXT_WINDOWS[prefix] : undefined;
+};
+
+// Models on vision-capable providers that only accept text
+const TEXT_ONLY_MODELS = ['gpt-4', 'gpt-3.5-turbo'];
+
+/**
+ * Whether a model accepts image input. An explicit supportsVision on the option
+ * wins; otherwise it follows the provider's capability, minus known text-only models.
+ * @param option - The LLM option to check
+ */
+export const supportsVision = (option: LLMOption): boolean => {
+  if (option.supportsVision !== undefined) {
+    return option.supportsVision;
+  }
+  
+  const adapter = getProvider(option.providerId);
+  return !!adapter?.capabilities.vision && !TEXT_ONLY_MODELS.includes(option.modelId);
+};
+
+/**
+ * Whether a model can call tools: the option's own flag, if set, or else the
+ * provider's capability
+ * @param option - The LLM option to check
+ */
+export const supportsTools = (option: LLMOption): boolean => {
+  return option.supportsTools ?? !!getProvider(option.providerId)?.capabilities.tools;
+};
+
+/**
+ * Whether an option's provider has an embedding model for document search
+ * @param option - The LLM option to check
+ */
+export const supportsEmbeddings = (option: LLMOption): boolean => {
+  const adapter = getProvider(option.providerId);
+  return !!adapter && !('respond' in adapter) && !!adapter.buildEmbeddingRequest;
+};
+
+/**
+ * Fill in providerId, modelId and contextWindow on an option stored by an older
+ * version, using its provider label rather than guessing from the display name
+ * @param option - A stored option that may be missing the explicit IDs
+ */
+export const migrateLLMOption = (option: LLMOption): LLMOption => {
+  if (option.providerId && option.modelId && option.contextWindow) {
+    return option;
+  }
+  
+  const modelId = option.modelId || LEGACY_MODEL_IDS[option.name.toLowerCase()] || option.name;
+  
+  return {
+    ...option,
+    providerId: option.providerId || LEGACY_PROVIDER_IDS[option.provider] || 'openai-compatible',
+    modelId,
+    contextWindow: option.contextWindow || getKnownContextWindow(modelId),
+  };
+};
@@ -0,0 +1,42 @@
+import { HttpProviderAdapter } from './types';
+import { buildChatCompletionBody, parseChatCompletion, parseChatCompletionStreamEvent, parseEmbeddingList } from './openai';
+
+// Mistral's API follows the OpenAI chat completions format
+export const mistralProvider: HttpProviderAdapter = {
+  id: 'mistral',
+  name: 'Mistral',
+  apiKeyStorageKey: 'mistralApiKey',
+  auth: { type: 'bearer' },
+  capabilities: {
+    streaming: true,
+    vision: false,
+    tools: true,
+    customEndpoint: false
+  },
+  buildRequest: (request) => ({
+    url: 'https://api.mistral.ai/v1/chat/completions',
+    body: buildChatCompletionBody(request)
+  }),
+  parseResponse: parseChatCompletion,
+  parseStreamEvent: parseChatCompletionStreamEvent,
+  buildModelsRequest: () => ({
+    url: 'https://api.mistral.ai/v1/models'
+  }),
+  // Mistral's list includes capabilities, context length and deprecation dates
+  parseModels: (data) => (data.data || [])
+    .filter((model: any) => model.capabilities?.completion_chat !== false)
+    .map((model: any) => ({
+      modelId: model.id,
+      name: model.name || model.id,
+      description: model.description || undefined,
+      contextWindow: model.max_context_length,
+      supportsVision: model.capabilities?.vision,
+      supportsTools: model.capabilities?.function_calling,
+      deprecated: !!model.deprecation
+    })),
+  buildEmbeddingRequest: (_option, texts) => ({
+    url: 'https://api.mistral.ai/v1/embeddings',
+    body: { model: 'mistral-embed', input: texts }
+  }),
+  parseEmbeddings: parseEmbeddingList
+};
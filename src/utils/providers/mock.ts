@@ -0,0 +1,99 @@
+import { ChatMessage, ToolCallContentPart } from '../../types';
+import { LocalProviderAdapter, ProviderRequest, ProviderResponse } from './types';
+import { getImageParts, getTextContent } from './utils';
+import { estimateChatTokens, estimateTokens } from '../tokens';
+
+// Model IDs the mock provider understands
+export const MOCK_ECHO_MODEL = 'mock-echo';
+export const MOCK_SCRIPTED_MODEL = 'mock-scripted';
+
+// Replies the scripted model cycles through, one per assistant turn. They vary in
+// length and punctuation so the avatar, lip-sync and TTS have something to chew on.
+const MOCK_SCRIPT = [
+  'Hello! I\'m the mock assistant. I answer instantly and never touch the network.',
+  'Here\'s a longer reply, useful for checking how the avatar keeps up. It has several sentences, '
+    + 'a question or two, and some pauses. Does the mouth move in time? Do the words highlight as they\'re spoken?',
+  'Short and sweet.',
+  'Lists work too:\n\n1. First item\n2. Second item\n3. Third item\n\nThat\'s all of them.',
+];
+
+// Something that looks like arithmetic, which the scripted model hands to the calculator tool
+const ARITHMETIC_PATTERN = /\d[\d.\s]*(?:[-+*/^%][\d.\s()]*\d[\d.\s()]*)+/;
+
+// The last message the user sent, ignoring system and tool turns
+const getLastUserMessage = (messages: ChatMessage[]): ChatMessage | undefined => {
+  return [...messages].reverse().find(message => message.role === 'user');
+};
+
+const echoReply = (messages: ChatMessage[]): string => {
+  const lastUserMessage = getLastUserMessage(messages);
+  if (!lastUserMessage) return 'There\'s nothing to echo yet.';
+
+  const text = getTextContent(lastUserMessage);
+  const imageCount = getImageParts(lastUserMessage).length;
+  const imageNote = imageCount > 0 ? ` (with ${imageCount} image${imageCount === 1 ? '' : 's'})` : '';
+  return `You said: "${text}"${imageNote}`;
+};
+
+const scriptedReply = (request: ProviderRequest): { text: string; toolCalls?: ToolCallContentPart[] } => {
+  const lastMessage = request.messages[request.messages.length - 1];
+
+  // Report tool results back, so the full tool loop can be exercised offline
+  if (lastMessage?.role === 'tool') {
+    const summary = lastMessage.content
+      .map(part => part.type === 'tool_result' ? `${part.name} returned ${part.content}` : '')
+      .filter(Boolean)
+      .join('; ');
+    return { text: `I used a tool: ${summary}.` };
+  }
+
+  const lastUserMessage = getLastUserMessage(request.messages);
+  const expression = lastUserMessage && getTextContent(lastUserMessage).match(ARITHMETIC_PATTERN)?.[0].trim();
+  const canCallCalculator = request.toolChoice !== 'none'
+    && request.tools?.some(tool => tool.name === 'calculator');
+
+  if (expression && canCallCalculator) {
+    return {
+      text: '',
+      toolCalls: [{
+        type: 'tool_call',
+        // Derived from the history so replays produce identical requests
+        id: `mock-call-${request.messages.length}`,
+        name: 'calculator',
+        arguments: { expression },
+      }],
+    };
+  }
+
+  const assistantTurns = request.messages.filter(message => message.role === 'assistant').length;
+  return { text: MOCK_SCRIPT[assistantTurns % MOCK_SCRIPT.length] };
+};
+
+// Deterministic provider for demos and development without keys or network. The
+// echo model repeats the user's message; the scripted model plays a fixed script
+// and calls the calculator tool when the message contains arithmetic.
+export const mockProvider: LocalProviderAdapter = {
+  id: 'mock',
+  name: 'Mock',
+  auth: { type: 'none' },
+  capabilities: {
+    streaming: true,
+    vision: true,
+    tools: true,
+    customEndpoint: false
+  },
+  respond: async (request): Promise<ProviderResponse> => {
+    const reply = request.modelId === MOCK_ECHO_MODEL
+      ? { text: echoReply(request.messages) }
+      : scriptedReply(request);
+
+    return {
+      ...reply,
+      model: request.modelId,
+      usage: {
+        inputTokens: estimateChatTokens(request.messages, request.systemPrompt),
+        outputTokens: estimateTokens(reply.text)
+      }
+    };
+  }
+};
@@ -0,0 +1,193 @@
+import { ChatMessage, TokenUsage, ToolCallContentPart } from '../../types';
+import { DiscoveredModel, HttpProviderAdapter, ProviderRequest, ProviderResponse, ProviderStreamUpdate } from './types';
+import { getImageParts, getTextContent, getToolCalls, parseToolArguments } from './utils';
+
+// Encode a message's content for chat completions. Plain text stays a string, which
+// every compatible server accepts; images need the content-part array form.
+const toChatCompletionContent = (message: ChatMessage) => {
+  if (getImageParts(message).length === 0) {
+    return getTextContent(message);
+  }
+  
+  return message.content.flatMap((part): Record<string, unknown>[] => {
+    switch (part.type) {
+      case 'text':
+        return [{ type: 'text', text: part.text }];
+      case 'image':
+        return [{ type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }];
+      default:
+        return [];
+    }
+  });
+};
+
+// Convert one message. Tool calls ride on the assistant message, and each tool
+// result becomes its own 'tool' message.
+const toChatCompletionMessage = (message: ChatMessage): Record<string, unknown>[] => {
+  if (message.role === 'tool') {
+    return message.content.flatMap(part =>
+      part.type === 'tool_result'
+        ? [{ role: 'tool', tool_call_id: part.toolCallId, content: part.content }]
+        : []
+    );
+  }
+  
+  const toolCalls = getToolCalls(message);
+  if (toolCalls.length > 0) {
+    return [{
+      role: 'assistant',
+      content: getTextContent(message) || null,
+      tool_calls: toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    }];
+  }
+  
+  return [{ role: message.role, content: toChatCompletionContent(message) }];
+};
+
+// Build the message array for OpenAI-style chat completion APIs
+export const toChatCompletionMessages = (messages: ChatMessage[], systemPrompt: string) => {
+  return [
+    { role: 'system', content: systemPrompt },
+    ...messages.flatMap(toChatCompletionMessage)
+  ];
+};
+
+// Request body shared by every chat/completions-compatible API
+export const buildChatCompletionBody = (request: ProviderRequest) => ({
+  model: request.modelId,
+  messages: toChatCompletionMessages(request.messages, request.systemPrompt),
+  max_tokens: request.maxTokens,
+  temperature: request.temperature,
+  top_p: request.topP,
+  stream: request.stream,
+  ...(request.tools?.length && {
+    tools: request.tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    })),
+    tool_choice: request.toolChoice || 'auto'
+  })
+});
+
+// Convert the tool_calls of a chat completion message
+const parseChatCompletionToolCalls = (toolCalls: any[] | undefined): ToolCallContentPart[] | undefined => {
+  if (!toolCalls?.length) return undefined;
+  
+  return toolCalls.map(call => ({
+    type: 'tool_call',
+    id: call.id,
+    name: call.function.name,
+    arguments: parseToolArguments(call.function.arguments)
+  }));
+};
+
+// Convert a chat completions usage block, which not every compatible server sends
+const parseChatCompletionUsage = (usage: any): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0
+  };
+};
+
+export const parseChatCompletion = (data: any, request: ProviderRequest): ProviderResponse => ({
+  text: data.choices[0].message.content || '',
+  model: data.model || request.modelId,
+  usage: parseChatCompletionUsage(data.usage),
+  toolCalls: parseChatCompletionToolCalls(data.choices[0].message.tool_calls)
+});
+
+// Usage arrives on the final chunk, which has no choices
+export const parseChatCompletionStreamEvent = (data: string): ProviderStreamUpdate | null => {
+  if (data === '[DONE]') return null;
+  
+  // Compatible servers send keep-alive comments and other lines that aren't JSON
+  let chunk: any;
+  try {
+    chunk = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  const delta = chunk.choices?.[0]?.delta;
+  return {
+    delta: delta?.content || undefined,
+    model: chunk.model,
+    usage: parseChatCompletionUsage(chunk.usage),
+    toolCallDeltas: delta?.tool_calls?.map((call: any) => ({
+      index: call.index,
+      id: call.id,
+      name: call.function?.name,
+      arguments: call.function?.arguments
+    }))
+  };
+};
+
+// Models listed by a /models endpoint. The OpenAI format carries no metadata
+// beyond the ID, so capabilities are left to the provider defaults.
+export const parseChatCompletionModels = (data: any): DiscoveredModel[] => {
+  return (data.data || []).map((model: { id: string }) => ({
+    modelId: model.id,
+    name: model.id
+  }));
+};
+
+// Vectors from an OpenAI-format /embeddings response, in input order
+export const parseEmbeddingList = (data: any): number[][] => {
+  return [...(data.data || [])]
+    .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+    .map((item: { embedding: number[] }) => item.embedding);
+};
+
+// OpenAI's model list also includes embedding, audio, image and moderation
+// models; only these families work with chat completions
+const OPENAI_CHAT_PREFIXES = ['gpt-', 'chatgpt-', 'o1', 'o3', 'o4'];
+const OPENAI_NON_CHAT_PATTERN = /instruct|audio|realtime|tts|transcribe|search|image|embedding|moderation/;
+
+// Families that accept images
+const OPENAI_VISION_PREFIXES = ['gpt-4o', 'gpt-4.1', 'gpt-4-turbo', 'gpt-5', 'chatgpt-4o', 'o1', 'o3', 'o4'];
+
+export const openaiProvider: HttpProviderAdapter = {
+  id: 'openai',
+  name: 'OpenAI',
+  apiKeyStorageKey: 'openaiApiKey',
+  auth: { type: 'bearer' },
+  capabilities: {
+    streaming: true,
+    vision: true,
+    tools: true,
+    customEndpoint: false
+  },
+  buildRequest: (request) => ({
+    url: 'https://api.openai.com/v1/chat/completions',
+    body: {
+      ...buildChatCompletionBody(request),
+      // OpenAI only reports usage for streamed responses when asked to
+      ...(request.stream && { stream_options: { include_usage: true } })
+    }
+  }),
+  parseResponse: parseChatCompletion,
+  parseStreamEvent: parseChatCompletionStreamEvent,
+  buildModelsRequest: () => ({
+    url: 'https://api.openai.com/v1/models'
+  }),
+  parseModels: (data) => parseChatCompletionModels(data)
+    .filter(model =>
+      OPENAI_CHAT_PREFIXES.some(prefix => model.modelId.startsWith(prefix))
+      && !OPENAI_NON_CHAT_PATTERN.test(model.modelId)
+    )
+    .map(model => ({
+      ...model,
+      supportsVision: OPENAI_VISION_PREFIXES.some(prefix => model.modelId.startsWith(prefix))
+    })),
+  buildEmbeddingRequest: (_option, texts) => ({
+    url: 'https://api.openai.com/v1/embeddings',
+    // Shortened vectors keep stored documents small at little cost in quality
+    body: { model: 'text-embedding-3-small', input: texts, dimensions: 256 }
+  }),
+  parseEmbeddings: parseEmbeddingList
+};
@@ -0,0 +1,39 @@
+import { HttpProviderAdapter } from './types';
+import { LLMError } from '../llmErrors';
+import { buildChatCompletionBody, parseChatCompletion, parseChatCompletionModels, parseChatCompletionStreamEvent } from './openai';
+
+// Custom endpoints that speak the OpenAI chat completions API, such as a local
+// Ollama, llama.cpp or vLLM server, or an internal gateway. The base URL and
+// optional auth header are stored on the LLMOption.
+export const openaiCompatibleProvider: HttpProviderAdapter = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible',
+  auth: { type: 'option' },
+  capabilities: {
+    streaming: true,
+    vision: false,
+    tools: false,
+    customEndpoint: true
+  },
+  buildRequest: (request) => {
+    if (!request.option.baseUrl) {
+      throw new LLMError('bad_request', `No base URL configured for ${request.option.name}`);
+    }
+    
+    return {
+      url: `${request.option.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      body: buildChatCompletionBody(request)
+    };
+  },
+  parseResponse: parseChatCompletion,
+  parseStreamEvent: parseChatCompletionStreamEvent,
+  // Ollama, llama.cpp, vLLM and most gateways serve the OpenAI model list
+  buildModelsRequest: (option) => {
+    if (!option.baseUrl) {
+      throw new LLMError('bad_request', `No base URL configured for ${option.name}`);
+    }
+    
+    return { url: `${option.baseUrl.replace(/\/+$/, '')}/models` };
+  },
+  parseModels: parseChatCompletionModels
+};
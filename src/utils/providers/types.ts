@@ -0,0 +1,116 @@
+import { ChatMessage, LLMOption, TokenUsage, ToolCallContentPart } from '../../types';
+import { ToolDeclaration } from '../tools/types';
+
+// How an adapter's credentials are attached to a request
+export type AuthScheme =
+  | { type: 'bearer' } // Authorization: Bearer <key>
+  | { type: 'header'; header: string } // API key sent in a provider-specific header
+  | { type: 'option' } // Credentials come from the LLMOption itself (custom endpoints)
+  | { type: 'none' };
+
+// What a provider supports, used to validate requests before they're sent
+export interface ProviderCapabilities {
+  streaming: boolean;
+  vision: boolean;
+  tools: boolean;
+  // The option must carry its own base URL (e.g. OpenAI-compatible servers)
+  customEndpoint: boolean;
+}
+
+// Provider-agnostic description of a chat request
+export interface ProviderRequest {
+  option: LLMOption;
+  modelId: string;
+  messages: ChatMessage[];
+  systemPrompt: string;
+  maxTokens: number;
+  temperature: number;
+  topP?: number;
+  stream: boolean;
+  // Tools the model may call; only set for adapters with the tools capability
+  tools?: ToolDeclaration[];
+  // 'none' forces a text answer while still declaring the tools the history refers to
+  toolChoice?: 'auto' | 'none';
+}
+
+// A model as described by a provider's model list endpoint
+export interface DiscoveredModel {
+  modelId: string;
+  name: string;
+  description?: string;
+  contextWindow?: number;
+  supportsVision?: boolean;
+  supportsTools?: boolean;
+  // The provider has announced the model's retirement
+  deprecated?: boolean;
+}
+
+// The HTTP request an adapter wants sent; auth headers are added by the caller
+export interface ProviderHttpRequest {
+  url: string;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export interface ProviderResponse {
+  text: string;
+  model: string;
+  usage?: TokenUsage;
+  // Tools the model wants run before it answers
+  toolCalls?: ToolCallContentPart[];
+}
+
+// A streamed fragment of a tool call. Fragments with the same index belong to
+// the same call; the ID and name arrive first and the arguments JSON in pieces.
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+// What a single server-sent event contributed to a streamed response
+export interface ProviderStreamUpdate {
+  delta?: string;
+  model?: string;
+  // Providers report usage in pieces (or cumulatively); later values win
+  usage?: Partial<TokenUsage>;
+  // Tool calls streamed in pieces
+  toolCallDeltas?: ToolCallDelta[];
+  // Tool calls that arrived whole in a single event
+  toolCalls?: ToolCallContentPart[];
+}
+
+interface ProviderAdapterBase {
+  id: string;
+  name: string;
+  // AsyncStorage key holding this provider's API key, if it uses one
+  apiKeyStorageKey?: string;
+  auth: AuthScheme;
+  capabilities: ProviderCapabilities;
+}
+
+// A provider reached over HTTP
+export interface HttpProviderAdapter extends ProviderAdapterBase {
+  buildRequest: (request: ProviderRequest) => ProviderHttpRequest;
+  parseResponse: (data: any, request: ProviderRequest) => ProviderResponse;
+  // Parse one SSE payload; return null for events that carry nothing of interest
+  parseStreamEvent: (data: string, event: string | undefined) => ProviderStreamUpdate | null;
+  // GET request for the provider's model list, for providers that have one. The
+  // option is one of the provider's; custom endpoints take the base URL from it.
+  buildModelsRequest?: (option: LLMOption) => { url: string; headers?: Record<string, string> };
+  // Convert the model list response, leaving out models that can't chat
+  parseModels?: (data: any) => DiscoveredModel[];
+  // Request embedding texts with the provider's embedding model, for providers that have one
+  buildEmbeddingRequest?: (option: LLMOption, texts: string[]) => ProviderHttpRequest;
+  // One vector per input text, in input order
+  parseEmbeddings?: (data: any) => number[][];
+}
+
+// A provider that answers on the device, such as the mock provider. Streaming
+// is simulated by the caller from the complete response.
+export interface LocalProviderAdapter extends ProviderAdapterBase {
+  respond: (request: ProviderRequest) => Promise<ProviderResponse>;
+}
+
+export type ProviderAdapter = HttpProviderAdapter | LocalProviderAdapter;
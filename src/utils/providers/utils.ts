@@ -0,0 +1,39 @@
+import { ChatMessage, ImageContentPart, ToolCallContentPart } from '../../types';
+
+// Join the text parts of a message into a single string
+export const getTextContent = (message: ChatMessage): string => {
+  return message.content
+    .flatMap(part => part.type === 'text' ? [part.text] : [])
+    .join('\n\n');
+};
+
+// Get the image parts of a message
+export const getImageParts = (message: ChatMessage): ImageContentPart[] => {
+  return message.content.filter((part): part is ImageContentPart => part.type === 'image');
+};
+
+// Collect the system prompt plus any system-role messages into one instruction,
+// for APIs that take the system prompt separately from the conversation
+export const collectSystemPrompt = (messages: ChatMessage[], systemPrompt: string): string => {
+  return [systemPrompt, ...messages.filter(message => message.role === 'system').map(getTextContent)]
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+// Get the tool calls an assistant message made
+export const getToolCalls = (message: ChatMessage): ToolCallContentPart[] => {
+  return message.content.filter((part): part is ToolCallContentPart => part.type === 'tool_call');
+};
+
+// Parse a tool call's JSON arguments. Models occasionally emit invalid JSON; the
+// tool then sees no arguments and reports what's missing.
+export const parseToolArguments = (json: string | undefined): Record<string, unknown> => {
+  if (!json) return {};
+  
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
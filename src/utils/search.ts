@@ -0,0 +1,237 @@
+/**
+ * Full-text search over the messages of every conversation. The index is kept
+ * in memory and updated incrementally: conversations and messages are replaced
+ * rather than mutated on change, so only objects that differ from the last
+ * sync are re-indexed.
+ */
+
+import { Conversation, Message, MessageSearchResult, TextRange } from '../types';
+import { tokenize } from './knowledge';
+
+// Most results returned for one query
+export const MAX_SEARCH_RESULTS = 50;
+
+// Characters of context shown around the first match in a snippet
+const SNIPPET_RADIUS = 60;
+
+// Most indexed words the last, still being typed, query word is expanded to
+const MAX_PREFIX_EXPANSIONS = 50;
+
+// Standard BM25 term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedMessage {
+  message: Message;
+  conversationId: string;
+  // Count of each word in the message
+  counts: Map<string, number>;
+  length: number;
+}
+
+// Messages worth finding: finished, with text, and not an error notice
+const isSearchable = (message: Message): boolean => {
+  return !message.isLoading && !message.isError && !!message.content.trim();
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Cut a snippet of a message around its first match, with the ranges of every
+ * matching word in it for highlighting
+ * @param content - The message text
+ * @param terms - The query words; words in the text starting with one of them match
+ */
+export const getSearchSnippet = (content: string, terms: string[]): { snippet: string; highlights: TextRange[] } => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (terms.length === 0) return { snippet: text.slice(0, SNIPPET_RADIUS * 2), highlights: [] };
+
+  // Words starting with a term, preceded by the start of the text or a non-word character
+  const pattern = new RegExp(`(^|[^\\w\\u00C0-\\uFFFF])(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'gi');
+  const first = pattern.exec(text);
+  const firstIndex = first ? first.index + first[1].length : 0;
+
+  let start = Math.max(0, firstIndex - SNIPPET_RADIUS);
+  let end = Math.min(text.length, firstIndex + SNIPPET_RADIUS * 2);
+  // Don't cut words in half at either end
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < firstIndex) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > firstIndex) end = space;
+  }
+
+  const prefix = start > 0 ? '...' : '';
+  const body = text.slice(start, end);
+  const highlights: TextRange[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    const matchStart = match.index + match[1].length + prefix.length;
+    highlights.push({ start: matchStart, end: matchStart + match[2].length });
+  }
+
+  return { snippet: `${prefix}${body}${end < text.length ? '...' : ''}`, highlights };
+};
+
+/**
+ * Inverted index from words to the messages containing them, ranked with BM25
+ */
+export class MessageSearchIndex {
+  // Word -> IDs of the messages containing it
+  private postings = new Map<string, Set<string>>();
+  private messages = new Map<string, IndexedMessage>();
+  // The conversation objects as of the last sync
+  private conversations = new Map<string, Conversation>();
+  private totalLength = 0;
+
+  /**
+   * Bring the index up to date with the conversations, re-indexing only what changed
+   * @param conversations - Every conversation
+   */
+  sync(conversations: Conversation[]): void {
+    const present = new Set<string>();
+
+    for (const conversation of conversations) {
+      present.add(conversation.id);
+      const previous = this.conversations.get(conversation.id);
+      if (previous === conversation) continue;
+
+      this.syncConversation(conversation, previous);
+      this.conversations.set(conversation.id, conversation);
+    }
+
+    this.conversations.forEach((conversation, id) => {
+      if (present.has(id)) return;
+      conversation.messages.forEach(message => this.removeMessage(message.id));
+      this.conversations.delete(id);
+    });
+  }
+
+  /**
+   * Find the messages best matching a query. The last word also matches longer
+   * words starting with it, so results show up while it's still being typed.
+   * @param query - The words to look for
+   * @param limit - Most results to return
+   */
+  search(query: string, limit: number = MAX_SEARCH_RESULTS): MessageSearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.messages.size === 0) return [];
+
+    const isTypingLastWord = !/\s$/.test(query);
+    const averageLength = this.totalLength / this.messages.size || 1;
+    const scores = new Map<string, { score: number; matchedTerms: number }>();
+
+    terms.forEach((term, termIndex) => {
+      const isLast = termIndex === terms.length - 1;
+      const words = isLast && isTypingLastWord ? this.expandPrefix(term) : [term];
+      // A message counts once per query word, however many expansions it matches
+      const matchedHere = new Set<string>();
+
+      words.forEach(word => {
+        const messageIds = this.postings.get(word);
+        if (!messageIds) return;
+        const idf = Math.log(1 + (this.messages.size - messageIds.size + 0.5) / (messageIds.size + 0.5));
+
+        messageIds.forEach(messageId => {
+          const entry = this.messages.get(messageId)!;
+          const frequency = entry.counts.get(word) || 0;
+          const normalization = BM25_K1 * (1 - BM25_B + BM25_B * entry.length / averageLength);
+          const current = scores.get(messageId) || { score: 0, matchedTerms: 0 };
+          current.score += idf * frequency * (BM25_K1 + 1) / (frequency + normalization);
+          if (!matchedHere.has(messageId)) {
+            matchedHere.add(messageId);
+            current.matchedTerms++;
+          }
+          scores.set(messageId, current);
+        });
+      });
+    });
+
+    return Array.from(scores.entries())
+      // Messages missing some of the words are pushed well down; ties go to the newest
+      .map(([messageId, { score, matchedTerms }]) => ({
+        entry: this.messages.get(messageId)!,
+        score: score * Math.pow(matchedTerms / terms.length, 2),
+      }))
+      .sort((a, b) =>
+        b.score - a.score ||
+        new Date(b.entry.message.timestamp).getTime() - new Date(a.entry.message.timestamp).getTime()
+      )
+      .slice(0, limit)
+      .map(({ entry, score }) => ({
+        conversationId: entry.conversationId,
+        messageId: entry.message.id,
+        role: entry.message.role,
+        timestamp: entry.message.timestamp,
+        score,
+        ...getSearchSnippet(entry.message.content, terms),
+      }));
+  }
+
+  private syncConversation(conversation: Conversation, previous?: Conversation): void {
+    const current = new Set<string>();
+
+    for (const message of conversation.messages) {
+      if (!isSearchable(message)) continue;
+      current.add(message.id);
+
+      const entry = this.messages.get(message.id);
+      // Pinning and the like replace the message without changing its text
+      if (entry && entry.message.content === message.content) {
+        entry.message = message;
+        continue;
+      }
+      if (entry) this.removeMessage(message.id);
+      this.addMessage(conversation.id, message);
+    }
+
+    previous?.messages.forEach(message => {
+      if (!current.has(message.id)) this.removeMessage(message.id);
+    });
+  }
+
+  private addMessage(conversationId: string, message: Message): void {
+    const words = tokenize(message.content);
+    const counts = new Map<string, number>();
+    words.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+
+    counts.forEach((_count, word) => {
+      let messageIds = this.postings.get(word);
+      if (!messageIds) {
+        messageIds = new Set();
+        this.postings.set(word, messageIds);
+      }
+      messageIds.add(message.id);
+    });
+
+    this.messages.set(message.id, { message, conversationId, counts, length: words.length });
+    this.totalLength += words.length;
+  }
+
+  private removeMessage(messageId: string): void {
+    const entry = this.messages.get(messageId);
+    if (!entry) return;
+
+    entry.counts.forEach((_count, word) => {
+      const messageIds = this.postings.get(word);
+      messageIds?.delete(messageId);
+      if (messageIds?.size === 0) this.postings.delete(word);
+    });
+
+    this.messages.delete(messageId);
+    this.totalLength -= entry.length;
+  }
+
+  // Indexed words starting with a prefix, the exact word first
+  private expandPrefix(prefix: string): string[] {
+    const words = this.postings.has(prefix) ? [prefix] : [];
+    for (const word of this.postings.keys()) {
+      if (words.length >= MAX_PREFIX_EXPANSIONS) break;
+      if (word !== prefix && word.startsWith(prefix)) words.push(word);
+    }
+    return words;
+  }
+}
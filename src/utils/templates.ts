@@ -0,0 +1,138 @@
+/**
+ * Prompt templates: slash command matching, {{variable}} placeholders, and the
+ * JSON format templates are shared in
+ */
+
+import { PromptTemplate } from '../types';
+
+// Bumped if the export format changes in a way older versions can't read
+const TEMPLATE_EXPORT_VERSION = 1;
+
+// Same range as the temperature setting
+const MIN_TEMPERATURE = 0;
+const MAX_TEMPERATURE = 2;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * The form a command is stored and matched in: lowercase, without the slash,
+ * with spaces turned into dashes
+ * @param command - The command as typed
+ */
+export const normalizeCommand = (command: string): string => {
+  return command
+    .trim()
+    .toLowerCase()
+    .replace(/^\/+/, '')
+    .replace(/\s+/g, '-')
+    .replace(/[^\w-]/g, '');
+};
+
+/**
+ * The distinct variable names in a template body, in order of first use
+ * @param body - Template text with {{name}} placeholders
+ */
+export const getTemplateVariables = (body: string): string[] => {
+  return Array.from(new Set(Array.from(body.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+};
+
+/**
+ * The command being typed, if the input is a slash followed by nothing but a
+ * command so far
+ * @param input - The chat input's text
+ */
+export const getCommandQuery = (input: string): string | null => {
+  const match = input.match(/^\/([\w-]*)$/);
+  return match ? match[1].toLowerCase() : null;
+};
+
+/**
+ * Templates whose command matches what's typed, prefix matches first
+ * @param templates - All templates
+ * @param query - The command typed so far, without the slash
+ */
+export const matchTemplates = (templates: PromptTemplate[], query: string): PromptTemplate[] => {
+  const byCommand = (a: PromptTemplate, b: PromptTemplate) => a.command.localeCompare(b.command);
+  const prefixed = templates.filter(template => template.command.startsWith(query)).sort(byCommand);
+  const containing = templates
+    .filter(template => !template.command.startsWith(query) && template.command.includes(query))
+    .sort(byCommand);
+  return [...prefixed, ...containing];
+};
+
+/**
+ * The next {{placeholder}} at or after a position, wrapping around to the start
+ * @param text - The text being edited
+ * @param from - Position to search from
+ * @returns The placeholder's range, or null if none are left
+ */
+export const findPlaceholder = (text: string, from: number = 0): { start: number; end: number } | null => {
+  const placeholders = Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+  return placeholders.find(placeholder => placeholder.start >= from) || placeholders[0] || null;
+};
+
+/**
+ * The template's variables still showing as placeholders in the text
+ * @param text - The message about to be sent
+ * @param template - The template it was started from
+ */
+export const getUnfilledVariables = (text: string, template: PromptTemplate): string[] => {
+  const remaining = new Set(getTemplateVariables(text));
+  return getTemplateVariables(template.body).filter(variable => remaining.has(variable));
+};
+
+/**
+ * Turn templates into a JSON file for sharing; IDs are left out so imports never clash
+ * @param templates - The templates to export
+ */
+export const serializeTemplates = (templates: PromptTemplate[]): string => {
+  return JSON.stringify({
+    version: TEMPLATE_EXPORT_VERSION,
+    templates: templates.map(({ id, ...template }) => template),
+  }, null, 2);
+};
+
+/**
+ * Read templates from an exported JSON file, or from a bare array of templates
+ * @param json - The file's text
+ * @throws Error with a user-facing message if the file isn't a template export
+ */
+export const parseTemplates = (json: string): Omit<PromptTemplate, 'id'>[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file isn\'t valid JSON.');
+  }
+
+  const items = Array.isArray(data) ? data : data?.templates;
+  if (!Array.isArray(items)) {
+    throw new Error('The file doesn\'t contain any templates.');
+  }
+  if (!Array.isArray(data) && typeof data.version === 'number' && data.version > TEMPLATE_EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of the app.');
+  }
+
+  return items.map((item: any, index: number) => {
+    const command = typeof item?.command === 'string' ? normalizeCommand(item.command) : '';
+    const body = typeof item?.body === 'string' ? item.body : '';
+    if (!command || !body.trim()) {
+      throw new Error(`Template ${index + 1} needs a command and a body.`);
+    }
+
+    const temperature = typeof item.temperature === 'number' && isFinite(item.temperature)
+      ? Math.min(MAX_TEMPERATURE, Math.max(MIN_TEMPERATURE, item.temperature))
+      : undefined;
+
+    return {
+      command,
+      body,
+      ...(typeof item.description === 'string' && item.description.trim() && { description: item.description.trim() }),
+      ...(typeof item.model === 'string' && item.model && { model: item.model }),
+      ...(temperature !== undefined && { temperature }),
+    };
+  });
+};
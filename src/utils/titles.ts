@@ -0,0 +1,66 @@
+/**
+ * Conversation titles written by a model from the first exchange
+ */
+
+import { LLMOption } from '../types';
+import { callLLM } from './api';
+import { DEFAULT_RETRY_POLICY } from './llmErrors';
+import { getProvider } from './providers';
+
+// Longest title kept, in characters; models occasionally ignore the length limit
+const MAX_TITLE_LENGTH = 60;
+
+// Enough of each message for the model to tell what the conversation is about
+const MAX_EXCERPT_LENGTH = 1000;
+
+const TITLE_SYSTEM_PROMPT = 'You name conversations. Reply with a title of 2 to 6 words that says what the ' +
+  'conversation is about, in the language of the user\'s message. No quotes, no trailing punctuation, nothing else.';
+
+/**
+ * Whether a model can write titles. On-device models only echo or play a script,
+ * so their "titles" would be worse than the heuristic.
+ * @param option - The model that would write the title
+ */
+export const canGenerateTitle = (option: LLMOption): boolean => {
+  const adapter = getProvider(option.providerId);
+  return !!adapter && !('respond' in adapter);
+};
+
+// Strip the wrapping models like to add despite the instructions
+const cleanTitle = (text: string): string => {
+  const title = text
+    .split('\n')[0]
+    .replace(/^(title|subject)\s*:\s*/i, '')
+    .replace(/^["'“”‘’*#\s]+|["'“”‘’*\s]+$/g, '')
+    .replace(/[.!?:;,]+$/, '')
+    .trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.substring(0, MAX_TITLE_LENGTH).trim()}...` : title;
+};
+
+/**
+ * Ask a model for a short title summing up a conversation's first exchange
+ * @param option - The model to ask
+ * @param userText - The first user message
+ * @param assistantText - The reply to it
+ * @returns The title, or an empty string if the model didn't give a usable one
+ */
+export const generateConversationTitle = async (
+  option: LLMOption,
+  userText: string,
+  assistantText: string
+): Promise<string> => {
+  const transcript = `User: ${userText.substring(0, MAX_EXCERPT_LENGTH)}\n\n` +
+    `Assistant: ${assistantText.substring(0, MAX_EXCERPT_LENGTH)}`;
+
+  const response = await callLLM({
+    llmOption: option,
+    messages: [{ role: 'user', content: [{ type: 'text', text: transcript }] }],
+    systemPrompt: TITLE_SYSTEM_PROMPT,
+    maxTokens: 30,
+    temperature: 0.3,
+    // A title isn't worth waiting through rate-limit backoff for
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 },
+  });
+
+  return cleanTitle(response.text);
+};
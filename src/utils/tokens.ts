@@ -0,0 +1,79 @@
+import { ChatContentPart, ChatMessage, LLMOption, Message } from '../types';
+
+// Context window assumed for models that don't declare one
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Tokens each message costs beyond its text (role markers and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Flat allowance per attached image. Providers bill images by resolution (roughly
+// 85-1600 tokens); we don't know the size after encoding, so assume a mid-sized photo.
+const IMAGE_TOKENS = 1000;
+
+/**
+ * Estimate how many tokens a piece of text will use. This is a local heuristic,
+ * not a real tokenizer: roughly 4 characters or 0.75 words per token for English,
+ * taking whichever is larger so dense text isn't undercounted.
+ * @param text - The text to measure
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.ceil(Math.max(text.length / 4, words * 1.33));
+};
+
+/**
+ * Estimate the tokens a stored message will take up in a request
+ * @param message - The conversation message
+ */
+export const estimateMessageTokens = (message: Message): number => {
+  // content always holds the message's text, so only count the other parts
+  const otherParts = (message.parts || []).filter(part => part.type !== 'text');
+  return estimateTokens(message.content) + estimateContentTokens(otherParts) + MESSAGE_OVERHEAD_TOKENS;
+};
+
+// Estimate the tokens of a message's content parts
+const estimateContentTokens = (parts: ChatContentPart[]): number => {
+  return parts.reduce((total, part) => {
+    switch (part.type) {
+      case 'text':
+        return total + estimateTokens(part.text);
+      case 'image':
+        return total + IMAGE_TOKENS;
+      case 'tool_call':
+        return total + estimateTokens(`${part.name} ${JSON.stringify(part.arguments)}`) + MESSAGE_OVERHEAD_TOKENS;
+      case 'tool_result':
+        return total + estimateTokens(part.content) + MESSAGE_OVERHEAD_TOKENS;
+    }
+  }, 0);
+};
+
+/**
+ * Estimate the prompt tokens of a request, for providers that don't report usage
+ * @param messages - History sent to the provider
+ * @param systemPrompt - System prompt sent alongside it
+ */
+export const estimateChatTokens = (messages: ChatMessage[], systemPrompt: string): number => {
+  return messages.reduce((total, message) => {
+    return total + estimateContentTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+  }, estimateTokens(systemPrompt) + MESSAGE_OVERHEAD_TOKENS);
+};
+
+/**
+ * Get the context window size for a model option
+ * @param option - The selected LLM option
+ */
+export const getContextWindow = (option?: LLMOption): number => {
+  return option?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+};
+
+/**
+ * Format a token count for display, e.g. 12345 -> "12.3k"
+ * @param tokens - Number of tokens
+ */
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+  return String(tokens);
+};
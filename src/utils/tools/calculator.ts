@@ -0,0 +1,147 @@
+import { ToolDefinition } from './types';
+
+// Maps rather than objects, so names like toString or constructor aren't found on the prototype
+const FUNCTIONS = new Map<string, (value: number) => number>([
+  ['sqrt', Math.sqrt],
+  ['abs', Math.abs],
+  ['round', Math.round],
+  ['floor', Math.floor],
+  ['ceil', Math.ceil],
+  ['sin', Math.sin],
+  ['cos', Math.cos],
+  ['tan', Math.tan],
+  ['asin', Math.asin],
+  ['acos', Math.acos],
+  ['atan', Math.atan],
+  ['ln', Math.log],
+  ['log', Math.log10],
+  ['exp', Math.exp],
+]);
+
+const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+  ['e', Math.E],
+]);
+
+// Split an expression into numbers, names, operators and parentheses
+const tokenize = (expression: string): string[] => {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|\*\*|[-+*/%^(),]/gi) || [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Unsupported characters in expression: ${expression}`);
+  }
+  return tokens;
+};
+
+/**
+ * Evaluate an arithmetic expression without eval. Supports + - * / % ^ (or **),
+ * parentheses, unary minus, the functions in FUNCTIONS and the constants pi and e.
+ * @param expression - The expression to evaluate
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in expression`);
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ('-' | '+') unary | power  -- so -2^2 is -(2^2)
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary (('^' | '**') unary)?  -- right-associative
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    const constant = CONSTANTS.get(name);
+    if (constant !== undefined) return constant;
+    const fn = FUNCTIONS.get(name);
+    if (fn) {
+      expect('(');
+      const argument = parseExpression();
+      expect(')');
+      return fn(argument);
+    }
+
+    throw new Error(`Unknown name "${token}" in expression`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in expression`);
+  }
+  if (!isFinite(result)) {
+    throw new Error('The result is not a finite number');
+  }
+  return result;
+};
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  description: 'Evaluate an arithmetic expression exactly. Use this instead of doing math in your head. '
+    + 'Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, '
+    + 'ln, log (base 10), exp, and the constants pi and e. Angles are in radians.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, e.g. "(4.5 + 3) * 2^10"' },
+    },
+    required: ['expression'],
+  },
+  handler: async (args) => {
+    if (typeof args.expression !== 'string' || !args.expression.trim()) {
+      throw new Error('expression must be a non-empty string');
+    }
+    return { expression: args.expression, result: evaluateExpression(args.expression) };
+  },
+};
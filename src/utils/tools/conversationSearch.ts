@@ -0,0 +1,68 @@
+import { ToolDefinition } from './types';
+import { getActiveBranch } from '../messageTree';
+
+// Most matches returned to the model, to keep the result small
+const MAX_RESULTS = 5;
+
+// Characters of context shown on each side of a match
+const SNIPPET_RADIUS = 80;
+
+// Cut a window of text around the first occurrence of a term
+const getSnippet = (content: string, term: string): string => {
+  const index = content.toLowerCase().indexOf(term);
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '...' : ''}${content.slice(start, end).trim()}${end < content.length ? '...' : ''}`;
+};
+
+export const conversationSearchTool: ToolDefinition = {
+  name: 'search_conversations',
+  description: 'Search the user\'s other saved conversations in this app for messages containing the given words. '
+    + 'Use it when the user refers to something discussed in an earlier chat.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to look for' },
+    },
+    required: ['query'],
+  },
+  handler: async (args, context) => {
+    if (typeof args.query !== 'string' || !args.query.trim()) {
+      throw new Error('query must be a non-empty string');
+    }
+
+    const terms = args.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches: { conversation: string; role: string; date: string; snippet: string; score: number }[] = [];
+
+    for (const conversation of context.conversations) {
+      // The current conversation is already in the model's context
+      if (conversation.id === context.conversationId) continue;
+
+      // Only the selected branch; the others are mostly near-duplicates of it
+      for (const message of getActiveBranch(conversation)) {
+        if (message.isError || !message.content) continue;
+
+        const content = message.content.toLowerCase();
+        const matchedTerms = terms.filter(term => content.includes(term));
+        if (matchedTerms.length === 0) continue;
+
+        // A corrupt timestamp shouldn't fail the whole search
+        const date = new Date(message.timestamp);
+        matches.push({
+          conversation: conversation.title,
+          role: message.role,
+          date: isNaN(date.getTime()) ? 'unknown' : date.toISOString().slice(0, 10),
+          snippet: getSnippet(message.content, matchedTerms[0]),
+          score: matchedTerms.length,
+        });
+      }
+    }
+
+    const results = matches
+      .sort((a, b) => b.score - a.score || b.date.localeCompare(a.date))
+      .slice(0, MAX_RESULTS)
+      .map(({ score, ...match }) => match);
+
+    return { query: args.query, totalMatches: matches.length, results };
+  },
+};
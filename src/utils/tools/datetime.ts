@@ -0,0 +1,36 @@
+import { ToolDefinition } from './types';
+
+export const dateTimeTool: ToolDefinition = {
+  name: 'current_datetime',
+  description: 'Get the current date and time, in the user\'s time zone or a given IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Paris"; defaults to the user\'s' },
+    },
+  },
+  handler: async (args) => {
+    const now = new Date();
+    const userTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const timeZone = typeof args.timeZone === 'string' && args.timeZone ? args.timeZone : userTimeZone;
+
+    let formatted: string;
+    try {
+      formatted = now.toLocaleString('en-US', {
+        timeZone,
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        timeZoneName: 'short',
+      });
+    } catch {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+
+    return { iso: now.toISOString(), timeZone, formatted };
+  },
+};
@@ -0,0 +1,75 @@
+import { ToolCallContentPart, ToolResultContentPart } from '../../types';
+import { ToolContext, ToolDefinition } from './types';
+import { calculatorTool } from './calculator';
+import { dateTimeTool } from './datetime';
+import { unitConversionTool } from './units';
+import { conversationSearchTool } from './conversationSearch';
+import { rememberTool } from './remember';
+
+export * from './types';
+// Registered by the chat context only while memory is turned on
+export { rememberTool };
+
+// Registered tools, keyed by the name the model calls them by
+const toolRegistry = new Map<string, ToolDefinition>();
+
+/**
+ * Register a tool so models can call it
+ * @param tool - The tool to register; replaces any tool with the same name
+ */
+export const registerTool = (tool: ToolDefinition): void => {
+  toolRegistry.set(tool.name, tool);
+};
+
+/**
+ * Remove a registered tool so models are no longer offered it
+ * @param name - The tool's name
+ */
+export const unregisterTool = (name: string): void => {
+  toolRegistry.delete(name);
+};
+
+/**
+ * Look up a registered tool
+ * @param name - The tool name from a tool call
+ */
+export const getTool = (name: string): ToolDefinition | undefined => {
+  return toolRegistry.get(name);
+};
+
+/**
+ * Get every registered tool
+ */
+export const getTools = (): ToolDefinition[] => {
+  return Array.from(toolRegistry.values());
+};
+
+registerTool(calculatorTool);
+registerTool(dateTimeTool);
+registerTool(unitConversionTool);
+registerTool(conversationSearchTool);
+
+/**
+ * Run a tool call and package its outcome for the model. Failures become error
+ * results rather than exceptions, so the model can correct itself.
+ * @param call - The tool call from the model
+ * @param context - App state the tool may read
+ */
+export const runToolCall = async (
+  call: ToolCallContentPart,
+  context: ToolContext
+): Promise<ToolResultContentPart> => {
+  const result = { type: 'tool_result' as const, toolCallId: call.id, name: call.name };
+  const tool = getTool(call.name);
+
+  if (!tool) {
+    return { ...result, content: `Unknown tool: ${call.name}`, isError: true };
+  }
+
+  try {
+    const output = await tool.handler(call.arguments, context);
+    return { ...result, content: typeof output === 'string' ? output : JSON.stringify(output) };
+  } catch (error) {
+    return { ...result, content: error instanceof Error ? error.message : String(error), isError: true };
+  }
+};
@@ -0,0 +1,27 @@
+import { ToolDefinition } from './types';
+import { cleanMemory } from '../memory';
+
+export const rememberTool: ToolDefinition = {
+  name: 'remember',
+  description: 'Save a fact or preference about the user so it is available in future conversations. '
+    + 'Use it when the user asks you to remember something, phrased as a short third-person sentence.',
+  parameters: {
+    type: 'object',
+    properties: {
+      memory: { type: 'string', description: 'What to remember, e.g. "Is vegetarian"' },
+    },
+    required: ['memory'],
+  },
+  handler: async (args, context) => {
+    if (!context.remember) {
+      throw new Error('Memory is turned off in settings, so nothing can be saved');
+    }
+    if (typeof args.memory !== 'string' || !cleanMemory(args.memory)) {
+      throw new Error('memory must be a non-empty string');
+    }
+
+    const memory = cleanMemory(args.memory);
+    context.remember(memory);
+    return { saved: memory };
+  },
+};
@@ -0,0 +1,34 @@
+import { Conversation } from '../../types';
+
+// The subset of JSON Schema every tool-calling provider understands
+export interface JSONSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  enum?: string[];
+  items?: JSONSchema;
+}
+
+// What the model is told about a tool
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  // Schema of the arguments object
+  parameters: JSONSchema;
+}
+
+// App state a tool may read, and the few actions it may take, while it runs
+export interface ToolContext {
+  conversations: Conversation[];
+  // The conversation the call was made from
+  conversationId?: string;
+  // Save a memory about the user; unset while memory is turned off
+  remember?: (content: string) => void;
+}
+
+export interface ToolDefinition extends ToolDeclaration {
+  // Run the tool; the result is sent back to the model as JSON. Throw to report
+  // a failure the model should see and can recover from.
+  handler: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
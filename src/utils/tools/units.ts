@@ -0,0 +1,148 @@
+import { ToolDefinition } from './types';
+
+// Factors to each category's base unit (metre, kilogram, litre, second, m/s, byte)
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: {
+    mm: 0.001,
+    cm: 0.01,
+    m: 1,
+    km: 1000,
+    in: 0.0254,
+    ft: 0.3048,
+    yd: 0.9144,
+    mi: 1609.344,
+    nmi: 1852,
+  },
+  mass: {
+    mg: 0.000001,
+    g: 0.001,
+    kg: 1,
+    t: 1000,
+    oz: 0.028349523125,
+    lb: 0.45359237,
+    st: 6.35029318,
+  },
+  volume: {
+    ml: 0.001,
+    l: 1,
+    m3: 1000,
+    tsp: 0.00492892159375,
+    tbsp: 0.01478676478125,
+    floz: 0.0295735295625,
+    cup: 0.2365882365,
+    pt: 0.473176473,
+    qt: 0.946352946,
+    gal: 3.785411784,
+  },
+  time: {
+    ms: 0.001,
+    s: 1,
+    min: 60,
+    h: 3600,
+    day: 86400,
+    week: 604800,
+    year: 31557600,
+  },
+  speed: {
+    'm/s': 1,
+    'km/h': 1000 / 3600,
+    mph: 0.44704,
+    knot: 1852 / 3600,
+  },
+  data: {
+    b: 1,
+    kb: 1000,
+    mb: 1000 ** 2,
+    gb: 1000 ** 3,
+    tb: 1000 ** 4,
+    kib: 1024,
+    mib: 1024 ** 2,
+    gib: 1024 ** 3,
+    tib: 1024 ** 4,
+  },
+};
+
+// Temperatures aren't proportional, so they convert through Celsius
+const TO_CELSIUS: Record<string, (value: number) => number> = {
+  c: value => value,
+  f: value => (value - 32) * 5 / 9,
+  k: value => value - 273.15,
+};
+
+const FROM_CELSIUS: Record<string, (value: number) => number> = {
+  c: value => value,
+  f: value => value * 9 / 5 + 32,
+  k: value => value + 273.15,
+};
+
+// Spellings models commonly use for the unit keys above
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  kilometer: 'km', kilometers: 'km', centimeter: 'cm', centimeters: 'cm', millimeter: 'mm', millimeters: 'mm',
+  inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi',
+  gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg', tonne: 't', tonnes: 't',
+  ounce: 'oz', ounces: 'oz', pound: 'lb', pounds: 'lb', lbs: 'lb', stone: 'st',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', milliliter: 'ml', milliliters: 'ml',
+  gallon: 'gal', gallons: 'gal', cups: 'cup', pint: 'pt', pints: 'pt', quart: 'qt', quarts: 'qt',
+  second: 's', seconds: 's', sec: 's', minute: 'min', minutes: 'min', hour: 'h', hours: 'h', hr: 'h',
+  days: 'day', weeks: 'week', years: 'year',
+  kph: 'km/h', kmh: 'km/h', knots: 'knot', kt: 'knot',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k',
+  byte: 'b', bytes: 'b',
+};
+
+const normalizeUnit = (unit: string): string => {
+  const lower = unit.trim().toLowerCase();
+  return UNIT_ALIASES[lower] || lower;
+};
+
+/**
+ * Convert a value between two units of the same kind
+ * @param value - The amount to convert
+ * @param from - Unit of the value
+ * @param to - Unit to convert to
+ */
+export const convertUnits = (value: number, from: string, to: string): number => {
+  const fromUnit = normalizeUnit(from);
+  const toUnit = normalizeUnit(to);
+
+  if (fromUnit in TO_CELSIUS && toUnit in FROM_CELSIUS) {
+    return FROM_CELSIUS[toUnit](TO_CELSIUS[fromUnit](value));
+  }
+
+  for (const factors of Object.values(UNIT_FACTORS)) {
+    if (fromUnit in factors && toUnit in factors) {
+      return value * factors[fromUnit] / factors[toUnit];
+    }
+  }
+
+  throw new Error(`Can't convert from "${from}" to "${to}"`);
+};
+
+const SUPPORTED_UNITS = [
+  ...Object.entries(UNIT_FACTORS).map(([category, factors]) => `${category}: ${Object.keys(factors).join(', ')}`),
+  'temperature: c, f, k',
+].join('; ');
+
+export const unitConversionTool: ToolDefinition = {
+  name: 'convert_units',
+  description: `Convert a value between units of the same kind. Supported units are ${SUPPORTED_UNITS}.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      value: { type: 'number', description: 'The amount to convert' },
+      from: { type: 'string', description: 'Unit of the value, e.g. "mi"' },
+      to: { type: 'string', description: 'Unit to convert to, e.g. "km"' },
+    },
+    required: ['value', 'from', 'to'],
+  },
+  handler: async (args) => {
+    const value = Number(args.value);
+    if (isNaN(value) || typeof args.from !== 'string' || typeof args.to !== 'string') {
+      throw new Error('value must be a number and from/to must be unit names');
+    }
+    // Round off floating point noise such as 0.30000000000000004
+    const result = parseFloat(convertUnits(value, args.from, args.to).toPrecision(12));
+    return { value, from: args.from, to: args.to, result };
+  },
+};
@@ -0,0 +1,156 @@
+/**
+ * Aggregating the usage recorded on assistant messages
+ */
+
+import { ChatMessage, Conversation, LLMOption, Message, MessageUsage, TokenUsage } from '../types';
+import { estimateCost, formatCost } from './pricing';
+import { estimateChatTokens, estimateTokens, formatTokenCount } from './tokens';
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Responses with recorded usage
+  responseCount: number;
+  // Responses whose model has no known price, so costUsd undercounts
+  unpricedCount: number;
+}
+
+export interface UsageGroup {
+  key: string;
+  totals: UsageTotals;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+  responseCount: 0,
+  unpricedCount: 0,
+});
+
+const addMessageUsage = (totals: UsageTotals, message: Message): void => {
+  if (!message.usage) return;
+  
+  totals.inputTokens += message.usage.inputTokens;
+  totals.outputTokens += message.usage.outputTokens;
+  totals.responseCount += 1;
+  
+  if (message.usage.costUsd === undefined) {
+    totals.unpricedCount += 1;
+  } else {
+    totals.costUsd += message.usage.costUsd;
+  }
+};
+
+// Local calendar day a message was sent, as YYYY-MM-DD
+const getDayKey = (timestamp: number | string): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Total the usage of every message, bucketed by the given key
+const groupUsage = (
+  conversations: Conversation[],
+  getKey: (message: Message) => string
+): UsageGroup[] => {
+  const groups = new Map<string, UsageTotals>();
+  
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      if (!message.usage) continue;
+      
+      const key = getKey(message);
+      if (!groups.has(key)) groups.set(key, emptyTotals());
+      addMessageUsage(groups.get(key)!, message);
+    }
+  }
+  
+  return Array.from(groups, ([key, totals]) => ({ key, totals }));
+};
+
+interface MessageUsageParams {
+  llmOption: LLMOption;
+  // The history and system prompt that were sent, for estimating input tokens
+  history: ChatMessage[];
+  systemPrompt: string;
+  startedAt: number;
+  text: string;
+  // Model the provider reports having used
+  model?: string;
+  // Counts reported by the provider, if any
+  reported?: TokenUsage;
+}
+
+/**
+ * Build the usage record stored on an assistant message, estimating the token
+ * counts locally when the provider didn't report them (e.g. a stopped stream)
+ */
+export const createMessageUsage = ({
+  llmOption,
+  history,
+  systemPrompt,
+  startedAt,
+  text,
+  model,
+  reported,
+}: MessageUsageParams): MessageUsage => {
+  const counts = reported || {
+    inputTokens: estimateChatTokens(history, systemPrompt),
+    outputTokens: estimateTokens(text),
+  };
+  const modelId = model || llmOption.modelId;
+  
+  return {
+    ...counts,
+    latencyMs: Date.now() - startedAt,
+    modelId,
+    providerId: llmOption.providerId,
+    costUsd: estimateCost([modelId, llmOption.modelId], counts),
+    ...(!reported && { isEstimated: true }),
+  };
+};
+
+/**
+ * One-line summary of what a response cost, e.g. "gpt-4o · 1.2k in / 340 out · 2.1s · $0.0064"
+ * @param usage - The usage recorded on the response
+ */
+export const formatMessageUsage = (usage: MessageUsage): string => {
+  const approx = usage.isEstimated ? '~' : '';
+  return [
+    usage.modelId,
+    `${approx}${formatTokenCount(usage.inputTokens)} in / ${approx}${formatTokenCount(usage.outputTokens)} out`,
+    `${(usage.latencyMs / 1000).toFixed(1)}s`,
+    usage.costUsd !== undefined ? `${approx}${formatCost(usage.costUsd)}` : null,
+  ].filter(Boolean).join(' · ');
+};
+
+/**
+ * Total the usage recorded in a conversation
+ * @param conversation - The conversation to total
+ */
+export const getConversationUsage = (conversation: Conversation): UsageTotals => {
+  const totals = emptyTotals();
+  conversation.messages.forEach(message => addMessageUsage(totals, message));
+  return totals;
+};
+
+/**
+ * Usage across conversations per provider, highest spend first
+ * @param conversations - Conversations to include
+ */
+export const getUsageByProvider = (conversations: Conversation[]): UsageGroup[] => {
+  return groupUsage(conversations, message => message.usage!.providerId)
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd);
+};
+
+/**
+ * Usage across conversations per day, most recent first
+ * @param conversations - Conversations to include
+ */
+export const getUsageByDay = (conversations: Conversation[]): UsageGroup[] => {
+  return groupUsage(conversations, message => getDayKey(message.timestamp))
+    .sort((a, b) => b.key.localeCompare(a.key));
+};